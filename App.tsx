@@ -1,5 +1,8 @@
 import React, { useState, useCallback } from 'react';
-import { FinancialProvider } from './context/FinancialContext';
+import { FinancialProvider, useFinancials } from './context/FinancialContext';
+import { SettingsProvider } from './context/SettingsContext';
+import { ProfileProvider, useProfiles } from './context/ProfileContext';
+import { PeriodProvider } from './context/PeriodContext';
 import { View } from './types';
 import { Icons } from './components/ui/Icons';
 import Dashboard from './components/Dashboard';
@@ -11,6 +14,14 @@ import Purchases from './components/Purchases';
 import Sync from './components/Sync';
 import Rundown from './components/Rundown';
 import Settings from './components/Settings';
+import Activity from './components/Activity';
+import AnnualReport from './components/AnnualReport';
+import UndoToast from './components/UndoToast';
+import ProfileSwitcher from './components/ProfileSwitcher';
+import PeriodSelector from './components/PeriodSelector';
+
+// Views that are filtered to the period chosen in the shell.
+const PERIOD_VIEWS: View[] = ['dashboard', 'expenses', 'income'];
 
 const NavItem: React.FC<{
   icon: React.ElementType;
@@ -52,6 +63,7 @@ const MobileNavItem: React.FC<{
 
 const AppContent: React.FC = () => {
   const [currentView, setCurrentView] = useState<View>('dashboard');
+  const { loadError, undo, redo, canUndo, canRedo, syncConflicts, dismissSyncConflicts } = useFinancials();
 
   const navItems = [
     { view: 'dashboard', icon: Icons.Dashboard, label: 'Dashboard' },
@@ -61,6 +73,8 @@ const AppContent: React.FC = () => {
     { view: 'investments', icon: Icons.Investments, label: 'Investments' },
     { view: 'purchases', icon: Icons.Purchases, label: 'Purchases' },
     { view: 'rundown', icon: Icons.Rundown, label: 'Rundown' },
+    { view: 'report', icon: Icons.Report, label: 'Year in Review' },
+    { view: 'activity', icon: Icons.Activity, label: 'Activity' },
     { view: 'sync', icon: Icons.Sync, label: 'Sync & Backup' },
     { view: 'settings', icon: Icons.Settings, label: 'Settings' },
   ] as const;
@@ -76,18 +90,23 @@ const AppContent: React.FC = () => {
       case 'rundown': return <Rundown />;
       case 'sync': return <Sync />;
       case 'settings': return <Settings />;
+      case 'activity': return <Activity />;
+      case 'report': return <AnnualReport />;
       default: return <Dashboard />;
     }
   };
   
   return (
-    <div className="flex h-screen bg-background text-text-primary">
+    <div className="flex h-screen bg-background text-text-primary print:block print:h-auto">
       {/* Desktop Sidebar */}
-      <aside className="hidden md:flex flex-col w-64 bg-surface flex-shrink-0 border-r border-secondary">
+      <aside className="hidden md:flex print:hidden flex-col w-64 bg-surface flex-shrink-0 border-r border-secondary">
         <div className="flex items-center justify-center h-20 border-b border-secondary">
           <Icons.Goal className="w-8 h-8 text-brand" />
           <span className="ml-2 text-xl font-bold">WaveFinances</span>
         </div>
+        <div className="px-4 pt-4">
+            <ProfileSwitcher className="w-full" />
+        </div>
         <nav className="flex-1 px-4 py-6 space-y-2">
             {navItems.map(item => (
                 <NavItem 
@@ -99,23 +118,63 @@ const AppContent: React.FC = () => {
                 />
             ))}
         </nav>
+        <div className="flex px-4 py-4 space-x-2 border-t border-secondary">
+            <button onClick={undo} disabled={!canUndo} title="Undo (Ctrl+Z)" className="flex-1 flex items-center justify-center px-3 py-2 text-sm font-medium rounded-lg text-text-secondary hover:bg-primary hover:text-text-primary disabled:opacity-40 disabled:cursor-not-allowed">
+                <Icons.Undo className="w-4 h-4 mr-2" /> Undo
+            </button>
+            <button onClick={redo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)" className="flex-1 flex items-center justify-center px-3 py-2 text-sm font-medium rounded-lg text-text-secondary hover:bg-primary hover:text-text-primary disabled:opacity-40 disabled:cursor-not-allowed">
+                <Icons.Redo className="w-4 h-4 mr-2" /> Redo
+            </button>
+        </div>
       </aside>
 
       {/* Main Content */}
-      <main className="flex-1 flex flex-col overflow-hidden pb-16 md:pb-0">
-        <header className="flex items-center justify-between p-4 bg-surface shadow-sm md:hidden border-b border-secondary">
+      <main className="flex-1 flex flex-col overflow-hidden pb-16 md:pb-0 print:block print:overflow-visible print:p-0">
+        <header className="flex items-center justify-between p-4 bg-surface shadow-sm md:hidden border-b border-secondary print:hidden">
           <div className="flex items-center">
             <Icons.Goal className="w-7 h-7 text-brand" />
             <span className="ml-2 text-lg font-bold">WaveFinances</span>
           </div>
+          <div className="flex items-center space-x-1">
+            <ProfileSwitcher className="max-w-[8rem] mr-1" />
+            <button onClick={undo} disabled={!canUndo} aria-label="Undo" className="p-2 rounded-lg text-text-secondary hover:bg-primary disabled:opacity-40">
+                <Icons.Undo className="w-5 h-5" />
+            </button>
+            <button onClick={redo} disabled={!canRedo} aria-label="Redo" className="p-2 rounded-lg text-text-secondary hover:bg-primary disabled:opacity-40">
+                <Icons.Redo className="w-5 h-5" />
+            </button>
+          </div>
         </header>
-        <div className="flex-1 overflow-y-auto p-4 sm:p-6 lg:p-8">
+        <div className="flex-1 overflow-y-auto p-4 sm:p-6 lg:p-8 print:overflow-visible print:p-0">
+            {loadError && (
+                <div className="mb-6 p-4 bg-danger/10 rounded-lg flex items-start space-x-2 text-sm">
+                    <Icons.Warning className="w-4 h-4 mt-0.5 flex-shrink-0 text-danger" />
+                    <span><strong>Your saved data could not be loaded:</strong> {loadError} Changes made now will not be saved.</span>
+                </div>
+            )}
+            {syncConflicts > 0 && (
+                <div className="mb-6 p-4 bg-warning/10 rounded-lg flex items-start space-x-2 text-sm">
+                    <Icons.Warning className="w-4 h-4 mt-0.5 flex-shrink-0 text-warning" />
+                    <span className="flex-1">
+                        <strong>Edited in two tabs at once:</strong> {syncConflicts === 1 ? '1 record was' : `${syncConflicts} records were`} changed
+                        here and in another open tab. The version from this tab was kept; the Activity view shows both changes.
+                    </span>
+                    <button onClick={dismissSyncConflicts} aria-label="Dismiss" className="text-text-secondary hover:text-text-primary">
+                        <Icons.Close className="w-4 h-4" />
+                    </button>
+                </div>
+            )}
+            {PERIOD_VIEWS.includes(currentView) && (
+                <div className="mb-6">
+                    <PeriodSelector />
+                </div>
+            )}
             {renderView()}
         </div>
       </main>
 
       {/* Mobile Bottom Navigation */}
-      <nav className="fixed bottom-0 left-0 right-0 bg-surface border-t border-secondary md:hidden flex justify-around">
+      <nav className="fixed bottom-0 left-0 right-0 bg-surface border-t border-secondary md:hidden flex justify-around print:hidden">
         {navItems.slice(0, 5).map(item => ( // Show first 5 items on mobile
             <MobileNavItem 
                 key={item.view}
@@ -126,16 +185,32 @@ const AppContent: React.FC = () => {
             />
         ))}
       </nav>
+
+      <UndoToast />
     </div>
   );
 };
 
 
+// Everything below is mounted afresh when switching profiles, so no state leaks from one profile to another.
+const ProfileScope: React.FC = () => {
+    const { activeProfile } = useProfiles();
+    return (
+        <SettingsProvider key={activeProfile.id}>
+            <FinancialProvider>
+                <AppContent />
+            </FinancialProvider>
+        </SettingsProvider>
+    );
+};
+
 const App: React.FC = () => {
     return (
-        <FinancialProvider>
-            <AppContent />
-        </FinancialProvider>
+        <ProfileProvider>
+            <PeriodProvider>
+                <ProfileScope />
+            </PeriodProvider>
+        </ProfileProvider>
     )
 }
 
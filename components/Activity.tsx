@@ -0,0 +1,178 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useFinancials } from '../context/FinancialContext';
+import { JournalEntity, JournalEntry, RecordChange } from '../types';
+import { ENTITY_LABELS, getChangedFields, getRecordName } from '../services/journal';
+import { isMoneyField } from '../services/money';
+import { categoryPath } from '../services/categories';
+import { useCurrency } from '../hooks/useCurrency';
+import { useFormatter } from '../hooks/useFormatter';
+import { Card, CardHeader, CardTitle, CardContent } from './ui/Card';
+
+const PAGE_SIZE = 100;
+
+const formatValue = (value: unknown) => {
+    if (value === undefined || value === null || value === '') return '—';
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+};
+
+const changeKindStyles: Record<RecordChange['kind'], string> = {
+    added: 'bg-success/10 text-success',
+    updated: 'bg-brand/10 text-brand',
+    removed: 'bg-danger/10 text-danger',
+};
+
+// Records that refer to an expense category by id.
+const CATEGORY_ENTITIES: JournalEntity[] = ['expense', 'recurringExpense', 'purchase'];
+
+const ChangeRow: React.FC<{ change: RecordChange; onSelectEntity: (entity: JournalEntity, id: string) => void }> = ({ change, onSelectEntity }) => {
+    const { state } = useFinancials();
+    const { formatCurrency } = useCurrency();
+    const name = getRecordName(change.after) || getRecordName(change.before);
+    const fields = getChangedFields(change);
+    const currency = (change.after ?? change.before)?.currency as string | undefined;
+    const format = (field: string, value: unknown) => {
+        if (typeof value === 'number' && isMoneyField(change.entity, field)) return formatCurrency(value, currency);
+        if (field === 'category' && typeof value === 'string' && CATEGORY_ENTITIES.includes(change.entity)) return categoryPath(state.categories, value);
+        return formatValue(value);
+    };
+
+    return (
+        <div className="text-sm py-1">
+            <div className="flex items-center flex-wrap gap-2">
+                <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${changeKindStyles[change.kind]}`}>{change.kind}</span>
+                <button onClick={() => onSelectEntity(change.entity, change.id)} className="font-medium text-text-primary hover:underline">
+                    {ENTITY_LABELS[change.entity]} {name && `"${name}"`} <span className="text-text-secondary">({change.id})</span>
+                </button>
+            </div>
+            {fields.length > 0 && (
+                <ul className="ml-4 mt-1 space-y-0.5 text-text-secondary">
+                    {fields.map(f => (
+                        <li key={f.field}>
+                            <span className="font-medium">{f.field}</span>: {format(f.field, f.before)} &rarr; <span className="text-text-primary">{format(f.field, f.after)}</span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+const Activity: React.FC = () => {
+    const { readJournal, journalRevision } = useFinancials();
+    const formatter = useFormatter();
+    const [entries, setEntries] = useState<JournalEntry[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [entityFilter, setEntityFilter] = useState<JournalEntity | 'all'>('all');
+    const [entityIdFilter, setEntityIdFilter] = useState('');
+    const [typeFilter, setTypeFilter] = useState<JournalEntry['type'] | 'all'>('all');
+    const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+    useEffect(() => {
+        let cancelled = false;
+        readJournal()
+            .then(journal => { if (!cancelled) setEntries(journal); })
+            .catch(error => console.error("Could not read the activity journal", error))
+            .finally(() => { if (!cancelled) setIsLoading(false); });
+        return () => { cancelled = true; };
+    }, [readJournal, journalRevision]);
+
+    // Every entity that appears in the journal, with the latest name it was known by.
+    const knownEntities = useMemo(() => {
+        const byKey = new Map<string, { entity: JournalEntity; id: string; name: string }>();
+        entries.forEach(entry => entry.changes.forEach(change => {
+            const name = getRecordName(change.after) || getRecordName(change.before);
+            byKey.set(`${change.entity}:${change.id}`, { entity: change.entity, id: change.id, name });
+        }));
+        return [...byKey.values()];
+    }, [entries]);
+
+    const actionTypes = useMemo(() => [...new Set(entries.map(e => e.type))].sort(), [entries]);
+
+    const filteredEntries = useMemo(() => {
+        const matchesChange = (change: RecordChange) =>
+            (entityFilter === 'all' || change.entity === entityFilter) && (!entityIdFilter || change.id === entityIdFilter);
+
+        return entries
+            .filter(entry => typeFilter === 'all' || entry.type === typeFilter)
+            .map(entry => entityFilter === 'all' && !entityIdFilter ? entry : { ...entry, changes: entry.changes.filter(matchesChange) })
+            .filter(entry => entry.changes.length > 0 || (entityFilter === 'all' && !entityIdFilter))
+            .reverse();
+    }, [entries, entityFilter, entityIdFilter, typeFilter]);
+
+    const handleSelectEntity = (entity: JournalEntity, id: string) => {
+        setEntityFilter(entity);
+        setEntityIdFilter(id);
+        setVisibleCount(PAGE_SIZE);
+    };
+
+    const handleEntityFilterChange = (value: JournalEntity | 'all') => {
+        setEntityFilter(value);
+        setEntityIdFilter('');
+        setVisibleCount(PAGE_SIZE);
+    };
+
+    return (
+        <div className="space-y-6 animate-fade-in">
+            <div>
+                <h1 className="text-3xl font-bold text-text-primary">Activity</h1>
+                <p className="text-text-secondary mt-1">Every change made to your data, with the values before and after.</p>
+            </div>
+
+            <Card>
+                <CardContent className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                        <label htmlFor="activity-entity" className="text-sm font-medium text-text-secondary">Record Type</label>
+                        <select id="activity-entity" value={entityFilter} onChange={e => handleEntityFilterChange(e.target.value as JournalEntity | 'all')} className="w-full bg-background p-2 rounded-md border border-secondary">
+                            <option value="all">All records</option>
+                            {(Object.keys(ENTITY_LABELS) as JournalEntity[]).map(entity => <option key={entity} value={entity}>{ENTITY_LABELS[entity]}</option>)}
+                        </select>
+                    </div>
+                    <div className="space-y-2">
+                        <label htmlFor="activity-record" className="text-sm font-medium text-text-secondary">Record</label>
+                        <select id="activity-record" value={entityIdFilter} onChange={e => setEntityIdFilter(e.target.value)} disabled={entityFilter === 'all'} className="w-full bg-background p-2 rounded-md border border-secondary disabled:opacity-50">
+                            <option value="">All</option>
+                            {knownEntities.filter(e => e.entity === entityFilter).map(e => (
+                                <option key={e.id} value={e.id}>{e.name ? `${e.name} (${e.id})` : e.id}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div className="space-y-2">
+                        <label htmlFor="activity-type" className="text-sm font-medium text-text-secondary">Action</label>
+                        <select id="activity-type" value={typeFilter} onChange={e => setTypeFilter(e.target.value as JournalEntry['type'] | 'all')} className="w-full bg-background p-2 rounded-md border border-secondary">
+                            <option value="all">All actions</option>
+                            {actionTypes.map(type => <option key={type} value={type}>{type}</option>)}
+                        </select>
+                    </div>
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader><CardTitle>{filteredEntries.length} {filteredEntries.length === 1 ? 'Entry' : 'Entries'}</CardTitle></CardHeader>
+                <CardContent className="space-y-4">
+                    {isLoading && <p className="text-text-secondary animate-pulse">Loading activity...</p>}
+                    {!isLoading && filteredEntries.length === 0 && <p className="text-text-secondary">No activity recorded yet.</p>}
+                    {filteredEntries.slice(0, visibleCount).map(entry => (
+                        <div key={entry.id} className="border-t border-secondary pt-3 first:border-t-0 first:pt-0">
+                            <div className="flex justify-between items-baseline">
+                                <p className="font-semibold text-text-primary">{entry.label}</p>
+                                <p className="text-xs text-text-secondary">{formatter.dateTime(entry.timestamp)}</p>
+                            </div>
+                            {entry.changes.length === 0 && <p className="text-sm text-text-secondary">No records changed.</p>}
+                            {entry.changes.map(change => (
+                                <ChangeRow key={`${change.entity}:${change.id}`} change={change} onSelectEntity={handleSelectEntity} />
+                            ))}
+                        </div>
+                    ))}
+                    {filteredEntries.length > visibleCount && (
+                        <button onClick={() => setVisibleCount(c => c + PAGE_SIZE)} className="w-full px-4 py-2 bg-primary rounded-lg hover:bg-secondary/80 transition-colors text-sm font-semibold">
+                            Show more
+                        </button>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+};
+
+export default Activity;
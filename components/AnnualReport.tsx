@@ -0,0 +1,171 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useFinancials } from '../context/FinancialContext';
+import { JournalEntry } from '../types';
+import { ReportSlice, buildAnnualReport, getReportYears } from '../services/annualReport';
+import { Card, CardHeader, CardTitle, CardContent } from './ui/Card';
+import { Icons } from './ui/Icons';
+import { useCurrency } from '../hooks/useCurrency';
+import { useFormatter } from '../hooks/useFormatter';
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, PieChart, Pie, Cell } from 'recharts';
+
+const COLORS = ['#212529', '#0d6efd', '#6c757d', '#198754', '#adb5bd', '#dc3545', '#ffc107', '#0dcaf0', '#6f42c1', '#fd7e14'];
+const tooltipStyle = { backgroundColor: '#ffffff', border: '1px solid #dee2e6', borderRadius: '0.5rem' };
+
+const StatCard: React.FC<{ label: string; value: string; detail?: string; tone?: 'success' | 'danger' }> = ({ label, value, detail, tone }) => (
+    <Card className="break-inside-avoid">
+        <p className="text-sm text-text-secondary">{label}</p>
+        <p className={`text-2xl font-bold mt-1 ${tone === 'success' ? 'text-success' : tone === 'danger' ? 'text-danger' : 'text-text-primary'}`}>{value}</p>
+        {detail && <p className="text-xs text-text-secondary mt-1">{detail}</p>}
+    </Card>
+);
+
+const Breakdown: React.FC<{ title: string; slices: ReportSlice[]; total: number; emptyText: string; chart?: boolean }> = ({ title, slices, total, emptyText, chart }) => {
+    const { formatCurrency } = useCurrency();
+    return (
+        <Card className="break-inside-avoid">
+            <CardHeader><CardTitle>{title}</CardTitle></CardHeader>
+            <CardContent>
+                {slices.length === 0 ? (
+                    <p className="text-sm text-text-secondary">{emptyText}</p>
+                ) : (
+                    <>
+                        {chart && (
+                            <ResponsiveContainer width="100%" height={220}>
+                                <PieChart>
+                                    <Pie data={slices} cx="50%" cy="50%" outerRadius={80} dataKey="value" nameKey="name" isAnimationActive={false}>
+                                        {slices.map((slice, index) => <Cell key={slice.name} fill={slice.color ?? COLORS[index % COLORS.length]} />)}
+                                    </Pie>
+                                    <Tooltip formatter={(value: number) => formatCurrency(value)} contentStyle={tooltipStyle} />
+                                </PieChart>
+                            </ResponsiveContainer>
+                        )}
+                        <table className="w-full text-sm text-left">
+                            <tbody>
+                                {slices.map((slice, index) => (
+                                    <tr key={slice.name} className="border-t border-secondary">
+                                        <td className="py-2 pr-2">
+                                            {chart && <span className="inline-block w-3 h-3 rounded-sm mr-2 align-middle" style={{ backgroundColor: slice.color ?? COLORS[index % COLORS.length] }} />}
+                                            {slice.name}
+                                        </td>
+                                        <td className="py-2 text-right text-text-secondary">{total ? `${((slice.value / total) * 100).toFixed(1)}%` : ''}</td>
+                                        <td className="py-2 text-right font-medium">{formatCurrency(slice.value)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </>
+                )}
+            </CardContent>
+        </Card>
+    );
+};
+
+const AnnualReport: React.FC = () => {
+    const { state, readJournal, journalRevision } = useFinancials();
+    const { convert, formatCurrency } = useCurrency();
+    const formatter = useFormatter();
+    const [journal, setJournal] = useState<JournalEntry[]>([]);
+    const years = useMemo(() => getReportYears(state), [state]);
+    const [year, setYear] = useState(() => new Date().getFullYear());
+
+    useEffect(() => {
+        let cancelled = false;
+        readJournal()
+            .then(entries => { if (!cancelled) setJournal(entries); })
+            .catch(error => console.error("Could not read the activity journal", error));
+        return () => { cancelled = true; };
+    }, [readJournal, journalRevision]);
+
+    const report = useMemo(() => buildAnnualReport(state, journal, year, convert, formatter), [state, journal, year, convert, formatter]);
+    const historyIsPartial = !report.historyStartsAt || report.historyStartsAt > new Date(year, 0, 1).toISOString();
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                <div>
+                    <h1 className="text-3xl font-bold text-text-primary">Year in Review {year}</h1>
+                    <p className="text-text-secondary mt-1">Calculated on this device from your records.</p>
+                </div>
+                <div className="flex items-center space-x-2 print:hidden">
+                    <select
+                        aria-label="Year"
+                        value={year}
+                        onChange={(e) => setYear(Number(e.target.value))}
+                        className="bg-primary text-sm font-medium text-text-primary p-2 rounded-lg border border-secondary focus:outline-none focus:ring-2 focus:ring-brand"
+                    >
+                        {years.map(y => <option key={y} value={y}>{y}</option>)}
+                    </select>
+                    <button onClick={() => window.print()} className="flex items-center space-x-2 px-4 py-2 bg-accent text-white font-semibold rounded-lg hover:bg-accent-hover transition-colors text-sm">
+                        <Icons.Print className="w-4 h-4" />
+                        <span>Print</span>
+                    </button>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-2 lg:grid-cols-5 gap-4">
+                <StatCard label="Total Income" value={formatCurrency(report.totalIncome)} tone="success" />
+                <StatCard label="Total Expenses" value={formatCurrency(report.totalExpenses)} tone="danger" />
+                <StatCard
+                    label="Savings Rate"
+                    value={report.savingsRate === null ? '–' : `${(report.savingsRate * 100).toFixed(1)}%`}
+                    detail={`${formatCurrency(report.netSavings)} saved`}
+                    tone={report.netSavings >= 0 ? 'success' : 'danger'}
+                />
+                <StatCard
+                    label="Net Worth Change"
+                    value={formatCurrency(report.netWorthChange)}
+                    detail={`${formatCurrency(report.netWorthStart)} → ${formatCurrency(report.netWorthEnd)}`}
+                    tone={report.netWorthChange >= 0 ? 'success' : 'danger'}
+                />
+                <StatCard label="Debt Paid Down" value={formatCurrency(report.debtPaidDown)} tone={report.debtPaidDown >= 0 ? 'success' : 'danger'} />
+            </div>
+
+            {historyIsPartial && (
+                <div className="p-4 bg-warning/10 rounded-lg flex items-start space-x-2 text-sm">
+                    <Icons.Warning className="w-4 h-4 mt-0.5 flex-shrink-0 text-warning" />
+                    <span>
+                        Net worth and debt figures are rebuilt from the activity log, which {report.historyStartsAt
+                            ? `starts on ${formatter.date(report.historyStartsAt)}`
+                            : 'is empty'}. Balance changes from before then are not included.
+                    </span>
+                </div>
+            )}
+
+            <Card className="break-inside-avoid">
+                <CardHeader><CardTitle>Month by Month</CardTitle></CardHeader>
+                <CardContent>
+                    <ResponsiveContainer width="100%" height={300}>
+                        <ComposedChart data={report.months} margin={{ top: 5, right: 20, left: 20, bottom: 5 }}>
+                            <CartesianGrid strokeDasharray="3 3" stroke="#e9ecef" />
+                            <XAxis dataKey="label" stroke="#6c757d" />
+                            <YAxis stroke="#6c757d" tickFormatter={formatter.axisMoney} />
+                            <Tooltip formatter={(value: number) => formatCurrency(value)} cursor={{fill: '#f1f3f5'}} contentStyle={tooltipStyle} />
+                            <Legend />
+                            <Bar dataKey="income" name="Income" fill="#198754" isAnimationActive={false} />
+                            <Bar dataKey="expenses" name="Expenses" fill="#dc3545" isAnimationActive={false} />
+                            <Line type="monotone" dataKey="net" name="Net" stroke="#0d6efd" strokeWidth={2} isAnimationActive={false} />
+                        </ComposedChart>
+                    </ResponsiveContainer>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mt-4">
+                        <div className="p-3 bg-success/10 rounded-lg">
+                            <p className="text-sm text-text-secondary">Best month</p>
+                            <p className="font-semibold">{report.bestMonth ? `${report.bestMonth.label}: ${formatCurrency(report.bestMonth.net)}` : 'No transactions this year'}</p>
+                        </div>
+                        <div className="p-3 bg-danger/10 rounded-lg">
+                            <p className="text-sm text-text-secondary">Worst month</p>
+                            <p className="font-semibold">{report.worstMonth ? `${report.worstMonth.label}: ${formatCurrency(report.worstMonth.net)}` : '–'}</p>
+                        </div>
+                    </div>
+                </CardContent>
+            </Card>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                <Breakdown title="Income by Source" slices={report.incomeBySource} total={report.totalIncome} emptyText="No income recorded this year." chart />
+                <Breakdown title="Expenses by Category" slices={report.expensesByCategory} total={report.totalExpenses} emptyText="No expenses recorded this year." chart />
+                <Breakdown title="Expenses by Mode" slices={report.expensesByMode} total={report.totalExpenses} emptyText="No expenses recorded this year." />
+            </div>
+        </div>
+    );
+};
+
+export default AnnualReport;
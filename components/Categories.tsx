@@ -0,0 +1,178 @@
+import React, { useMemo, useState } from 'react';
+import { useFinancials } from '../context/FinancialContext';
+import { Category } from '../types';
+import { categoryPath, sortCategories } from '../services/categories';
+import { Card, CardHeader, CardTitle, CardContent } from './ui/Card';
+import { Icons } from './ui/Icons';
+
+const inputClassName = 'w-full bg-background p-2 rounded-md focus:outline-none focus:ring-2 focus:ring-brand border border-secondary';
+const DEFAULT_COLOR = '#0d6efd';
+
+const Categories: React.FC = () => {
+    const { state, dispatch } = useFinancials();
+    const [name, setName] = useState('');
+    const [parentId, setParentId] = useState('');
+    const [color, setColor] = useState(DEFAULT_COLOR);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [editName, setEditName] = useState('');
+    const [editParentId, setEditParentId] = useState('');
+    const [mergeTargets, setMergeTargets] = useState<Record<string, string>>({});
+    // Colors being picked; saved once the picker loses focus so dragging through colors is a single change.
+    const [colorDrafts, setColorDrafts] = useState<Record<string, string>>({});
+
+    const categories = useMemo(() => sortCategories(state.categories), [state.categories]);
+    const usage = useMemo(() => {
+        const counts = new Map<string, number>();
+        [...state.expenses, ...state.recurringExpenses, ...state.purchases].forEach(r => counts.set(r.category, (counts.get(r.category) ?? 0) + 1));
+        return counts;
+    }, [state.expenses, state.recurringExpenses, state.purchases]);
+
+    // Only top-level categories can have subcategories.
+    const parentOptions = (excludeId?: string) => categories.filter(c => !c.parentId && !c.archived && c.id !== excludeId);
+    const hasChildren = (id: string) => state.categories.some(c => c.parentId === id);
+
+    const isNameTaken = (value: string, parent: string, excludeId?: string) => state.categories.some(c =>
+        c.id !== excludeId && (c.parentId ?? '') === parent && c.name.toLowerCase() === value.toLowerCase());
+
+    const handleAdd = (e: React.FormEvent) => {
+        e.preventDefault();
+        const trimmed = name.trim();
+        if (!trimmed) return;
+        if (isNameTaken(trimmed, parentId)) {
+            alert(`There already is a category named "${trimmed}" here.`);
+            return;
+        }
+        dispatch({ type: 'ADD_CATEGORY', payload: { id: `cat-${Date.now()}`, name: trimmed, color, ...(parentId ? { parentId } : {}) } });
+        setName('');
+    };
+
+    const startEditing = (category: Category) => {
+        setEditingId(category.id);
+        setEditName(category.name);
+        setEditParentId(category.parentId ?? '');
+    };
+
+    const handleRename = (category: Category) => {
+        const trimmed = editName.trim();
+        if (!trimmed) return;
+        if (isNameTaken(trimmed, editParentId, category.id)) {
+            alert(`There already is a category named "${trimmed}" here.`);
+            return;
+        }
+        const { parentId: _previousParent, ...rest } = category;
+        dispatch({ type: 'UPDATE_CATEGORY', payload: { ...rest, name: trimmed, ...(editParentId ? { parentId: editParentId } : {}) } });
+        setEditingId(null);
+    };
+
+    const handleColorBlur = (category: Category) => {
+        const draft = colorDrafts[category.id];
+        if (draft && draft !== category.color) {
+            dispatch({ type: 'UPDATE_CATEGORY', payload: { ...category, color: draft } });
+        }
+        setColorDrafts(prev => {
+            const { [category.id]: _saved, ...rest } = prev;
+            return rest;
+        });
+    };
+
+    const handleMerge = (category: Category) => {
+        const targetId = mergeTargets[category.id];
+        if (!targetId) return;
+        const message = `Merge "${categoryPath(state.categories, category.id)}" into "${categoryPath(state.categories, targetId)}"? `
+            + `Its ${usage.get(category.id) ?? 0} entries${hasChildren(category.id) ? ' and subcategories' : ''} move over and "${category.name}" is removed.`;
+        if (window.confirm(message)) {
+            dispatch({ type: 'MERGE_CATEGORIES', payload: { sourceId: category.id, targetId } });
+            setMergeTargets(prev => ({ ...prev, [category.id]: '' }));
+        }
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center">
+                    <Icons.Categories className="w-5 h-5 mr-2 text-brand" />
+                    Expense Categories
+                </CardTitle>
+                <p className="text-sm text-text-secondary mt-1">
+                    Used by expenses, recurring expenses and purchase ideas. Archived categories keep their entries but are no longer offered for new ones.
+                </p>
+            </CardHeader>
+            <CardContent className="space-y-6">
+                <form onSubmit={handleAdd} className="grid grid-cols-1 sm:grid-cols-4 gap-4 items-end">
+                    <div>
+                        <label htmlFor="category-name" className="block text-sm font-medium text-text-secondary mb-1">Name</label>
+                        <input id="category-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g., Restaurants" className={inputClassName} required />
+                    </div>
+                    <div>
+                        <label htmlFor="category-parent" className="block text-sm font-medium text-text-secondary mb-1">Part of</label>
+                        <select id="category-parent" value={parentId} onChange={(e) => setParentId(e.target.value)} className={inputClassName}>
+                            <option value="">None (top level)</option>
+                            {parentOptions().map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="category-color" className="block text-sm font-medium text-text-secondary mb-1">Color</label>
+                        <input id="category-color" type="color" value={color} onChange={(e) => setColor(e.target.value)} className="w-full h-10 bg-background p-1 rounded-md border border-secondary" />
+                    </div>
+                    <button type="submit" className="px-4 py-2 bg-accent text-white font-semibold rounded-lg hover:bg-accent-hover transition-colors">Add Category</button>
+                </form>
+
+                <div className="max-h-96 overflow-y-auto">
+                    {categories.map(c => (
+                        <div key={c.id} className={`py-2 border-t border-secondary first:border-t-0 flex flex-wrap items-center gap-2 text-sm ${c.parentId ? 'pl-6' : ''} ${c.archived ? 'opacity-60' : ''}`}>
+                            <input
+                                type="color"
+                                value={colorDrafts[c.id] ?? c.color}
+                                onChange={(e) => setColorDrafts(prev => ({ ...prev, [c.id]: e.target.value }))}
+                                onBlur={() => handleColorBlur(c)}
+                                title="Color"
+                                className="w-8 h-8 p-0.5 bg-background rounded border border-secondary"
+                            />
+                            {editingId === c.id ? (
+                                <div className="flex-1 flex flex-wrap items-center gap-2">
+                                    <input value={editName} onChange={(e) => setEditName(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && handleRename(c)} aria-label="Category name" className={`${inputClassName} flex-1 min-w-[8rem]`} autoFocus />
+                                    <select value={editParentId} onChange={(e) => setEditParentId(e.target.value)} disabled={hasChildren(c.id)} aria-label="Part of" className={`${inputClassName} w-auto`}>
+                                        <option value="">None (top level)</option>
+                                        {parentOptions(c.id).map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                                    </select>
+                                    <button onClick={() => handleRename(c)} className="px-3 py-1 text-sm bg-accent text-white rounded-md hover:bg-accent-hover">Save</button>
+                                    <button onClick={() => setEditingId(null)} className="px-3 py-1 text-sm bg-secondary rounded-md hover:bg-opacity-80">Cancel</button>
+                                </div>
+                            ) : (
+                                <>
+                                    <span className="flex-1 font-medium text-text-primary">
+                                        {c.name}
+                                        {c.archived && <span className="ml-2 text-xs font-semibold px-2 py-0.5 rounded-full bg-secondary text-text-secondary">Archived</span>}
+                                    </span>
+                                    <span className="text-text-secondary">{usage.get(c.id) ?? 0} entries</span>
+                                    <button onClick={() => startEditing(c)} title="Rename" className="p-1 text-text-secondary hover:text-brand">
+                                        <Icons.Edit className="w-4 h-4" />
+                                    </button>
+                                    <button onClick={() => dispatch({ type: 'UPDATE_CATEGORY', payload: { ...c, archived: !c.archived } })} className="px-2 py-1 text-xs font-semibold text-text-secondary hover:text-brand">
+                                        {c.archived ? 'Restore' : 'Archive'}
+                                    </button>
+                                    <select
+                                        value={mergeTargets[c.id] ?? ''}
+                                        onChange={(e) => setMergeTargets(prev => ({ ...prev, [c.id]: e.target.value }))}
+                                        aria-label={`Merge ${c.name} into`}
+                                        className="bg-background p-1 rounded-md border border-secondary text-xs"
+                                    >
+                                        <option value="">Merge into…</option>
+                                        {categories.filter(t => t.id !== c.id && t.parentId !== c.id).map(t => (
+                                            <option key={t.id} value={t.id}>{categoryPath(state.categories, t.id)}</option>
+                                        ))}
+                                    </select>
+                                    <button onClick={() => handleMerge(c)} disabled={!mergeTargets[c.id]} className="px-2 py-1 text-xs font-semibold text-text-secondary hover:text-danger disabled:opacity-40">
+                                        Merge
+                                    </button>
+                                </>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            </CardContent>
+        </Card>
+    );
+};
+
+export default Categories;
@@ -1,21 +1,26 @@
 import React, { useMemo, useState, useCallback } from 'react';
 import { useFinancials } from '../context/FinancialContext';
+import { useSettings } from '../context/SettingsContext';
+import { usePeriod } from '../context/PeriodContext';
+import { useCurrency } from '../hooks/useCurrency';
+import { currencySymbol, getMissingRates } from '../services/currency';
+import { isInPeriod } from '../services/periods';
+import { subtractMoney, sumMoney, toMajor, toMinor } from '../services/money';
 import { Card, CardHeader, CardTitle, CardContent } from './ui/Card';
 import { Icons } from './ui/Icons';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, PieChart, Pie, Cell, Sector } from 'recharts';
 import { getFinancialInsights, getFinancialRundown } from '../services/geminiService';
 import { PurchaseStatus } from '../types';
 
-const formatCurrency = (value: number) => `€${value.toLocaleString('de-DE', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
-
 const NetWorthTracker: React.FC = () => {
     const { state } = useFinancials();
+    const { convert, formatCurrency } = useCurrency();
     const { totalAssets, totalDebts, netWorth } = useMemo(() => {
-        const totalAssets = state.investmentBaskets.flatMap(b => b.assets).reduce((sum, asset) => sum + asset.currentValue, 0);
-        const totalDebts = state.debts.reduce((sum, debt) => sum + debt.currentBalance, 0);
-        const netWorth = totalAssets - totalDebts;
+        const totalAssets = sumMoney(state.investmentBaskets.flatMap(b => b.assets), asset => convert(asset.currentValue, asset.currency));
+        const totalDebts = sumMoney(state.debts, debt => convert(debt.currentBalance, debt.currency));
+        const netWorth = subtractMoney(totalAssets, totalDebts);
         return { totalAssets, totalDebts, netWorth };
-    }, [state.investmentBaskets, state.debts]);
+    }, [state.investmentBaskets, state.debts, convert]);
 
     return (
         <Card>
@@ -41,18 +46,19 @@ const NetWorthTracker: React.FC = () => {
 
 const GoalProgress: React.FC = () => {
     const { state } = useFinancials();
-    const goal = 1000000;
+    const { baseCurrency, convert, formatCurrency } = useCurrency();
+    const goal = toMinor(1000000);
     const netWorth = useMemo(() => {
-        const totalAssets = state.investmentBaskets.flatMap(b => b.assets).reduce((sum, asset) => sum + asset.currentValue, 0);
-        const totalDebts = state.debts.reduce((sum, debt) => sum + debt.currentBalance, 0);
-        return totalAssets - totalDebts;
-    }, [state.investmentBaskets, state.debts]);
+        const totalAssets = sumMoney(state.investmentBaskets.flatMap(b => b.assets), asset => convert(asset.currentValue, asset.currency));
+        const totalDebts = sumMoney(state.debts, debt => convert(debt.currentBalance, debt.currency));
+        return subtractMoney(totalAssets, totalDebts);
+    }, [state.investmentBaskets, state.debts, convert]);
     const progress = Math.max(0, (netWorth / goal) * 100);
 
     return (
         <Card>
             <CardHeader className="flex justify-between items-center">
-                <CardTitle>€1M Goal</CardTitle>
+                <CardTitle>{currencySymbol(baseCurrency)}1M Goal</CardTitle>
                 <Icons.Goal className="w-6 h-6 text-brand"/>
             </CardHeader>
             <CardContent>
@@ -70,30 +76,28 @@ const GoalProgress: React.FC = () => {
 
 const MonthlySummary: React.FC = () => {
     const { state } = useFinancials();
+    const { convert, formatCurrency } = useCurrency();
+    const { period, periodLabel } = usePeriod();
 
     const { income, expenses, netFlow } = useMemo(() => {
-        // Using a fixed month to ensure visibility with mock data.
-        // In a live app, this would be the current month:
-        // const now = new Date();
-        // const currentMonthKey = `${now.getFullYear()}-${(now.getMonth() + 1).toString().padStart(2, '0')}`;
-        const currentMonthKey = '2025-11'; 
-
-        const income = state.income
-            .filter(i => i.date.startsWith(currentMonthKey))
-            .reduce((sum, i) => sum + i.amount, 0);
-
-        const expenses = state.expenses
-            .filter(e => e.date.startsWith(currentMonthKey))
-            .reduce((sum, e) => sum + e.amount, 0);
+        const income = sumMoney(
+            state.income.filter(i => isInPeriod(i.date, period)),
+            i => convert(i.amount, i.currency, i.date)
+        );
+
+        const expenses = sumMoney(
+            state.expenses.filter(e => isInPeriod(e.date, period)),
+            e => convert(e.amount, e.currency, e.date)
+        );
         
-        const netFlow = income - expenses;
+        const netFlow = subtractMoney(income, expenses);
         return { income, expenses, netFlow };
-    }, [state.income, state.expenses]);
+    }, [state.income, state.expenses, period, convert]);
 
     return (
         <Card>
             <CardHeader>
-                <CardTitle>This Month's Balance (Nov 2025)</CardTitle>
+                <CardTitle>Balance for {periodLabel}</CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
                  <div className="flex justify-between items-center">
@@ -124,17 +128,18 @@ const MonthlySummary: React.FC = () => {
 
 const PlannedPurchases: React.FC = () => {
     const { state } = useFinancials();
+    const { convert, formatCurrency } = useCurrency();
+    const { period, periodLabel } = usePeriod();
 
     const { plannedPurchases, totalPlannedCost, currentNetFlow, projectedNetFlow } = useMemo(() => {
         const planned = state.purchases.filter(p => p.status === PurchaseStatus.Considering);
-        const totalCost = planned.reduce((sum, p) => sum + p.cost, 0);
+        const totalCost = sumMoney(planned, p => p.cost);
 
-        const currentMonthKey = '2025-11'; // Using fixed month for consistency with mock data
-        const income = state.income.filter(i => i.date.startsWith(currentMonthKey)).reduce((sum, i) => sum + i.amount, 0);
-        const expenses = state.expenses.filter(e => e.date.startsWith(currentMonthKey)).reduce((sum, e) => sum + e.amount, 0);
-        const netFlow = income - expenses;
+        const income = sumMoney(state.income.filter(i => isInPeriod(i.date, period)), i => convert(i.amount, i.currency, i.date));
+        const expenses = sumMoney(state.expenses.filter(e => isInPeriod(e.date, period)), e => convert(e.amount, e.currency, e.date));
+        const netFlow = subtractMoney(income, expenses);
 
-        const projectedFlow = netFlow - totalCost;
+        const projectedFlow = subtractMoney(netFlow, totalCost);
 
         return {
             plannedPurchases: planned,
@@ -142,7 +147,7 @@ const PlannedPurchases: React.FC = () => {
             currentNetFlow: netFlow,
             projectedNetFlow: projectedFlow,
         };
-    }, [state.purchases, state.income, state.expenses]);
+    }, [state.purchases, state.income, state.expenses, period, convert]);
 
     if (plannedPurchases.length === 0) {
         return null;
@@ -157,7 +162,7 @@ const PlannedPurchases: React.FC = () => {
                 <div className="space-y-4">
                     <div className="space-y-2 p-3 bg-primary/50 rounded-lg">
                         <div className="flex justify-between items-center text-sm">
-                            <span className="text-text-secondary">Current Month Net Flow</span>
+                            <span className="text-text-secondary">Net Flow for {periodLabel}</span>
                             <span className="font-semibold">{formatCurrency(currentNetFlow)}</span>
                         </div>
                         <div className="flex justify-between items-center text-sm">
@@ -190,6 +195,8 @@ const PlannedPurchases: React.FC = () => {
 
 const InsightsEngine: React.FC = () => {
     const { state } = useFinancials();
+    const { baseCurrency, convert } = useCurrency();
+    const { period, periodLabel } = usePeriod();
     const [insight, setInsight] = useState('');
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState('');
@@ -200,11 +207,13 @@ const InsightsEngine: React.FC = () => {
         setInsight('');
         try {
             const allAssets = state.investmentBaskets.flatMap(b => b.assets);
+            const expenses = state.expenses.filter(e => isInPeriod(e.date, period));
+            const income = state.income.filter(i => isInPeriod(i.date, period));
             const financialSummary = `
-                Expenses: ${state.expenses.length} transactions this month.
-                Debts: ${state.debts.length} active debts, total balance ${state.debts.reduce((s, d) => s + d.currentBalance, 0)} EUR.
-                Income: ${state.income.length} sources this month.
-                Assets: ${allAssets.length} assets, total value ${allAssets.reduce((s, a) => s + a.currentValue, 0)} EUR.
+                Expenses: ${expenses.length} transactions in ${periodLabel}, total ${toMajor(sumMoney(expenses, e => convert(e.amount, e.currency, e.date))).toFixed(2)} ${baseCurrency}.
+                Debts: ${state.debts.length} active debts, total balance ${toMajor(sumMoney(state.debts, d => convert(d.currentBalance, d.currency))).toFixed(2)} ${baseCurrency}.
+                Income: ${income.length} payments in ${periodLabel}, total ${toMajor(sumMoney(income, i => convert(i.amount, i.currency, i.date))).toFixed(2)} ${baseCurrency}.
+                Assets: ${allAssets.length} assets, total value ${toMajor(sumMoney(allAssets, a => convert(a.currentValue, a.currency))).toFixed(2)} ${baseCurrency}.
             `;
             const result = await getFinancialInsights(financialSummary);
             if (result.toLowerCase().includes("error") || result.toLowerCase().includes("api key")) {
@@ -217,7 +226,7 @@ const InsightsEngine: React.FC = () => {
             console.error(err);
         }
         setIsLoading(false);
-    }, [state]);
+    }, [state, period, periodLabel, baseCurrency, convert]);
 
     return (
         <Card>
@@ -265,6 +274,7 @@ const FormattedResponse: React.FC<{ content: string }> = ({ content }) => {
 
 const RundownEngine: React.FC = () => {
     const { state } = useFinancials();
+    const { baseCurrency } = useCurrency();
     const [months, setMonths] = useState<number>(24);
     const [forecast, setForecast] = useState<string>('');
     const [isLoading, setIsLoading] = useState<boolean>(false);
@@ -275,7 +285,7 @@ const RundownEngine: React.FC = () => {
         setError('');
         setForecast('');
         try {
-            const result = await getFinancialRundown(state, months);
+            const result = await getFinancialRundown(state, months, baseCurrency);
             if(result.toLowerCase().includes("error") || result.toLowerCase().includes("api key")) {
                 setError(result);
             } else {
@@ -287,7 +297,7 @@ const RundownEngine: React.FC = () => {
         } finally {
             setIsLoading(false);
         }
-    }, [state, months]);
+    }, [state, months, baseCurrency]);
 
     return (
         <Card>
@@ -356,9 +366,21 @@ const RundownEngine: React.FC = () => {
 
 
 const Dashboard: React.FC = () => {
+  const { settings } = useSettings();
+  const { state } = useFinancials();
+  const missingRates = useMemo(() => getMissingRates(state, settings.baseCurrency), [state, settings.baseCurrency]);
   return (
     <div className="space-y-6">
-      <h1 className="text-3xl font-bold text-text-primary">Good morning, Sam</h1>
+      <h1 className="text-3xl font-bold text-text-primary">Good morning{settings.displayName ? `, ${settings.displayName}` : ''}</h1>
+      {missingRates.length > 0 && (
+        <div className="p-4 bg-warning/10 rounded-lg flex items-start space-x-2 text-sm">
+          <Icons.Warning className="w-4 h-4 mt-0.5 flex-shrink-0 text-warning" />
+          <span>
+            There is no exchange rate from {missingRates.join(', ')} to {settings.baseCurrency}, so those amounts are counted one to one.
+            Add the rates in Settings.
+          </span>
+        </div>
+      )}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         <div className="lg:col-span-2"><NetWorthTracker /></div>
         <GoalProgress />
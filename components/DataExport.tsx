@@ -0,0 +1,122 @@
+import React, { useMemo, useState } from 'react';
+import { useFinancials } from '../context/FinancialContext';
+import { EXPORT_COLLECTIONS, EXPORT_DEFINITIONS, ExportCollection, ExportFilters, buildExportSheet, sheetToCsv } from '../services/tabularExport';
+import { createWorkbook, createZip } from '../services/xlsx';
+import { downloadFile } from '../services/download';
+import { Card, CardHeader, CardTitle, CardContent } from './ui/Card';
+import { Icons } from './ui/Icons';
+
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const DataExport: React.FC = () => {
+    const { state } = useFinancials();
+    const [selected, setSelected] = useState<ExportCollection[]>(EXPORT_COLLECTIONS);
+    const [filters, setFilters] = useState<ExportFilters>({ from: '', to: '', categories: {} });
+
+    const sheets = useMemo(
+        () => selected.map(collection => ({ collection, sheet: buildExportSheet(state, collection, filters) })),
+        [state, selected, filters],
+    );
+
+    const toggleCollection = (collection: ExportCollection) => {
+        setSelected(prev => prev.includes(collection)
+            ? prev.filter(c => c !== collection)
+            : EXPORT_COLLECTIONS.filter(c => c === collection || prev.includes(c)));
+    };
+
+    const toggleCategory = (collection: ExportCollection, category: string) => {
+        setFilters(prev => {
+            const current = prev.categories[collection] ?? [];
+            const next = current.includes(category) ? current.filter(c => c !== category) : [...current, category];
+            return { ...prev, categories: { ...prev.categories, [collection]: next } };
+        });
+    };
+
+    const handleCsvExport = () => {
+        const files = sheets.map(({ collection, sheet }) => ({
+            path: `wavefinances_${collection}.csv`,
+            // The byte order mark makes Excel read the file as UTF-8 (for "€" and umlauts).
+            content: '\uFEFF' + sheetToCsv(sheet),
+        }));
+        if (files.length === 1) {
+            downloadFile(files[0].content, files[0].path, 'text/csv;charset=utf-8');
+        } else {
+            // Browsers block or ask about several downloads at once, so several files come as one archive.
+            downloadFile(createZip(files), 'wavefinances_export.zip', 'application/zip');
+        }
+    };
+
+    const handleXlsxExport = () => {
+        downloadFile(createWorkbook(sheets.map(s => s.sheet)), 'wavefinances_export.xlsx', XLSX_MIME_TYPE);
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center">
+                    <Icons.CSV className="w-5 h-5 mr-2" />
+                    Export for Spreadsheets
+                </CardTitle>
+                <p className="text-sm text-text-secondary mt-1">
+                    Download your records as CSV files or as one Excel workbook with a sheet per collection, e.g. for your accountant.
+                </p>
+            </CardHeader>
+            <CardContent className="space-y-5">
+                <div className="flex flex-wrap gap-x-6 gap-y-2">
+                    {EXPORT_COLLECTIONS.map(collection => (
+                        <label key={collection} className="flex items-center space-x-2 text-sm font-medium text-text-secondary cursor-pointer">
+                            <input type="checkbox" checked={selected.includes(collection)} onChange={() => toggleCollection(collection)} />
+                            <span>{EXPORT_DEFINITIONS[collection].label}</span>
+                        </label>
+                    ))}
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div>
+                        <label htmlFor="export-from" className="block text-sm font-medium text-text-secondary mb-1">From</label>
+                        <input id="export-from" type="date" value={filters.from} onChange={(e) => setFilters(prev => ({ ...prev, from: e.target.value }))} className="w-full bg-surface p-2 rounded-md focus:outline-none focus:ring-2 focus:ring-brand border border-secondary" />
+                    </div>
+                    <div>
+                        <label htmlFor="export-to" className="block text-sm font-medium text-text-secondary mb-1">To</label>
+                        <input id="export-to" type="date" value={filters.to} onChange={(e) => setFilters(prev => ({ ...prev, to: e.target.value }))} className="w-full bg-surface p-2 rounded-md focus:outline-none focus:ring-2 focus:ring-brand border border-secondary" />
+                    </div>
+                </div>
+
+                {selected.filter(collection => EXPORT_DEFINITIONS[collection].categories).map(collection => {
+                    const chosen = filters.categories[collection] ?? [];
+                    return (
+                        <div key={collection}>
+                            <p className="text-sm font-medium text-text-secondary mb-1">
+                                {EXPORT_DEFINITIONS[collection].label}: {chosen.length === 0 ? 'all categories' : `${chosen.length} selected`}
+                            </p>
+                            <div className="flex flex-wrap gap-2">
+                                {EXPORT_DEFINITIONS[collection].categories!(state).map(category => (
+                                    <button
+                                        key={category}
+                                        onClick={() => toggleCategory(collection, category)}
+                                        className={`px-3 py-1 text-xs font-semibold rounded-full border ${chosen.includes(category) ? 'bg-accent text-white border-accent' : 'bg-primary text-text-secondary border-secondary'}`}
+                                    >
+                                        {category}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    );
+                })}
+
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 pt-2">
+                    <p className="text-sm text-text-secondary">
+                        {sheets.map(({ collection, sheet }) => `${EXPORT_DEFINITIONS[collection].label}: ${sheet.rows.length - 1}`).join(' · ') || 'Select at least one collection.'}
+                        {selected.includes('debts') && (filters.from || filters.to) && ' (debts have no date and are always exported in full)'}
+                    </p>
+                    <div className="flex space-x-3 flex-shrink-0">
+                        <button onClick={handleCsvExport} disabled={sheets.length === 0} className="px-4 py-2 bg-primary rounded-lg hover:bg-secondary/80 font-semibold transition-colors disabled:text-text-secondary">{sheets.length > 1 ? 'Download CSV (.zip)' : 'Download CSV'}</button>
+                        <button onClick={handleXlsxExport} disabled={sheets.length === 0} className="px-4 py-2 bg-accent rounded-lg hover:bg-accent-hover text-white font-semibold transition-colors disabled:bg-primary disabled:text-text-secondary">Download Excel (.xlsx)</button>
+                    </div>
+                </div>
+            </CardContent>
+        </Card>
+    );
+};
+
+export default DataExport;
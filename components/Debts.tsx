@@ -3,8 +3,10 @@ import { useFinancials } from '../context/FinancialContext';
 import { Debt } from '../types';
 import { Card, CardHeader, CardTitle, CardContent } from './ui/Card';
 import { Icons } from './ui/Icons';
-
-const formatCurrency = (value: number) => `€${value.toLocaleString('de-DE', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+import { CurrencySelect } from './ui/CurrencySelect';
+import { useCurrency } from '../hooks/useCurrency';
+import { useFormatter } from '../hooks/useFormatter';
+import { sumMoney } from '../services/money';
 
 const ActionMenu: React.FC<{ debt: Debt, onEdit: (debt: Debt) => void, onDelete: (id: string) => void }> = ({ debt, onEdit, onDelete }) => {
     const [isOpen, setIsOpen] = useState(false);
@@ -55,24 +57,34 @@ interface DebtFormProps {
 }
 
 const DebtForm: React.FC<DebtFormProps> = ({ onSave, onUpdate, onCancel, initialData }) => {
+    const { baseCurrency } = useCurrency();
+    const formatter = useFormatter();
     const isEditMode = !!initialData;
     const [name, setName] = useState(initialData?.name || '');
-    const [originalAmount, setOriginalAmount] = useState(initialData?.originalAmount.toString() || '');
-    const [currentBalance, setCurrentBalance] = useState(initialData?.currentBalance.toString() || '');
-    const [interestRate, setInterestRate] = useState(initialData?.interestRate.toString() || '');
-    const [minimumPayment, setMinimumPayment] = useState(initialData?.minimumPayment.toString() || '');
+    const [originalAmount, setOriginalAmount] = useState(initialData ? formatter.moneyInput(initialData.originalAmount) : '');
+    const [currentBalance, setCurrentBalance] = useState(initialData ? formatter.moneyInput(initialData.currentBalance) : '');
+    const [interestRate, setInterestRate] = useState(initialData ? formatter.number(initialData.interestRate, 4) : '');
+    const [minimumPayment, setMinimumPayment] = useState(initialData ? formatter.moneyInput(initialData.minimumPayment) : '');
+    const [currency, setCurrency] = useState(initialData?.currency || baseCurrency);
 
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
-        const debtData: Omit<Debt, 'id'> = {
-            name,
-            originalAmount: parseFloat(originalAmount),
-            currentBalance: parseFloat(currentBalance),
-            interestRate: parseFloat(interestRate),
-            minimumPayment: parseFloat(minimumPayment),
+        const parsed = {
+            originalAmount: formatter.parseMoney(originalAmount),
+            currentBalance: formatter.parseMoney(currentBalance),
+            minimumPayment: formatter.parseMoney(minimumPayment),
         };
+        const rate = formatter.parseNumber(interestRate);
         
-        if (name && !isNaN(debtData.originalAmount) && !isNaN(debtData.currentBalance) && !isNaN(debtData.interestRate) && !isNaN(debtData.minimumPayment)) {
+        if (name && parsed.originalAmount !== null && parsed.currentBalance !== null && rate !== null && parsed.minimumPayment !== null) {
+            const debtData: Omit<Debt, 'id'> = {
+                name,
+                originalAmount: parsed.originalAmount,
+                currentBalance: parsed.currentBalance,
+                interestRate: rate,
+                minimumPayment: parsed.minimumPayment,
+                currency,
+            };
             if (isEditMode && onUpdate && initialData) {
                 onUpdate({ ...debtData, id: initialData.id });
             } else if (!isEditMode && onSave) {
@@ -104,10 +116,11 @@ const DebtForm: React.FC<DebtFormProps> = ({ onSave, onUpdate, onCancel, initial
                     </div>
                     <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                         <div className="space-y-2">
-                            <label htmlFor="original-amount" className="text-sm font-medium text-text-secondary">Original Amount (€)</label>
+                            <label htmlFor="original-amount" className="text-sm font-medium text-text-secondary">Original Amount ({currency})</label>
                             <input
                                 id="original-amount"
-                                type="number"
+                                type="text"
+                                inputMode="decimal"
                                 placeholder="5000"
                                 value={originalAmount}
                                 onChange={(e) => setOriginalAmount(e.target.value)}
@@ -116,10 +129,11 @@ const DebtForm: React.FC<DebtFormProps> = ({ onSave, onUpdate, onCancel, initial
                             />
                         </div>
                         <div className="space-y-2">
-                             <label htmlFor="current-balance" className="text-sm font-medium text-text-secondary">Current Balance (€)</label>
+                             <label htmlFor="current-balance" className="text-sm font-medium text-text-secondary">Current Balance ({currency})</label>
                             <input
                                 id="current-balance"
-                                type="number"
+                                type="text"
+                                inputMode="decimal"
                                 placeholder="4800"
                                 value={currentBalance}
                                 onChange={(e) => setCurrentBalance(e.target.value)}
@@ -131,8 +145,8 @@ const DebtForm: React.FC<DebtFormProps> = ({ onSave, onUpdate, onCancel, initial
                              <label htmlFor="interest-rate" className="text-sm font-medium text-text-secondary">Interest Rate (%)</label>
                             <input
                                 id="interest-rate"
-                                type="number"
-                                step="0.01"
+                                type="text"
+                                inputMode="decimal"
                                 placeholder="5.5"
                                 value={interestRate}
                                 onChange={(e) => setInterestRate(e.target.value)}
@@ -141,10 +155,11 @@ const DebtForm: React.FC<DebtFormProps> = ({ onSave, onUpdate, onCancel, initial
                             />
                         </div>
                         <div className="space-y-2">
-                             <label htmlFor="min-payment" className="text-sm font-medium text-text-secondary">Minimum Payment (€)</label>
+                             <label htmlFor="min-payment" className="text-sm font-medium text-text-secondary">Minimum Payment ({currency})</label>
                             <input
                                 id="min-payment"
-                                type="number"
+                                type="text"
+                                inputMode="decimal"
                                 placeholder="100"
                                 value={minimumPayment}
                                 onChange={(e) => setMinimumPayment(e.target.value)}
@@ -152,6 +167,10 @@ const DebtForm: React.FC<DebtFormProps> = ({ onSave, onUpdate, onCancel, initial
                                 required
                             />
                         </div>
+                        <div className="space-y-2">
+                             <label htmlFor="debt-currency" className="text-sm font-medium text-text-secondary">Currency</label>
+                            <CurrencySelect id="debt-currency" value={currency} onChange={setCurrency} className="w-full bg-background p-2 rounded-md focus:outline-none focus:ring-2 focus:ring-brand border border-secondary" />
+                        </div>
                     </div>
                     <div className="flex justify-end space-x-3 pt-2">
                         <button type="button" onClick={onCancel} className="px-4 py-2 bg-primary rounded-lg hover:bg-secondary/80 transition-colors">Cancel</button>
@@ -168,18 +187,19 @@ const DebtDashboard: React.FC = () => {
     const { state, dispatch } = useFinancials();
     const [isAdding, setIsAdding] = useState(false);
     const [editingDebt, setEditingDebt] = useState<Debt | null>(null);
+    const { convert, formatCurrency } = useCurrency();
     
     const { totalDebt, overallProgress, totalMinimumPayments } = useMemo(() => {
-        const originalTotal = state.debts.reduce((sum, d) => sum + d.originalAmount, 0);
-        const currentTotal = state.debts.reduce((sum, d) => sum + d.currentBalance, 0);
-        const totalMinPays = state.debts.reduce((sum, d) => sum + d.minimumPayment, 0);
+        const originalTotal = sumMoney(state.debts, d => convert(d.originalAmount, d.currency));
+        const currentTotal = sumMoney(state.debts, d => convert(d.currentBalance, d.currency));
+        const totalMinPays = sumMoney(state.debts, d => convert(d.minimumPayment, d.currency));
 
         return {
             totalDebt: currentTotal,
             overallProgress: originalTotal > 0 ? (1 - currentTotal / originalTotal) * 100 : 0,
             totalMinimumPayments: totalMinPays
         };
-    }, [state.debts]);
+    }, [state.debts, convert]);
 
      const handleSaveDebt = (newDebtData: Omit<Debt, 'id'>) => {
         const debtToAdd: Debt = { id: `d-${Date.now()}`, ...newDebtData };
@@ -258,8 +278,8 @@ const DebtDashboard: React.FC = () => {
                                 <CardContent>
                                     <div className="mb-4">
                                         <div className="flex justify-between text-text-primary font-semibold mb-1">
-                                            <span>{formatCurrency(debt.currentBalance)}</span>
-                                            <span className="text-text-secondary">of {formatCurrency(debt.originalAmount)}</span>
+                                            <span>{formatCurrency(debt.currentBalance, debt.currency)}</span>
+                                            <span className="text-text-secondary">of {formatCurrency(debt.originalAmount, debt.currency)}</span>
                                         </div>
                                         <div className="w-full bg-primary rounded-full h-3">
                                             <div className="bg-brand h-3 rounded-full" style={{ width: `${progress}%` }}></div>
@@ -267,7 +287,7 @@ const DebtDashboard: React.FC = () => {
                                         <div className="text-right text-sm text-brand font-bold mt-1">{progress.toFixed(1)}% Paid Off</div>
                                     </div>
                                     <div className="text-sm text-text-secondary">
-                                        Minimum Payment: <span className="font-semibold text-text-primary">{formatCurrency(debt.minimumPayment)}</span>
+                                        Minimum Payment: <span className="font-semibold text-text-primary">{formatCurrency(debt.minimumPayment, debt.currency)}</span>
                                     </div>
                                 </CardContent>
                             </Card>
@@ -0,0 +1,101 @@
+import React, { useMemo, useState } from 'react';
+import { useFinancials } from '../context/FinancialContext';
+import { useSettings } from '../context/SettingsContext';
+import { getMissingRates, isCurrencyCode } from '../services/currency';
+import { toDateKey } from '../services/periods';
+import { useFormatter } from '../hooks/useFormatter';
+import { Card, CardHeader, CardTitle, CardContent } from './ui/Card';
+import { Icons } from './ui/Icons';
+import { CurrencySelect } from './ui/CurrencySelect';
+
+const inputClassName = 'w-full bg-background p-2 rounded-md focus:outline-none focus:ring-2 focus:ring-brand border border-secondary';
+
+const ExchangeRates: React.FC = () => {
+    const { state, dispatch } = useFinancials();
+    const { settings, updateSettings } = useSettings();
+    const formatter = useFormatter();
+    const [date, setDate] = useState(() => toDateKey(new Date()));
+    const [from, setFrom] = useState('');
+    const [rate, setRate] = useState('');
+
+    const missingRates = useMemo(() => getMissingRates(state, settings.baseCurrency), [state, settings.baseCurrency]);
+    const rates = useMemo(() => state.exchangeRates.slice().sort((a, b) => b.date.localeCompare(a.date) || a.from.localeCompare(b.from)), [state.exchangeRates]);
+
+    const handleAdd = (e: React.FormEvent) => {
+        e.preventDefault();
+        const code = from.trim().toUpperCase();
+        const value = formatter.parseNumber(rate);
+        if (!isCurrencyCode(code) || code === settings.baseCurrency) {
+            alert('Please enter a three-letter currency code other than the base currency, e.g. USD.');
+            return;
+        }
+        if (!date || value === null || value <= 0) {
+            alert('Please fill in a date and a rate above zero.');
+            return;
+        }
+        dispatch({ type: 'ADD_EXCHANGE_RATE', payload: { id: `fx-${Date.now()}`, date, from: code, to: settings.baseCurrency, rate: value } });
+        setFrom('');
+        setRate('');
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center">
+                    <Icons.Currency className="w-5 h-5 mr-2 text-brand" />
+                    Currencies
+                </CardTitle>
+                <p className="text-sm text-text-secondary mt-1">
+                    Every entry keeps the currency it was made in. Totals, charts and goals are shown in the base currency, converted with the latest rate on or before each entry's date.
+                </p>
+            </CardHeader>
+            <CardContent className="space-y-6">
+                <div className="sm:w-1/2">
+                    <label htmlFor="base-currency" className="block text-sm font-medium text-text-secondary mb-1">Base currency</label>
+                    <CurrencySelect id="base-currency" value={settings.baseCurrency} onChange={(baseCurrency) => updateSettings({ baseCurrency })} className={inputClassName} />
+                </div>
+
+                {missingRates.length > 0 && (
+                    <div className="p-4 bg-warning/10 rounded-lg flex items-start space-x-2 text-sm">
+                        <Icons.Warning className="w-4 h-4 mt-0.5 flex-shrink-0 text-warning" />
+                        <span>No rate to {settings.baseCurrency} for {missingRates.join(', ')}. Until you add one, these amounts are counted one to one.</span>
+                    </div>
+                )}
+
+                <form onSubmit={handleAdd} className="grid grid-cols-1 sm:grid-cols-4 gap-4 items-end">
+                    <div>
+                        <label htmlFor="rate-date" className="block text-sm font-medium text-text-secondary mb-1">Valid from</label>
+                        <input id="rate-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} className={inputClassName} required />
+                    </div>
+                    <div>
+                        <label htmlFor="rate-from" className="block text-sm font-medium text-text-secondary mb-1">Currency</label>
+                        <input id="rate-from" value={from} onChange={(e) => setFrom(e.target.value)} placeholder={missingRates[0] ?? 'USD'} maxLength={3} className={`${inputClassName} uppercase`} required />
+                    </div>
+                    <div>
+                        <label htmlFor="rate-value" className="block text-sm font-medium text-text-secondary mb-1">1 {from.trim().toUpperCase() || 'unit'} = ? {settings.baseCurrency}</label>
+                        <input id="rate-value" type="text" inputMode="decimal" value={rate} onChange={(e) => setRate(e.target.value)} className={inputClassName} required />
+                    </div>
+                    <button type="submit" className="px-4 py-2 bg-accent text-white font-semibold rounded-lg hover:bg-accent-hover transition-colors">Add Rate</button>
+                </form>
+
+                {rates.length === 0 ? (
+                    <p className="text-sm text-text-secondary">No exchange rates yet.</p>
+                ) : (
+                    <div className="max-h-72 overflow-y-auto">
+                        {rates.map(r => (
+                            <div key={r.id} className="py-2 border-t border-secondary first:border-t-0 flex items-center justify-between gap-2 text-sm">
+                                <span className="text-text-secondary w-28">{formatter.date(r.date)}</span>
+                                <span className="flex-1 font-medium text-text-primary">1 {r.from} = {formatter.number(r.rate, 6)} {r.to}</span>
+                                <button onClick={() => dispatch({ type: 'DELETE_EXCHANGE_RATE', payload: { id: r.id } })} title="Delete rate" className="p-1 text-text-secondary hover:text-danger">
+                                    <Icons.Trash className="w-4 h-4" />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+};
+
+export default ExchangeRates;
@@ -1,25 +1,20 @@
 import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { useFinancials } from '../context/FinancialContext';
-import { Expense, ExpenseCategory, ExpenseMode, RecurringExpense, ExpensePlanMode } from '../types';
+import { usePeriod } from '../context/PeriodContext';
+import { useSettings } from '../context/SettingsContext';
+import { useCurrency } from '../hooks/useCurrency';
+import { currentMonthKey, isInPeriod } from '../services/periods';
+import { useFormatter } from '../hooks/useFormatter';
+import { subtractMoney, sumMoney } from '../services/money';
+import { amountInMonth, describeRecurrence, isMonthlyOrLonger, isPaused, isRunning, plannedForMonth, RECURRENCE_OPTIONS } from '../services/recurrence';
+import { Expense, ExpenseMode, Money, RecurringExpense, ExpensePlanMode, RecurrenceFrequency, RecurrencePause } from '../types';
 import { Card, CardHeader, CardTitle, CardContent } from './ui/Card';
 import { Icons } from './ui/Icons';
+import { CurrencySelect } from './ui/CurrencySelect';
+import { CategorySelect } from './ui/CategorySelect';
+import { categoryPath, defaultCategoryId } from '../services/categories';
 import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
 
-const formatCurrency = (value: number) => `€${value.toLocaleString('de-DE', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
-
-const generateMonths = (startDate: Date, count: number) => {
-    const months = [];
-    let currentDate = new Date(startDate.getFullYear(), startDate.getMonth(), 1);
-    for (let i = 0; i < count; i++) {
-        months.push({
-            label: currentDate.toLocaleString('default', { month: 'short', year: 'numeric' }),
-            key: `${currentDate.getFullYear()}-${(currentDate.getMonth() + 1).toString().padStart(2, '0')}`,
-        });
-        currentDate.setMonth(currentDate.getMonth() + 1);
-    }
-    return months;
-};
-
 const ActionMenu: React.FC<{ expense: Expense, onEdit: (expense: Expense) => void, onDelete: (id: string) => void }> = ({ expense, onEdit, onDelete }) => {
     const [isOpen, setIsOpen] = useState(false);
     const menuRef = useRef<HTMLDivElement>(null);
@@ -110,19 +105,24 @@ interface ExpenseFormProps {
 }
 
 const ExpenseForm: React.FC<ExpenseFormProps> = ({ onSave, onUpdate, onCancel, initialData }) => {
+    const { state } = useFinancials();
+    const { baseCurrency } = useCurrency();
+    const formatter = useFormatter();
     const isEditMode = !!initialData;
     const [description, setDescription] = useState(initialData?.description || '');
     const [date, setDate] = useState(initialData?.date || new Date().toISOString().split('T')[0]);
-    const [amount, setAmount] = useState(initialData?.amount.toString() || '');
-    const [category, setCategory] = useState<ExpenseCategory>(initialData?.category || ExpenseCategory.Personal);
+    const [amount, setAmount] = useState(initialData ? formatter.moneyInput(initialData.amount) : '');
+    const [category, setCategory] = useState(initialData?.category || defaultCategoryId(state.categories, 'cat-personal'));
     const [mode, setMode] = useState<ExpenseMode>(initialData?.mode || ExpenseMode.Growth);
+    const [currency, setCurrency] = useState(initialData?.currency || baseCurrency);
 
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
-        const expenseData = { date, category, amount: parseFloat(amount), description, mode };
-        if (description && date && !isNaN(expenseData.amount)) {
+        const parsedAmount = formatter.parseMoney(amount);
+        if (description && date && parsedAmount !== null) {
+            const expenseData = { date, category, amount: parsedAmount, description, mode, currency };
             if (isEditMode && onUpdate && initialData) {
-                onUpdate({ ...expenseData, id: initialData.id });
+                onUpdate({ ...initialData, ...expenseData });
             } else if (!isEditMode && onSave) {
                 onSave(expenseData);
             }
@@ -139,20 +139,22 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({ onSave, onUpdate, onCancel, i
                     <label htmlFor="exp-desc" className="text-sm font-medium text-text-secondary">Description</label>
                     <input id="exp-desc" type="text" placeholder="e.g., Dinner with client" value={description} onChange={(e) => setDescription(e.target.value)} className="w-full bg-surface p-2 rounded-md focus:outline-none focus:ring-2 focus:ring-brand border border-secondary" required />
                 </div>
-                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
                      <div className="space-y-2">
                         <label htmlFor="exp-date" className="text-sm font-medium text-text-secondary">Date</label>
                         <input id="exp-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} className="w-full bg-surface p-2 rounded-md focus:outline-none focus:ring-2 focus:ring-brand border border-secondary" required />
                     </div>
                     <div className="space-y-2">
-                        <label htmlFor="exp-amount" className="text-sm font-medium text-text-secondary">Amount (€)</label>
-                        <input id="exp-amount" type="number" placeholder="50" value={amount} onChange={(e) => setAmount(e.target.value)} className="w-full bg-surface p-2 rounded-md focus:outline-none focus:ring-2 focus:ring-brand border border-secondary" required />
+                        <label htmlFor="exp-amount" className="text-sm font-medium text-text-secondary">Amount</label>
+                        <input id="exp-amount" type="text" inputMode="decimal" placeholder="50" value={amount} onChange={(e) => setAmount(e.target.value)} className="w-full bg-surface p-2 rounded-md focus:outline-none focus:ring-2 focus:ring-brand border border-secondary" required />
+                    </div>
+                    <div className="space-y-2">
+                        <label htmlFor="exp-currency" className="text-sm font-medium text-text-secondary">Currency</label>
+                        <CurrencySelect id="exp-currency" value={currency} onChange={setCurrency} className="w-full bg-surface p-2 rounded-md focus:outline-none focus:ring-2 focus:ring-brand border border-secondary" />
                     </div>
                     <div className="space-y-2">
                         <label htmlFor="exp-category" className="text-sm font-medium text-text-secondary">Category</label>
-                        <select id="exp-category" value={category} onChange={(e) => setCategory(e.target.value as ExpenseCategory)} className="w-full bg-surface p-2 rounded-md focus:outline-none focus:ring-2 focus:ring-brand border border-secondary">
-                            {Object.values(ExpenseCategory).map(s => <option key={s} value={s}>{s}</option>)}
-                        </select>
+                        <CategorySelect id="exp-category" value={category} onChange={setCategory} className="w-full bg-surface p-2 rounded-md focus:outline-none focus:ring-2 focus:ring-brand border border-secondary" />
                     </div>
                      <div className="space-y-2">
                         <label htmlFor="exp-mode" className="text-sm font-medium text-text-secondary">Mode</label>
@@ -178,26 +180,67 @@ interface RecurringExpenseFormProps {
 }
 
 const RecurringExpenseForm: React.FC<RecurringExpenseFormProps> = ({ onSave, onUpdate, onCancel, initialData }) => {
+    const { state } = useFinancials();
+    const { baseCurrency } = useCurrency();
+    const formatter = useFormatter();
     const isEditMode = !!initialData;
     const [description, setDescription] = useState(initialData?.description || '');
-    const [amount, setAmount] = useState(initialData?.amount.toString() || '');
-    const [category, setCategory] = useState<ExpenseCategory>(initialData?.category || ExpenseCategory.Housing);
+    const [amount, setAmount] = useState(initialData ? formatter.moneyInput(initialData.amount) : '');
+    const [category, setCategory] = useState(initialData?.category || defaultCategoryId(state.categories, 'cat-housing'));
     const [mode, setMode] = useState<ExpenseMode>(initialData?.mode || ExpenseMode.Survival);
     const [startDate, setStartDate] = useState(initialData?.startDate || new Date().toISOString().slice(0, 7));
+    const [frequency, setFrequency] = useState<RecurrenceFrequency>(initialData?.frequency || 'monthly');
+    const [intervalMonths, setIntervalMonths] = useState(String(initialData?.interval ?? 2));
+    const [dayOfMonth, setDayOfMonth] = useState(String(initialData?.dayOfMonth ?? 1));
+    const [endDate, setEndDate] = useState(initialData?.endDate || '');
+    const [pauses, setPauses] = useState<RecurrencePause[]>(initialData?.pauses || []);
+    const [priceChanges, setPriceChanges] = useState(
+        (initialData?.priceChanges || []).map(c => ({ from: c.from, amount: formatter.moneyInput(c.amount) }))
+    );
+
+    const updatePause = (index: number, change: Partial<RecurrencePause>) =>
+        setPauses(prev => prev.map((p, i) => i === index ? { ...p, ...change } : p));
+    const updatePriceChange = (index: number, change: Partial<{ from: string; amount: string }>) =>
+        setPriceChanges(prev => prev.map((c, i) => i === index ? { ...c, ...change } : c));
 
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
-        const expenseData: Omit<RecurringExpense, 'id'> = {
-            description,
-            amount: parseFloat(amount),
-            category,
-            mode,
-            frequency: 'monthly',
-            startDate,
-        };
-        if (description && !isNaN(expenseData.amount)) {
+        const parsedAmount = formatter.parseMoney(amount);
+        const parsedInterval = parseInt(intervalMonths, 10);
+        const parsedDay = parseInt(dayOfMonth, 10);
+        const intervalIsValid = frequency !== 'everyNMonths' || (parsedInterval >= 1 && parsedInterval <= 120);
+        const parsedChanges = priceChanges.map(c => ({ from: c.from, amount: formatter.parseMoney(c.amount) }));
+        if (endDate && endDate < startDate) {
+            alert("The end month cannot be before the first month.");
+            return;
+        }
+        if (pauses.some(p => !p.start || !p.end || p.end < p.start)) {
+            alert("Every pause needs a first and a last month, in that order.");
+            return;
+        }
+        if (parsedChanges.some(c => !c.from || c.from <= startDate || c.amount === null)) {
+            alert("Every price change needs an amount and a month after the first month.");
+            return;
+        }
+        if (description && parsedAmount !== null && intervalIsValid && parsedDay >= 1 && parsedDay <= 31) {
+            const expenseData: Omit<RecurringExpense, 'id'> = {
+                description,
+                amount: parsedAmount,
+                category,
+                mode,
+                frequency,
+                ...(frequency === 'everyNMonths' ? { interval: parsedInterval } : {}),
+                dayOfMonth: parsedDay,
+                startDate,
+                ...(endDate ? { endDate } : {}),
+                ...(pauses.length > 0 ? { pauses } : {}),
+                ...(parsedChanges.length > 0
+                    ? { priceChanges: parsedChanges.flatMap(c => c.amount === null ? [] : [{ from: c.from, amount: c.amount }]).sort((a, b) => a.from.localeCompare(b.from)) }
+                    : {}),
+            };
             if (isEditMode && onUpdate && initialData) {
-                onUpdate({ ...expenseData, id: initialData.id });
+                // Keep how far it has been posted, or editing would post past payments again.
+                onUpdate({ ...expenseData, id: initialData.id, ...(initialData.postedThrough ? { postedThrough: initialData.postedThrough } : {}) });
             } else if (!isEditMode && onSave) {
                 onSave(expenseData);
             }
@@ -217,18 +260,36 @@ const RecurringExpenseForm: React.FC<RecurringExpenseFormProps> = ({ onSave, onU
                     </div>
                     <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                         <div className="space-y-2">
-                            <label className="text-sm font-medium text-text-secondary">Amount (€)</label>
-                            <input type="number" placeholder="650" value={amount} onChange={(e) => setAmount(e.target.value)} className="w-full bg-background p-2 rounded-md border border-secondary" required />
+                            <label className="text-sm font-medium text-text-secondary">Amount ({baseCurrency})</label>
+                            <input type="text" inputMode="decimal" placeholder="650" value={amount} onChange={(e) => setAmount(e.target.value)} className="w-full bg-background p-2 rounded-md border border-secondary" required />
+                        </div>
+                         <div className="space-y-2">
+                            <label className="text-sm font-medium text-text-secondary">Repeats</label>
+                            <select value={frequency} onChange={(e) => setFrequency(e.target.value as RecurrenceFrequency)} className="w-full bg-background p-2 rounded-md border border-secondary">
+                                {RECURRENCE_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                            </select>
                         </div>
+                        {frequency === 'everyNMonths' && (
+                            <div className="space-y-2">
+                                <label className="text-sm font-medium text-text-secondary">Every how many months</label>
+                                <input type="number" min="1" max="120" value={intervalMonths} onChange={(e) => setIntervalMonths(e.target.value)} className="w-full bg-background p-2 rounded-md border border-secondary" required />
+                            </div>
+                        )}
                          <div className="space-y-2">
-                            <label className="text-sm font-medium text-text-secondary">Start Month</label>
+                            <label className="text-sm font-medium text-text-secondary">{isMonthlyOrLonger({ frequency, startDate }) ? 'First Month' : 'Month of First Payment'}</label>
                             <input type="month" value={startDate} onChange={(e) => setStartDate(e.target.value)} className="w-full bg-background p-2 rounded-md border border-secondary" required />
+                        </div>
+                        <div className="space-y-2">
+                            <label className="text-sm font-medium text-text-secondary">Last Month (optional)</label>
+                            <input type="month" value={endDate} onChange={(e) => setEndDate(e.target.value)} className="w-full bg-background p-2 rounded-md border border-secondary" />
+                        </div>
+                        <div className="space-y-2">
+                            <label className="text-sm font-medium text-text-secondary">{isMonthlyOrLonger({ frequency, startDate }) ? 'Day of Month' : 'Day of First Payment'}</label>
+                            <input type="number" min="1" max="31" value={dayOfMonth} onChange={(e) => setDayOfMonth(e.target.value)} className="w-full bg-background p-2 rounded-md border border-secondary" required />
                         </div>
                          <div className="space-y-2">
                             <label className="text-sm font-medium text-text-secondary">Category</label>
-                            <select value={category} onChange={(e) => setCategory(e.target.value as ExpenseCategory)} className="w-full bg-background p-2 rounded-md border border-secondary">
-                                {Object.values(ExpenseCategory).map(s => <option key={s} value={s}>{s}</option>)}
-                            </select>
+                            <CategorySelect value={category} onChange={setCategory} className="w-full bg-background p-2 rounded-md border border-secondary" />
                         </div>
                          <div className="space-y-2">
                             <label className="text-sm font-medium text-text-secondary">Mode</label>
@@ -237,6 +298,45 @@ const RecurringExpenseForm: React.FC<RecurringExpenseFormProps> = ({ onSave, onU
                             </select>
                         </div>
                     </div>
+                    <div className="space-y-2">
+                        <div className="flex justify-between items-center">
+                            <label className="text-sm font-medium text-text-secondary">Price Changes</label>
+                            <button type="button" onClick={() => setPriceChanges(prev => [...prev, { from: '', amount: '' }])} className="flex items-center space-x-1 text-sm text-brand font-semibold">
+                                <Icons.Plus className="w-4 h-4" />
+                                <span>Add</span>
+                            </button>
+                        </div>
+                        {priceChanges.length === 0 && <p className="text-sm text-text-secondary">Record a new price from a given month on; earlier months keep the old amount.</p>}
+                        {priceChanges.map((change, index) => (
+                            <div key={index} className="flex items-center space-x-2">
+                                <input type="month" aria-label="From month" value={change.from} onChange={(e) => updatePriceChange(index, { from: e.target.value })} className="flex-1 bg-background p-2 rounded-md border border-secondary" required />
+                                <input type="text" inputMode="decimal" aria-label={`New amount (${baseCurrency})`} placeholder="700" value={change.amount} onChange={(e) => updatePriceChange(index, { amount: e.target.value })} className="flex-1 bg-background p-2 rounded-md border border-secondary" required />
+                                <button type="button" onClick={() => setPriceChanges(prev => prev.filter((_, i) => i !== index))} title="Remove price change" className="p-2 text-text-secondary hover:text-danger">
+                                    <Icons.Trash className="w-4 h-4" />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                    <div className="space-y-2">
+                        <div className="flex justify-between items-center">
+                            <label className="text-sm font-medium text-text-secondary">Pauses</label>
+                            <button type="button" onClick={() => setPauses(prev => [...prev, { start: '', end: '' }])} className="flex items-center space-x-1 text-sm text-brand font-semibold">
+                                <Icons.Plus className="w-4 h-4" />
+                                <span>Add</span>
+                            </button>
+                        </div>
+                        {pauses.length === 0 && <p className="text-sm text-text-secondary">Nothing is planned or logged in paused months.</p>}
+                        {pauses.map((pause, index) => (
+                            <div key={index} className="flex items-center space-x-2">
+                                <input type="month" aria-label="First paused month" value={pause.start} onChange={(e) => updatePause(index, { start: e.target.value })} className="flex-1 bg-background p-2 rounded-md border border-secondary" required />
+                                <span className="text-text-secondary">to</span>
+                                <input type="month" aria-label="Last paused month" value={pause.end} onChange={(e) => updatePause(index, { end: e.target.value })} className="flex-1 bg-background p-2 rounded-md border border-secondary" required />
+                                <button type="button" onClick={() => setPauses(prev => prev.filter((_, i) => i !== index))} title="Remove pause" className="p-2 text-text-secondary hover:text-danger">
+                                    <Icons.Trash className="w-4 h-4" />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
                     <div className="flex justify-end space-x-3 pt-2">
                         <button type="button" onClick={onCancel} className="px-4 py-2 bg-primary rounded-lg">Cancel</button>
                         <button type="submit" className="px-4 py-2 bg-accent rounded-lg text-white font-semibold">{isEditMode ? 'Save Changes' : 'Save Recurring'}</button>
@@ -247,6 +347,69 @@ const RecurringExpenseForm: React.FC<RecurringExpenseFormProps> = ({ onSave, onU
     )
 }
 
+interface PendingReviewProps {
+    expenses: Expense[];
+    onConfirm: (confirmations: { id: string; amount: Money }[]) => void;
+    onReject: (id: string) => void;
+}
+
+// Recurring expenses posted automatically wait here until they are approved, with the amount actually paid.
+const PendingReview: React.FC<PendingReviewProps> = ({ expenses, onConfirm, onReject }) => {
+    const { state } = useFinancials();
+    const { formatCurrency } = useCurrency();
+    const formatter = useFormatter();
+    const [amounts, setAmounts] = useState<Record<string, string>>({});
+
+    const amountText = (expense: Expense) => amounts[expense.id] ?? formatter.moneyInput(expense.amount);
+
+    const handleConfirm = (list: Expense[]) => {
+        const confirmations = list.map(e => ({ id: e.id, amount: formatter.parseMoney(amountText(e)) }));
+        if (confirmations.some(c => c.amount === null)) {
+            alert("Please enter a valid amount for every expense you approve.");
+            return;
+        }
+        onConfirm(confirmations.flatMap(c => c.amount === null ? [] : [{ id: c.id, amount: c.amount }]));
+    };
+
+    return (
+        <Card className="border-warning">
+            <CardHeader>
+                <div className="flex justify-between items-center">
+                    <div>
+                        <CardTitle>Pending Confirmation</CardTitle>
+                        <p className="text-sm text-text-secondary mt-1">Posted automatically from your recurring expenses. Adjust the amount if it differed, then approve.</p>
+                    </div>
+                    <button onClick={() => handleConfirm(expenses)} className="px-3 py-2 bg-accent text-white font-semibold rounded-lg hover:bg-accent-hover transition-colors text-sm">Approve All</button>
+                </div>
+            </CardHeader>
+            <CardContent className="space-y-2 max-h-72 overflow-y-auto">
+                {expenses.map(exp => (
+                    <div key={exp.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-2 rounded-lg hover:bg-primary">
+                        <div>
+                            <p className="font-semibold">{exp.description}</p>
+                            <p className="text-sm text-text-secondary">{categoryPath(state.categories, exp.category)} &bull; {formatter.date(exp.date)} &bull; planned {formatCurrency(exp.amount, exp.currency)}</p>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                            <input
+                                type="text"
+                                inputMode="decimal"
+                                aria-label={`Amount paid (${exp.currency})`}
+                                value={amountText(exp)}
+                                onChange={(e) => setAmounts(prev => ({ ...prev, [exp.id]: e.target.value }))}
+                                className="w-28 bg-background p-2 rounded-md border border-secondary text-right"
+                            />
+                            <button onClick={() => handleConfirm([exp])} className="px-3 py-2 text-sm bg-success/10 text-success font-semibold rounded-lg hover:bg-success hover:text-white">Approve</button>
+                            <button onClick={() => onReject(exp.id)} title="Reject" className="p-2 text-text-secondary hover:text-danger">
+                                <Icons.Trash className="w-4 h-4" />
+                            </button>
+                        </div>
+                    </div>
+                ))}
+            </CardContent>
+        </Card>
+    );
+};
+
 const ExpenseTracker: React.FC = () => {
     const { state, dispatch } = useFinancials();
     const [viewMode, setViewMode] = useState<ExpensePlanMode>(ExpensePlanMode.Growth);
@@ -255,21 +418,24 @@ const ExpenseTracker: React.FC = () => {
     const [isAddingRecurring, setIsAddingRecurring] = useState(false);
     const [editingRecurringExpense, setEditingRecurringExpense] = useState<RecurringExpense | null>(null);
 
-    const months = useMemo(() => generateMonths(new Date(2025, 10, 1), 14), []);
+    const { period, periodLabel, periodMonths } = usePeriod();
+    const { baseCurrency, convert, formatCurrency } = useCurrency();
+    const formatter = useFormatter();
+    const { settings, updateSettings } = useSettings();
+    const currentMonth = currentMonthKey();
+    const pendingExpenses = useMemo(() => state.expenses.filter(e => e.pendingConfirmation).sort((a, b) => a.date.localeCompare(b.date)), [state.expenses]);
+
+    const periodExpenses: Expense[] = useMemo(() => state.expenses.filter(exp => isInPeriod(exp.date, period)), [state.expenses, period]);
 
     const monthlyData = useMemo(() => {
-        return months.map(m => {
-            const actual = state.expenses
-                .filter(exp => exp.date.startsWith(m.key))
-                .reduce((sum, exp) => sum + exp.amount, 0);
+        return periodMonths.map(m => {
+            const actual = sumMoney(
+                periodExpenses.filter(exp => exp.date.startsWith(m.key)),
+                exp => convert(exp.amount, exp.currency, exp.date)
+            );
             
-            const planned = state.recurringExpenses
+            const planned = sumMoney(state.recurringExpenses
                 .filter(re => {
-                    const reStartDate = new Date(re.startDate + "-01T00:00:00Z");
-                    const monthDate = new Date(m.key + "-01T00:00:00Z");
-                    
-                    if (reStartDate > monthDate) return false;
-
                     if (viewMode === ExpensePlanMode.Survival) {
                         return re.mode === ExpenseMode.Survival || re.mode === ExpenseMode.Both;
                     }
@@ -277,14 +443,13 @@ const ExpenseTracker: React.FC = () => {
                         return re.mode === ExpenseMode.Growth || re.mode === ExpenseMode.Both;
                     }
                     return false;
-                })
-                .reduce((sum, re) => sum + re.amount, 0);
+                }), re => plannedForMonth(re, m.key));
 
-            const variance = planned - actual; // Positive is under budget
+            const variance = subtractMoney(planned, actual); // Positive is under budget
             
             return { monthLabel: m.label, monthKey: m.key, Actual: actual, Planned: planned, Variance: variance };
         });
-    }, [months, state.expenses, state.recurringExpenses, viewMode]);
+    }, [periodMonths, periodExpenses, state.recurringExpenses, viewMode, convert]);
 
 
     const handleSaveExpense = (newExpenseData: Omit<Expense, 'id'>) => {
@@ -331,7 +496,13 @@ const ExpenseTracker: React.FC = () => {
     };
     
     const handleLogRecurring = (monthKey: string) => {
-        dispatch({ type: 'LOG_RECURRING_EXPENSES_FOR_MONTH', payload: { month: monthKey } });
+        dispatch({ type: 'LOG_RECURRING_EXPENSES_FOR_MONTH', payload: { month: monthKey, currency: baseCurrency } });
+    };
+
+    const handleRejectPending = (id: string) => {
+        if (window.confirm('Delete this automatically posted expense? It will not be posted again.')) {
+            dispatch({ type: 'DELETE_EXPENSE', payload: { id } });
+        }
     };
 
     return (
@@ -339,7 +510,7 @@ const ExpenseTracker: React.FC = () => {
             <div className="flex justify-between items-start">
                 <div>
                     <h1 className="text-3xl font-bold text-text-primary">Expense Planning</h1>
-                    <p className="text-text-secondary mt-1">Plan vs. Actual spending for your 14-month horizon.</p>
+                    <p className="text-text-secondary mt-1">Plan vs. Actual spending for {periodLabel}.</p>
                 </div>
                  <div className="flex space-x-2 p-1 bg-primary rounded-lg border border-secondary">
                     <button onClick={() => setViewMode(ExpensePlanMode.Survival)} className={`px-3 py-1 text-sm font-semibold rounded-md ${viewMode === ExpensePlanMode.Survival ? 'bg-accent text-white' : 'text-text-secondary'}`}>Survival</button>
@@ -348,14 +519,14 @@ const ExpenseTracker: React.FC = () => {
             </div>
             
             <Card>
-                <CardHeader><CardTitle>14-Month Expense Performance ({viewMode})</CardTitle></CardHeader>
+                <CardHeader><CardTitle>Expense Performance, {periodLabel} ({viewMode})</CardTitle></CardHeader>
                 <CardContent>
                     <ResponsiveContainer width="100%" height={300}>
                         <ComposedChart data={monthlyData} margin={{ top: 5, right: 20, left: 20, bottom: 5 }}>
                             <CartesianGrid strokeDasharray="3 3" stroke="#e9ecef" />
                             <XAxis dataKey="monthLabel" stroke="#6c757d" />
-                            <YAxis stroke="#6c757d" />
-                            <Tooltip cursor={{fill: '#f1f3f5'}} contentStyle={{backgroundColor: '#ffffff', border: '1px solid #dee2e6', borderRadius: '0.5rem'}}/>
+                            <YAxis stroke="#6c757d" tickFormatter={formatter.axisMoney} />
+                            <Tooltip formatter={(value: number) => formatCurrency(value)} cursor={{fill: '#f1f3f5'}} contentStyle={{backgroundColor: '#ffffff', border: '1px solid #dee2e6', borderRadius: '0.5rem'}}/>
                             <Legend />
                             <Bar dataKey="Actual" fill="#dc3545" />
                             <Line type="monotone" dataKey="Planned" stroke="#0d6efd" strokeWidth={2} />
@@ -392,6 +563,14 @@ const ExpenseTracker: React.FC = () => {
                 </CardContent>
             </Card>
 
+            {pendingExpenses.length > 0 && (
+                <PendingReview
+                    expenses={pendingExpenses}
+                    onConfirm={(confirmations) => dispatch({ type: 'CONFIRM_EXPENSES', payload: { confirmations } })}
+                    onReject={handleRejectPending}
+                />
+            )}
+
              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                 <Card>
                     <CardHeader>
@@ -404,6 +583,10 @@ const ExpenseTracker: React.FC = () => {
                                 </button>
                             )}
                         </div>
+                        <label className="flex items-center space-x-2 text-sm text-text-secondary mt-2">
+                            <input type="checkbox" checked={settings.autoPostRecurring} onChange={(e) => updateSettings({ autoPostRecurring: e.target.checked })} />
+                            <span>Post automatically when due, pending your approval</span>
+                        </label>
                     </CardHeader>
                     <CardContent>
                         {(isAddingRecurring || editingRecurringExpense) && (
@@ -418,11 +601,15 @@ const ExpenseTracker: React.FC = () => {
                             {state.recurringExpenses.map(re => (
                                 <div key={re.id} className="flex justify-between items-center p-2 rounded-lg hover:bg-primary">
                                     <div>
-                                        <p className="font-semibold">{re.description}</p>
-                                        <p className="text-sm text-text-secondary">{re.category} &bull; {re.mode}</p>
+                                        <p className="font-semibold">
+                                            {re.description}
+                                            {!isRunning(re, currentMonth) && <span className="ml-2 text-xs font-medium px-2 py-0.5 rounded-full bg-secondary text-text-secondary">Ended {formatter.month(re.endDate as string)}</span>}
+                                            {isRunning(re, currentMonth) && isPaused(re, currentMonth) && <span className="ml-2 text-xs font-medium px-2 py-0.5 rounded-full bg-warning/10 text-warning">Paused</span>}
+                                        </p>
+                                        <p className="text-sm text-text-secondary">{categoryPath(state.categories, re.category)} &bull; {re.mode} &bull; {describeRecurrence(re, formatter)}</p>
                                     </div>
                                     <div className="flex items-center space-x-4">
-                                        <p className="font-bold">{formatCurrency(re.amount)}/mo</p>
+                                        <p className="font-bold">{formatCurrency(amountInMonth(re, currentMonth))}</p>
                                         <RecurringActionMenu expense={re} onEdit={handleStartEditingRecurring} onDelete={handleDeleteRecurring} />
                                     </div>
                                 </div>
@@ -448,14 +635,18 @@ const ExpenseTracker: React.FC = () => {
                         {editingExpense && <ExpenseForm initialData={editingExpense} onUpdate={handleUpdateExpense} onCancel={() => setEditingExpense(null)} />}
 
                         <div className="space-y-1 max-h-60 overflow-y-auto">
-                            {state.expenses.slice().sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()).map(exp => (
+                            {periodExpenses.length === 0 && <p className="text-sm text-text-secondary p-2">No expenses in {periodLabel}.</p>}
+                            {periodExpenses.slice().sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()).map(exp => (
                                 <div key={exp.id} className="flex justify-between items-center p-2 rounded-lg hover:bg-primary">
                                     <div>
-                                        <p className="font-semibold">{exp.description}</p>
-                                        <p className="text-sm text-text-secondary">{exp.category} &bull; {new Date(exp.date).toLocaleDateString()}</p>
+                                        <p className="font-semibold">
+                                            {exp.description}
+                                            {exp.pendingConfirmation && <span className="ml-2 text-xs font-medium px-2 py-0.5 rounded-full bg-warning/10 text-warning">Pending</span>}
+                                        </p>
+                                        <p className="text-sm text-text-secondary">{categoryPath(state.categories, exp.category)} &bull; {formatter.date(exp.date)}</p>
                                     </div>
                                     <div className="flex items-center space-x-4">
-                                        <p className="font-bold text-danger">{formatCurrency(exp.amount)}</p>
+                                        <p className="font-bold text-danger">{formatCurrency(exp.amount, exp.currency)}</p>
                                         <ActionMenu expense={exp} onEdit={handleStartEditing} onDelete={handleDeleteExpense} />
                                     </div>
                                 </div>
@@ -0,0 +1,59 @@
+import React, { useMemo } from 'react';
+import { FinancialData } from '../types';
+import { RepairMode, repairFinancialData, validateFinancialData } from '../services/validation';
+import { Card, CardHeader, CardTitle, CardContent } from './ui/Card';
+import { Icons } from './ui/Icons';
+
+const MAX_LISTED_ISSUES = 100;
+
+interface ImportValidationProps {
+    data: FinancialData;
+    onContinue: (data: FinancialData) => void;
+    onAbort: () => void;
+}
+
+const ImportValidation: React.FC<ImportValidationProps> = ({ data, onContinue, onAbort }) => {
+    const report = useMemo(() => validateFinancialData(data), [data]);
+    const dropped = report.invalidRecords - report.fixableRecords;
+
+    const handleRepair = (mode: RepairMode) => onContinue(repairFinancialData(data, mode));
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center">
+                    <Icons.Warning className="w-5 h-5 mr-2 text-warning" />
+                    This File Has Problems
+                </CardTitle>
+                <p className="text-sm text-text-secondary mt-1">
+                    {report.invalidRecords} record(s) do not match what WaveFinances expects and could break charts and totals.
+                    {report.fixableRecords > 0 && ` ${report.fixableRecords} of them can be fixed automatically.`}
+                </p>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <ul className="max-h-72 overflow-y-auto bg-primary rounded-lg p-3 space-y-1 text-sm font-mono">
+                    {report.issues.slice(0, MAX_LISTED_ISSUES).map((issue, index) => (
+                        <li key={index} className={issue.fixable ? 'text-text-secondary' : 'text-danger'}>
+                            {issue.path}: {issue.message}
+                        </li>
+                    ))}
+                    {report.issues.length > MAX_LISTED_ISSUES && (
+                        <li className="text-text-secondary">…and {report.issues.length - MAX_LISTED_ISSUES} more</li>
+                    )}
+                </ul>
+                <p className="text-xs text-text-secondary">Problems shown in red cannot be fixed; auto-fix leaves those records out.</p>
+                <div className="flex flex-col sm:flex-row sm:justify-end gap-3">
+                    <button onClick={onAbort} className="px-4 py-2 bg-primary rounded-lg hover:bg-secondary/80 transition-colors">Abort</button>
+                    <button onClick={() => handleRepair('valid-only')} className="px-4 py-2 bg-primary rounded-lg hover:bg-secondary/80 font-semibold transition-colors">
+                        Import Valid Records Only
+                    </button>
+                    <button onClick={() => handleRepair('auto-fix')} className="px-4 py-2 bg-accent rounded-lg hover:bg-accent-hover text-white font-semibold transition-colors">
+                        Auto-fix{dropped > 0 ? ` (drops ${dropped})` : ''}
+                    </button>
+                </div>
+            </CardContent>
+        </Card>
+    );
+};
+
+export default ImportValidation;
@@ -1,25 +1,18 @@
 import React, { useMemo, useState, useEffect, useRef } from 'react';
 import { useFinancials } from '../context/FinancialContext';
+import { usePlanningPeriod } from '../hooks/usePlanningPeriod';
+import { usePeriod } from '../context/PeriodContext';
+import { useCurrency } from '../hooks/useCurrency';
+import { isInPeriod } from '../services/periods';
+import { currencySymbol } from '../services/currency';
+import { useFormatter } from '../hooks/useFormatter';
+import { subtractMoney, sumMoney } from '../services/money';
 import { Income, IncomeSource } from '../types';
 import { Card, CardHeader, CardTitle, CardContent } from './ui/Card';
 import { Icons } from './ui/Icons';
+import { CurrencySelect } from './ui/CurrencySelect';
 import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
 
-const formatCurrency = (value: number) => `€${value.toLocaleString('de-DE', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
-
-const generateMonths = (startDate: Date, count: number) => {
-    const months = [];
-    let currentDate = new Date(startDate.getFullYear(), startDate.getMonth(), 1);
-    for (let i = 0; i < count; i++) {
-        months.push({
-            label: currentDate.toLocaleString('default', { month: 'short', year: 'numeric' }),
-            key: `${currentDate.getFullYear()}-${(currentDate.getMonth() + 1).toString().padStart(2, '0')}`,
-        });
-        currentDate.setMonth(currentDate.getMonth() + 1);
-    }
-    return months;
-};
-
 const ActionMenu: React.FC<{ income: Income, onEdit: (income: Income) => void, onDelete: (id: string) => void }> = ({ income, onEdit, onDelete }) => {
     const [isOpen, setIsOpen] = useState(false);
     const menuRef = useRef<HTMLDivElement>(null);
@@ -70,23 +63,28 @@ interface IncomeFormProps {
 
 
 const IncomeForm: React.FC<IncomeFormProps> = ({ onSave, onUpdate, onCancel, initialData }) => {
+    const { baseCurrency } = useCurrency();
+    const formatter = useFormatter();
     const isEditMode = !!initialData;
     const [date, setDate] = useState(initialData?.date || new Date().toISOString().split('T')[0]);
     const [source, setSource] = useState<IncomeSource>(initialData?.source || IncomeSource.Consulting);
-    const [amount, setAmount] = useState(initialData?.amount.toString() || '');
+    const [amount, setAmount] = useState(initialData ? formatter.moneyInput(initialData.amount) : '');
     const [description, setDescription] = useState(initialData?.description || '');
+    const [currency, setCurrency] = useState(initialData?.currency || baseCurrency);
 
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
-        const newIncome = {
-            date,
-            source,
-            amount: parseFloat(amount),
-            description
-        };
-        if (date && source && !isNaN(newIncome.amount) && description) {
+        const parsedAmount = formatter.parseMoney(amount);
+        if (date && source && parsedAmount !== null && description) {
+            const newIncome = {
+                date,
+                source,
+                amount: parsedAmount,
+                description,
+                currency,
+            };
             if(isEditMode && onUpdate && initialData) {
-                onUpdate({ ...newIncome, id: initialData.id });
+                onUpdate({ ...initialData, ...newIncome });
             } else if (!isEditMode && onSave) {
                 onSave(newIncome);
             }
@@ -103,14 +101,18 @@ const IncomeForm: React.FC<IncomeFormProps> = ({ onSave, onUpdate, onCancel, ini
                     <label htmlFor="income-desc" className="text-sm font-medium text-text-secondary">Description</label>
                     <input id="income-desc" type="text" placeholder="e.g., Project Phoenix" value={description} onChange={(e) => setDescription(e.target.value)} className="w-full bg-surface p-2 rounded-md focus:outline-none focus:ring-2 focus:ring-brand border border-secondary" required />
                 </div>
-                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
                     <div className="space-y-2">
                         <label htmlFor="income-date" className="text-sm font-medium text-text-secondary">Date</label>
                         <input id="income-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} className="w-full bg-surface p-2 rounded-md focus:outline-none focus:ring-2 focus:ring-brand border border-secondary" required />
                     </div>
                     <div className="space-y-2">
-                        <label htmlFor="income-amount" className="text-sm font-medium text-text-secondary">Amount (€)</label>
-                        <input id="income-amount" type="number" placeholder="1000" value={amount} onChange={(e) => setAmount(e.target.value)} className="w-full bg-surface p-2 rounded-md focus:outline-none focus:ring-2 focus:ring-brand border border-secondary" required />
+                        <label htmlFor="income-amount" className="text-sm font-medium text-text-secondary">Amount</label>
+                        <input id="income-amount" type="text" inputMode="decimal" placeholder="1000" value={amount} onChange={(e) => setAmount(e.target.value)} className="w-full bg-surface p-2 rounded-md focus:outline-none focus:ring-2 focus:ring-brand border border-secondary" required />
+                    </div>
+                    <div className="space-y-2">
+                        <label htmlFor="income-currency" className="text-sm font-medium text-text-secondary">Currency</label>
+                        <CurrencySelect id="income-currency" value={currency} onChange={setCurrency} className="w-full bg-surface p-2 rounded-md focus:outline-none focus:ring-2 focus:ring-brand border border-secondary" />
                     </div>
                     <div className="space-y-2">
                         <label htmlFor="income-source" className="text-sm font-medium text-text-secondary">Source</label>
@@ -135,28 +137,34 @@ const IncomeTracker: React.FC = () => {
     const [editingIncome, setEditingIncome] = useState<Income | null>(null);
     const [goals, setGoals] = useState<{ [key: string]: string }>({});
 
-    const months = useMemo(() => generateMonths(new Date(2025, 10, 1), 14), []); // Nov 2025 for 14 months
+    const { months } = usePlanningPeriod();
+    const { period, periodLabel, periodMonths } = usePeriod();
+    const { baseCurrency, convert, formatCurrency } = useCurrency();
+    const formatter = useFormatter();
+
+    const periodIncome: Income[] = useMemo(() => state.income.filter(inc => isInPeriod(inc.date, period)), [state.income, period]);
 
     useEffect(() => {
         const initialGoals = state.incomeGoals.reduce((acc, goal) => {
-            acc[goal.month] = goal.amount.toString();
+            acc[goal.month] = formatter.moneyInput(goal.amount);
             return acc;
         }, {} as {[key: string]: string});
         setGoals(initialGoals);
-    }, [state.incomeGoals]);
+    }, [state.incomeGoals, formatter]);
 
     const monthlyData = useMemo(() => {
-        return months.map(m => {
-            const actual = state.income
-                .filter(inc => inc.date.startsWith(m.key))
-                .reduce((sum, inc) => sum + inc.amount, 0);
+        return periodMonths.map(m => {
+            const actual = sumMoney(
+                periodIncome.filter(inc => inc.date.startsWith(m.key)),
+                inc => convert(inc.amount, inc.currency, inc.date)
+            );
             
             const goal = state.incomeGoals.find(g => g.month === m.key)?.amount || 0;
-            const variance = actual - goal;
+            const variance = subtractMoney(actual, goal);
             
             return { month: m.label, Actual: actual, Goal: goal, Variance: variance };
         });
-    }, [months, state.income, state.incomeGoals]);
+    }, [periodMonths, periodIncome, state.incomeGoals, convert]);
 
     const handleGoalChange = (monthKey: string, amount: string) => {
         setGoals(prev => ({ ...prev, [monthKey]: amount }));
@@ -164,8 +172,10 @@ const IncomeTracker: React.FC = () => {
 
     const handleSaveGoals = () => {
         Object.entries(goals).forEach(([month, amountStr]) => {
-            const amount = parseFloat(amountStr);
-            if (!isNaN(amount)) {
+            const amount = formatter.parseMoney(amountStr);
+            const existing = state.incomeGoals.find(g => g.month === month);
+            // Only dispatch real changes so each one is a meaningful undo step.
+            if (amount !== null && existing?.amount !== amount) {
                 dispatch({ type: 'UPDATE_INCOME_GOAL', payload: { month, amount } });
             }
         });
@@ -200,14 +210,14 @@ const IncomeTracker: React.FC = () => {
             <h1 className="text-3xl font-bold text-text-primary">Income & Goals</h1>
 
             <Card>
-                <CardHeader><CardTitle>14-Month Income Performance</CardTitle></CardHeader>
+                <CardHeader><CardTitle>Income Performance, {periodLabel}</CardTitle></CardHeader>
                 <CardContent>
                     <ResponsiveContainer width="100%" height={300}>
                         <ComposedChart data={monthlyData} margin={{ top: 5, right: 20, left: 20, bottom: 5 }}>
                             <CartesianGrid strokeDasharray="3 3" stroke="#e9ecef" />
                             <XAxis dataKey="month" stroke="#6c757d" />
-                            <YAxis stroke="#6c757d" />
-                            <Tooltip cursor={{fill: '#f1f3f5'}} contentStyle={{backgroundColor: '#ffffff', border: '1px solid #dee2e6', borderRadius: '0.5rem'}} />
+                            <YAxis stroke="#6c757d" tickFormatter={formatter.axisMoney} />
+                            <Tooltip formatter={(value: number) => formatCurrency(value)} cursor={{fill: '#f1f3f5'}} contentStyle={{backgroundColor: '#ffffff', border: '1px solid #dee2e6', borderRadius: '0.5rem'}} />
                             <Legend />
                             <Bar dataKey="Actual" fill="#198754" />
                             <Line type="monotone" dataKey="Goal" stroke="#0d6efd" strokeWidth={2} />
@@ -255,14 +265,15 @@ const IncomeTracker: React.FC = () => {
                                 <div key={m.key} className="flex items-center space-x-3">
                                     <label htmlFor={`goal-${m.key}`} className="w-24 text-sm text-text-secondary">{m.label}</label>
                                     <div className="relative flex-1">
-                                         <span className="absolute left-3 top-1/2 -translate-y-1/2 text-text-secondary">€</span>
+                                         <span className="absolute left-3 top-1/2 -translate-y-1/2 text-text-secondary">{currencySymbol(baseCurrency)}</span>
                                          <input
                                             id={`goal-${m.key}`}
-                                            type="number"
+                                            type="text"
+                                            inputMode="decimal"
                                             placeholder="0"
                                             value={goals[m.key] || ''}
                                             onChange={(e) => handleGoalChange(m.key, e.target.value)}
-                                            className="w-full bg-background p-2 pl-6 rounded-md focus:outline-none focus:ring-2 focus:ring-brand border border-secondary"
+                                            className={`w-full bg-background p-2 ${currencySymbol(baseCurrency).length > 1 ? 'pl-12' : 'pl-6'} rounded-md focus:outline-none focus:ring-2 focus:ring-brand border border-secondary`}
                                         />
                                     </div>
                                 </div>
@@ -286,14 +297,15 @@ const IncomeTracker: React.FC = () => {
                             {editingIncome && <IncomeForm initialData={editingIncome} onUpdate={handleUpdateIncome} onCancel={() => setEditingIncome(null)} />}
                             
                             <div className="space-y-1 max-h-60 overflow-y-auto">
-                                {state.income.slice().sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()).map(inc => (
+                                {periodIncome.length === 0 && <p className="text-sm text-text-secondary p-2">No income in {periodLabel}.</p>}
+                                {periodIncome.slice().sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()).map(inc => (
                                     <div key={inc.id} className="flex justify-between items-center p-2 rounded-lg hover:bg-primary">
                                         <div>
                                             <p className="font-semibold">{inc.description}</p>
-                                            <p className="text-sm text-text-secondary">{inc.source} &bull; {new Date(inc.date).toLocaleDateString()}</p>
+                                            <p className="text-sm text-text-secondary">{inc.source} &bull; {formatter.date(inc.date)}</p>
                                         </div>
                                         <div className="flex items-center space-x-4">
-                                            <p className="font-bold text-success">{formatCurrency(inc.amount)}</p>
+                                            <p className="font-bold text-success">{formatCurrency(inc.amount, inc.currency)}</p>
                                             <ActionMenu income={inc} onEdit={handleStartEditing} onDelete={handleDeleteIncome} />
                                         </div>
                                     </div>
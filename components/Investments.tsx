@@ -3,10 +3,12 @@ import { useFinancials } from '../context/FinancialContext';
 import { Asset, InvestmentBasket, AssetCategory } from '../types';
 import { Card, CardHeader, CardTitle, CardContent } from './ui/Card';
 import { Icons } from './ui/Icons';
+import { CurrencySelect } from './ui/CurrencySelect';
+import { useCurrency } from '../hooks/useCurrency';
+import { useFormatter } from '../hooks/useFormatter';
+import { subtractMoney, sumMoney } from '../services/money';
 import { PieChart, Pie, Cell, ResponsiveContainer, Legend, Tooltip } from 'recharts';
 
-const formatCurrency = (value: number) => `€${value.toLocaleString('de-DE', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
-
 const COLORS = ['#212529', '#0d6efd', '#6c757d', '#198754', '#adb5bd'];
 
 interface AssetFormProps {
@@ -16,25 +18,23 @@ interface AssetFormProps {
 }
 
 const AssetForm: React.FC<AssetFormProps> = ({ onSave, onCancel, initialData }) => {
+    const { baseCurrency } = useCurrency();
+    const formatter = useFormatter();
     const isEditMode = !!initialData;
     const [name, setName] = useState(initialData?.name || '');
     const [category, setCategory] = useState<AssetCategory>(initialData?.category || AssetCategory.StocksETFs);
-    const [amountInvested, setAmountInvested] = useState(initialData?.amountInvested.toString() || '');
-    const [currentValue, setCurrentValue] = useState(initialData?.currentValue.toString() || '');
+    const [amountInvested, setAmountInvested] = useState(initialData ? formatter.moneyInput(initialData.amountInvested) : '');
+    const [currentValue, setCurrentValue] = useState(initialData ? formatter.moneyInput(initialData.currentValue) : '');
     const [date, setDate] = useState(initialData?.date || new Date().toISOString().split('T')[0]);
+    const [currency, setCurrency] = useState(initialData?.currency || baseCurrency);
 
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
-        const assetData = {
-            name,
-            category,
-            amountInvested: parseFloat(amountInvested),
-            currentValue: parseFloat(currentValue),
-            date,
-        };
+        const invested = formatter.parseMoney(amountInvested);
+        const value = formatter.parseMoney(currentValue);
 
-        if (name && !isNaN(assetData.amountInvested) && !isNaN(assetData.currentValue)) {
-            onSave(assetData);
+        if (name && invested !== null && value !== null) {
+            onSave({ name, category, amountInvested: invested, currentValue: value, currency, date });
         } else {
             alert('Please fill all fields with valid data.');
         }
@@ -56,14 +56,18 @@ const AssetForm: React.FC<AssetFormProps> = ({ onSave, onCancel, initialData })
                         </select>
                     </div>
                 </div>
-                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                 <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                    <div className="space-y-2">
+                        <label className="text-sm font-medium text-text-secondary">Amount Invested</label>
+                        <input type="text" inputMode="decimal" placeholder="1000" value={amountInvested} onChange={e => setAmountInvested(e.target.value)} className="w-full bg-surface p-2 rounded-md border border-secondary" required />
+                    </div>
                     <div className="space-y-2">
-                        <label className="text-sm font-medium text-text-secondary">Amount Invested (€)</label>
-                        <input type="number" placeholder="1000" value={amountInvested} onChange={e => setAmountInvested(e.target.value)} className="w-full bg-surface p-2 rounded-md border border-secondary" required />
+                        <label className="text-sm font-medium text-text-secondary">Current Value</label>
+                        <input type="text" inputMode="decimal" placeholder="1200" value={currentValue} onChange={e => setCurrentValue(e.target.value)} className="w-full bg-surface p-2 rounded-md border border-secondary" required />
                     </div>
                     <div className="space-y-2">
-                        <label className="text-sm font-medium text-text-secondary">Current Value (€)</label>
-                        <input type="number" placeholder="1200" value={currentValue} onChange={e => setCurrentValue(e.target.value)} className="w-full bg-surface p-2 rounded-md border border-secondary" required />
+                        <label className="text-sm font-medium text-text-secondary">Currency</label>
+                        <CurrencySelect value={currency} onChange={setCurrency} className="w-full bg-surface p-2 rounded-md border border-secondary" />
                     </div>
                      <div className="space-y-2">
                         <label className="text-sm font-medium text-text-secondary">Purchase Date</label>
@@ -106,9 +110,10 @@ const AssetActionMenu: React.FC<{ onEdit: () => void; onDelete: () => void }> =
 
 
 const AssetListItem: React.FC<{ asset: Asset; onEdit: () => void; onDelete: () => void }> = ({ asset, onEdit, onDelete }) => {
+    const { formatCurrency } = useCurrency();
     const roi = useMemo(() => {
         if (asset.amountInvested === 0) return 0;
-        return ((asset.currentValue - asset.amountInvested) / asset.amountInvested) * 100;
+        return (subtractMoney(asset.currentValue, asset.amountInvested) / asset.amountInvested) * 100;
     }, [asset.amountInvested, asset.currentValue]);
     const isPositive = roi >= 0;
 
@@ -119,7 +124,7 @@ const AssetListItem: React.FC<{ asset: Asset; onEdit: () => void; onDelete: () =
                 <p className="text-sm text-text-secondary">{asset.category}</p>
             </div>
             <div className="text-right">
-                <p className="font-semibold">{formatCurrency(asset.currentValue)}</p>
+                <p className="font-semibold">{formatCurrency(asset.currentValue, asset.currency)}</p>
             </div>
             <div className={`font-bold text-right ${isPositive ? 'text-success' : 'text-danger'}`}>
                 {isPositive ? '+' : ''}{roi.toFixed(2)}%
@@ -133,12 +138,13 @@ const AssetListItem: React.FC<{ asset: Asset; onEdit: () => void; onDelete: () =
 
 const AllocationByBasketChart: React.FC = () => {
     const { state } = useFinancials();
+    const { convert, formatCurrency } = useCurrency();
     const data = useMemo(() => {
         return state.investmentBaskets.map(basket => ({
             name: basket.name,
-            value: basket.assets.reduce((sum, asset) => sum + asset.currentValue, 0),
+            value: sumMoney(basket.assets, asset => convert(asset.currentValue, asset.currency)),
         }));
-    }, [state.investmentBaskets]);
+    }, [state.investmentBaskets, convert]);
 
     return (
         <ResponsiveContainer width="100%" height={250}>
@@ -146,7 +152,7 @@ const AllocationByBasketChart: React.FC = () => {
                 <Pie data={data} cx="50%" cy="50%" labelLine={false} outerRadius={80} fill="#8884d8" dataKey="value" nameKey="name" label={({ name, percent }) => `${name} (${((percent || 0) * 100).toFixed(0)}%)`}>
                     {data.map((entry, index) => (<Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />))}
                 </Pie>
-                <Tooltip contentStyle={{backgroundColor: '#ffffff', border: '1px solid #dee2e6', borderRadius: '0.5rem'}}/>
+                <Tooltip formatter={(value: number) => formatCurrency(value)} contentStyle={{backgroundColor: '#ffffff', border: '1px solid #dee2e6', borderRadius: '0.5rem'}}/>
             </PieChart>
         </ResponsiveContainer>
     );
@@ -166,13 +172,15 @@ const InvestmentBasketCard: React.FC<{
     const [isEditingName, setIsEditingName] = useState(false);
     const [name, setName] = useState(basket.name);
     const nameInputRef = useRef<HTMLInputElement>(null);
+    const { convert, formatCurrency } = useCurrency();
 
+    // Invested amounts are converted at the purchase date's rate, so currency moves show up in the return.
     const { totalValue, totalInvested, roi } = useMemo(() => {
-        const value = basket.assets.reduce((sum, a) => sum + a.currentValue, 0);
-        const invested = basket.assets.reduce((sum, a) => sum + a.amountInvested, 0);
-        const returnOI = invested > 0 ? ((value - invested) / invested) * 100 : 0;
+        const value = sumMoney<Asset>(basket.assets, a => convert(a.currentValue, a.currency));
+        const invested = sumMoney<Asset>(basket.assets, a => convert(a.amountInvested, a.currency, a.date));
+        const returnOI = invested > 0 ? (subtractMoney(value, invested) / invested) * 100 : 0;
         return { totalValue: value, totalInvested: invested, roi: returnOI };
-    }, [basket.assets]);
+    }, [basket.assets, convert]);
 
     useEffect(() => {
         if (isEditingName && nameInputRef.current) {
@@ -248,10 +256,11 @@ const PortfolioManager: React.FC = () => {
     const { state, dispatch } = useFinancials();
     const [editingAsset, setEditingAsset] = useState<{ asset: Asset, basketId: string } | null>(null);
     const [addingToBasketId, setAddingToBasketId] = useState<string | null>(null);
+    const { convert, formatCurrency } = useCurrency();
 
     const totalValue = useMemo(() => {
-        return state.investmentBaskets.flatMap(b => b.assets).reduce((sum, asset) => sum + asset.currentValue, 0);
-    }, [state.investmentBaskets]);
+        return sumMoney(state.investmentBaskets.flatMap(b => b.assets), asset => convert(asset.currentValue, asset.currency));
+    }, [state.investmentBaskets, convert]);
 
     const handleAddAsset = (basketId: string) => {
         setEditingAsset(null);
@@ -0,0 +1,145 @@
+import React, { useMemo, useState } from 'react';
+import { useFinancials } from '../context/FinancialContext';
+import { FinancialData } from '../types';
+import { MergeItem, MergeItemKind, MergeResolution, MERGE_COLLECTIONS, MERGE_ENTITIES, applyMerge, canKeepBoth, computeMergeItems, defaultResolution } from '../services/merge';
+import { ENTITY_LABELS, getChangedFields, getRecordName } from '../services/journal';
+import { isMoneyField } from '../services/money';
+import { useCurrency } from '../hooks/useCurrency';
+import { Card, CardHeader, CardTitle, CardContent } from './ui/Card';
+
+const kindStyles: Record<MergeItemKind, { label: string; className: string }> = {
+    new: { label: 'New', className: 'bg-success/10 text-success' },
+    changed: { label: 'Changed', className: 'bg-brand/10 text-brand' },
+    deleted: { label: 'Not in import', className: 'bg-danger/10 text-danger' },
+};
+
+const resolutionLabels = (item: MergeItem): Partial<Record<MergeResolution, string>> => {
+    switch (item.kind) {
+        case 'new': return { theirs: 'Add it', mine: 'Skip' };
+        case 'deleted': return { mine: 'Keep mine', theirs: 'Delete' };
+        default: return canKeepBoth(item)
+            ? { mine: 'Keep mine', theirs: 'Take theirs', both: 'Keep both' }
+            : { mine: 'Keep mine', theirs: 'Take theirs' };
+    }
+};
+
+const formatValue = (value: unknown) => {
+    if (value === undefined || value === null || value === '') return '—';
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+const MergeItemRow: React.FC<{ item: MergeItem; resolution: MergeResolution; onResolve: (resolution: MergeResolution) => void }> = ({ item, resolution, onResolve }) => {
+    const { formatCurrency } = useCurrency();
+    const name = getRecordName(item.theirs) || getRecordName(item.mine) || item.id;
+    const entity = MERGE_ENTITIES[item.collection];
+    const format = (field: string, value: unknown, currency: unknown) =>
+        typeof value === 'number' && isMoneyField(entity, field) ? formatCurrency(value, typeof currency === 'string' ? currency : undefined) : formatValue(value);
+    const fields = item.kind === 'changed'
+        ? getChangedFields({ entity, id: item.id, kind: 'updated', before: item.mine, after: item.theirs })
+        : [];
+    const options = resolutionLabels(item);
+
+    return (
+        <div className="py-3 border-t border-secondary first:border-t-0">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                <div className="flex items-center gap-2">
+                    <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${kindStyles[item.kind].className}`}>{kindStyles[item.kind].label}</span>
+                    <span className="font-medium text-text-primary">{name}</span>
+                    <span className="text-xs text-text-secondary">({item.id})</span>
+                </div>
+                <div className="flex space-x-1 p-1 bg-primary rounded-lg border border-secondary self-start">
+                    {(Object.keys(options) as MergeResolution[]).map(option => (
+                        <button
+                            key={option}
+                            onClick={() => onResolve(option)}
+                            className={`px-3 py-1 text-xs font-semibold rounded-md ${resolution === option ? 'bg-accent text-white' : 'text-text-secondary'}`}
+                        >
+                            {options[option]}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            {fields.length > 0 && (
+                <ul className="ml-2 mt-2 space-y-0.5 text-sm text-text-secondary">
+                    {fields.map(f => (
+                        <li key={f.field}>
+                            <span className="font-medium">{f.field}</span>: mine {format(f.field, f.before, item.mine?.currency)} &middot; theirs <span className="text-text-primary">{format(f.field, f.after, item.theirs?.currency)}</span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+const MergeImport: React.FC<{ incoming: FinancialData; onDone: () => void }> = ({ incoming, onDone }) => {
+    const { state, dispatch } = useFinancials();
+    const items = useMemo(() => computeMergeItems(state, incoming), [state, incoming]);
+    const [resolutions, setResolutions] = useState<Record<string, MergeResolution>>({});
+
+    const resolutionFor = (item: MergeItem) => resolutions[item.key] ?? defaultResolution(item);
+
+    const counts = useMemo(() => items.reduce((acc, item) => {
+        acc[item.kind] += 1;
+        return acc;
+    }, { new: 0, changed: 0, deleted: 0 } as Record<MergeItemKind, number>), [items]);
+
+    const setAll = (resolution: 'mine' | 'theirs') => {
+        setResolutions(Object.fromEntries(items.map(item => [item.key, resolution])));
+    };
+
+    const handleApply = () => {
+        dispatch({ type: 'SET_STATE', payload: applyMerge(state, items, resolutions) });
+        alert('Data merged successfully!');
+        onDone();
+    };
+
+    return (
+        <Card className="animate-fade-in">
+            <CardHeader>
+                <CardTitle>Review Merge</CardTitle>
+                <p className="text-sm text-text-secondary mt-1">
+                    {counts.new} new, {counts.changed} changed and {counts.deleted} missing from the imported file. Choose what to keep for each record.
+                </p>
+            </CardHeader>
+            <CardContent className="space-y-6">
+                {items.length === 0 && <p className="text-text-secondary">The imported file contains exactly the same data as this device.</p>}
+
+                {items.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                        <button onClick={() => setResolutions({})} className="px-3 py-1 text-sm bg-primary rounded-lg hover:bg-secondary/80">Suggested</button>
+                        <button onClick={() => setAll('mine')} className="px-3 py-1 text-sm bg-primary rounded-lg hover:bg-secondary/80">Keep all mine</button>
+                        <button onClick={() => setAll('theirs')} className="px-3 py-1 text-sm bg-primary rounded-lg hover:bg-secondary/80">Take all theirs</button>
+                    </div>
+                )}
+
+                {MERGE_COLLECTIONS.map(collection => {
+                    const collectionItems = items.filter(item => item.collection === collection);
+                    if (collectionItems.length === 0) return null;
+                    return (
+                        <div key={collection}>
+                            <h4 className="font-semibold text-text-primary mb-1">{ENTITY_LABELS[MERGE_ENTITIES[collection]]} ({collectionItems.length})</h4>
+                            <div className="max-h-80 overflow-y-auto">
+                                {collectionItems.map(item => (
+                                    <MergeItemRow
+                                        key={item.key}
+                                        item={item}
+                                        resolution={resolutionFor(item)}
+                                        onResolve={(resolution) => setResolutions(prev => ({ ...prev, [item.key]: resolution }))}
+                                    />
+                                ))}
+                            </div>
+                        </div>
+                    );
+                })}
+
+                <div className="flex justify-end space-x-3 pt-2">
+                    <button onClick={onDone} className="px-4 py-2 bg-primary rounded-lg hover:bg-secondary/80 transition-colors">Cancel</button>
+                    <button onClick={handleApply} disabled={items.length === 0} className="px-4 py-2 bg-accent rounded-lg hover:bg-accent-hover text-white font-semibold transition-colors disabled:bg-primary disabled:text-text-secondary">Apply Merge</button>
+                </div>
+            </CardContent>
+        </Card>
+    );
+};
+
+export default MergeImport;
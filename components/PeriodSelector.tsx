@@ -0,0 +1,59 @@
+import React from 'react';
+import { usePeriod } from '../context/PeriodContext';
+import { useSettings } from '../context/SettingsContext';
+import { PERIOD_KINDS, PeriodKind, getCustomPeriod, getPeriod, isInPeriod, stepPeriod, toDateKey } from '../services/periods';
+import { Icons } from './ui/Icons';
+
+const dateInputClassName = 'bg-background p-1.5 text-sm rounded-md focus:outline-none focus:ring-2 focus:ring-brand border border-secondary';
+
+const PeriodSelector: React.FC = () => {
+    const { period, periodLabel, setPeriod } = usePeriod();
+    const { weekStartsOn } = useSettings().settings;
+    const today = toDateKey(new Date());
+
+    // Switching kind keeps the part of the calendar being looked at.
+    const handleKindChange = (kind: PeriodKind) => {
+        if (kind === period.kind) return;
+        setPeriod(kind === 'custom' ? { ...period, kind } : getPeriod(kind, new Date(`${period.start}T00:00:00`), weekStartsOn));
+    };
+
+    const handleToday = () => setPeriod(period.kind === 'custom' ? getPeriod('month') : getPeriod(period.kind, new Date(), weekStartsOn));
+
+    return (
+        <div className="flex flex-col lg:flex-row lg:items-center gap-3 p-3 bg-surface rounded-xl border border-secondary">
+            <div className="flex space-x-1 p-1 bg-primary rounded-lg border border-secondary self-start">
+                {PERIOD_KINDS.map(option => (
+                    <button
+                        key={option.kind}
+                        onClick={() => handleKindChange(option.kind)}
+                        className={`px-3 py-1 text-sm font-semibold rounded-md ${period.kind === option.kind ? 'bg-accent text-white' : 'text-text-secondary'}`}
+                    >
+                        {option.label}
+                    </button>
+                ))}
+            </div>
+            <div className="flex items-center flex-1 min-w-0">
+                <button onClick={() => setPeriod(stepPeriod(period, -1))} aria-label="Previous period" className="p-2 rounded-lg text-text-secondary hover:bg-primary hover:text-text-primary">
+                    <Icons.ChevronLeft className="w-5 h-5" />
+                </button>
+                {period.kind === 'custom' ? (
+                    <div className="flex items-center space-x-2">
+                        <input type="date" aria-label="From" value={period.start} onChange={(e) => e.target.value && setPeriod(getCustomPeriod(e.target.value, period.end))} className={dateInputClassName} />
+                        <span className="text-text-secondary">to</span>
+                        <input type="date" aria-label="To" value={period.end} onChange={(e) => e.target.value && setPeriod(getCustomPeriod(period.start, e.target.value))} className={dateInputClassName} />
+                    </div>
+                ) : (
+                    <span className="px-2 font-semibold text-text-primary truncate">{periodLabel}</span>
+                )}
+                <button onClick={() => setPeriod(stepPeriod(period, 1))} aria-label="Next period" className="p-2 rounded-lg text-text-secondary hover:bg-primary hover:text-text-primary">
+                    <Icons.ChevronRight className="w-5 h-5" />
+                </button>
+                {!isInPeriod(today, period) && (
+                    <button onClick={handleToday} className="ml-2 px-3 py-1 text-sm bg-primary rounded-lg hover:bg-secondary/80 transition-colors">Today</button>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default PeriodSelector;
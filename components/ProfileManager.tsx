@@ -0,0 +1,180 @@
+import React, { useEffect, useState } from 'react';
+import { useProfiles } from '../context/ProfileContext';
+import { useSettings } from '../context/SettingsContext';
+import { FinancialData, Profile } from '../types';
+import { ProfileExport, checkProfileExportVersion, isProfileExport } from '../services/profiles';
+import { migrateFinancialData } from '../services/migrations';
+import { validateFinancialData } from '../services/validation';
+import { downloadFile } from '../services/download';
+import { Card, CardHeader, CardTitle, CardContent } from './ui/Card';
+import { Icons } from './ui/Icons';
+import ImportValidation from './ImportValidation';
+
+const inputClassName = 'w-full bg-background p-2 rounded-md focus:outline-none focus:ring-2 focus:ring-brand border border-secondary';
+
+const fileSlug = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') || 'profile';
+
+const ProfileManager: React.FC = () => {
+    const { profiles, activeProfile, switchProfile, createProfile, renameProfile, deleteProfile, exportProfile, importProfile } = useProfiles();
+    const { settings, updateSettings } = useSettings();
+    const [profileName, setProfileName] = useState(activeProfile.name);
+    const [newProfileName, setNewProfileName] = useState('');
+    const [pendingImport, setPendingImport] = useState<{ bundle: ProfileExport; data: FinancialData } | null>(null);
+
+    useEffect(() => {
+        setProfileName(activeProfile.name);
+    }, [activeProfile.name]);
+
+    const handleRename = () => {
+        const name = profileName.trim();
+        if (name && name !== activeProfile.name) {
+            renameProfile(activeProfile.id, name);
+        } else {
+            setProfileName(activeProfile.name);
+        }
+    };
+
+    const handleCreate = (e: React.FormEvent) => {
+        e.preventDefault();
+        const name = newProfileName.trim();
+        if (!name) return;
+        const profile = createProfile(name);
+        setNewProfileName('');
+        if (window.confirm(`Profile "${name}" created. Switch to it now?`)) {
+            switchProfile(profile.id);
+        }
+    };
+
+    const handleExport = async (profile: Profile) => {
+        try {
+            const bundle = await exportProfile(profile.id);
+            downloadFile(JSON.stringify(bundle, null, 2), `wavefinances_profile_${fileSlug(profile.name)}.json`, 'application/json');
+        } catch (error) {
+            console.error(error);
+            alert(error instanceof Error ? error.message : 'Could not export the profile.');
+        }
+    };
+
+    const handleDelete = async (profile: Profile) => {
+        if (!window.confirm(`Delete the profile "${profile.name}" with all its data, restore points and settings? This cannot be undone.`)) return;
+        try {
+            await deleteProfile(profile.id);
+        } catch (error) {
+            console.error(error);
+            alert(error instanceof Error ? error.message : 'Could not delete the profile.');
+        }
+    };
+
+    const finishImport = async (bundle: ProfileExport, data: FinancialData) => {
+        setPendingImport(null);
+        try {
+            const profile = await importProfile(bundle, data);
+            if (window.confirm(`Profile "${profile.name}" imported. Switch to it now?`)) {
+                switchProfile(profile.id);
+            }
+        } catch (error) {
+            console.error(error);
+            alert(error instanceof Error ? error.message : 'Could not import the profile.');
+        }
+    };
+
+    const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (file) {
+            const reader = new FileReader();
+            reader.onload = (e) => {
+                try {
+                    const json = JSON.parse(e.target?.result as string);
+                    if (!isProfileExport(json)) {
+                        alert('This is not a profile export. To load a backup into the current profile, use Sync & Backup.');
+                        return;
+                    }
+                    checkProfileExportVersion(json);
+                    const data = migrateFinancialData(json.data);
+                    if (validateFinancialData(data).issues.length > 0) {
+                        setPendingImport({ bundle: json, data });
+                    } else {
+                        finishImport(json, data);
+                    }
+                } catch (error) {
+                    alert(error instanceof SyntaxError || !(error instanceof Error) ? 'Error reading file.' : error.message);
+                }
+            };
+            reader.readAsText(file);
+        }
+        event.target.value = '';
+    };
+
+    return (
+        <>
+            <Card>
+                <CardHeader>
+                    <CardTitle className="flex items-center">
+                        <Icons.Savings className="w-5 h-5 mr-2 text-brand" />
+                        Profiles
+                    </CardTitle>
+                    <p className="text-sm text-text-secondary mt-1">
+                        Keep separate books, e.g. for your personal finances and a side business. Every profile has its own data, settings and API key.
+                    </p>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <div>
+                            <label htmlFor="profile-name" className="block text-sm font-medium text-text-secondary mb-1">Profile name</label>
+                            <input id="profile-name" value={profileName} onChange={(e) => setProfileName(e.target.value)} onBlur={handleRename} className={inputClassName} />
+                        </div>
+                        <div>
+                            <label htmlFor="display-name" className="block text-sm font-medium text-text-secondary mb-1">Your name (for the dashboard greeting)</label>
+                            <input id="display-name" value={settings.displayName} onChange={(e) => updateSettings({ displayName: e.target.value })} className={inputClassName} />
+                        </div>
+                    </div>
+
+                    <div>
+                        {profiles.map(profile => (
+                            <div key={profile.id} className="py-3 border-t border-secondary first:border-t-0 flex items-center justify-between gap-2">
+                                <div className="flex items-center gap-2">
+                                    <span className="font-medium text-text-primary">{profile.name}</span>
+                                    {profile.id === activeProfile.id && <span className="text-xs font-semibold px-2 py-0.5 rounded-full bg-success/10 text-success">Active</span>}
+                                </div>
+                                <div className="flex items-center space-x-2">
+                                    {profile.id !== activeProfile.id && (
+                                        <button onClick={() => switchProfile(profile.id)} className="text-xs bg-primary px-3 py-1 rounded hover:bg-accent hover:text-white">Switch</button>
+                                    )}
+                                    <button onClick={() => handleExport(profile)} className="text-xs bg-primary px-3 py-1 rounded hover:bg-accent hover:text-white">Export</button>
+                                    {profile.id !== activeProfile.id && (
+                                        <button onClick={() => handleDelete(profile)} title="Delete profile" className="p-1 text-text-secondary hover:text-danger">
+                                            <Icons.Trash className="w-4 h-4" />
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="flex flex-col sm:flex-row gap-3">
+                        <form onSubmit={handleCreate} className="flex flex-1 space-x-2">
+                            <input placeholder="New profile name" value={newProfileName} onChange={(e) => setNewProfileName(e.target.value)} className={inputClassName} />
+                            <button type="submit" disabled={!newProfileName.trim()} className="flex-shrink-0 px-4 py-2 bg-accent text-white font-semibold rounded-lg hover:bg-accent-hover transition-colors disabled:bg-primary disabled:text-text-secondary">
+                                Add Profile
+                            </button>
+                        </form>
+                        <label htmlFor="profile-import" className="flex-shrink-0 cursor-pointer flex items-center justify-center px-4 py-2 bg-primary rounded-lg hover:bg-secondary/80 font-semibold transition-colors">
+                            <Icons.Upload className="w-4 h-4 mr-2" />
+                            Import Profile
+                        </label>
+                        <input id="profile-import" type="file" accept=".json" onChange={handleImport} className="hidden" />
+                    </div>
+                </CardContent>
+            </Card>
+            {pendingImport && (
+                <ImportValidation
+                    data={pendingImport.data}
+                    onContinue={(data) => finishImport(pendingImport.bundle, data)}
+                    onAbort={() => setPendingImport(null)}
+                />
+            )}
+        </>
+    );
+};
+
+export default ProfileManager;
@@ -0,0 +1,22 @@
+import React from 'react';
+import { useProfiles } from '../context/ProfileContext';
+
+const ProfileSwitcher: React.FC<{ className?: string }> = ({ className = '' }) => {
+    const { profiles, activeProfile, switchProfile } = useProfiles();
+
+    return (
+        <select
+            aria-label="Profile"
+            title="Switch profile"
+            value={activeProfile.id}
+            onChange={(e) => switchProfile(e.target.value)}
+            className={`bg-primary text-sm font-medium text-text-primary p-2 rounded-lg border border-secondary focus:outline-none focus:ring-2 focus:ring-brand ${className}`}
+        >
+            {profiles.map(profile => (
+                <option key={profile.id} value={profile.id}>{profile.name}</option>
+            ))}
+        </select>
+    );
+};
+
+export default ProfileSwitcher;
@@ -1,20 +1,25 @@
 
 import React, { useState, useMemo } from 'react';
 import { useFinancials } from '../context/FinancialContext';
-import { Purchase, PurchaseStatus, ExpenseCategory, ExpenseMode } from '../types';
+import { Purchase, PurchaseStatus, ExpenseMode } from '../types';
+import { categoryPath, defaultCategoryId } from '../services/categories';
+import { CategorySelect } from './ui/CategorySelect';
 import { Card, CardHeader, CardTitle, CardContent } from './ui/Card';
 import { Icons } from './ui/Icons';
+import { useCurrency } from '../hooks/useCurrency';
+import { useFormatter } from '../hooks/useFormatter';
 import { DndProvider, useDrag, useDrop } from 'react-dnd';
 import { HTML5Backend } from 'react-dnd-html5-backend';
 
 
-const formatCurrency = (value: number) => `€${value.toLocaleString('de-DE', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
-
 const ItemTypes = {
   PURCHASE: 'purchase',
 };
 
 const PurchaseCard: React.FC<{ purchase: Purchase }> = ({ purchase }) => {
+  const { state } = useFinancials();
+  const { formatCurrency } = useCurrency();
+  const formatter = useFormatter();
   const [{ isDragging }, drag] = useDrag(() => ({
     type: ItemTypes.PURCHASE,
     item: purchase,
@@ -33,8 +38,8 @@ const PurchaseCard: React.FC<{ purchase: Purchase }> = ({ purchase }) => {
                 </div>
                 <p className="text-sm text-text-secondary italic mt-2 mb-3">"{purchase.justification}"</p>
                 <div className="text-xs text-text-secondary flex justify-between items-center">
-                    <span>{purchase.category}</span>
-                    <span>Added: {new Date(purchase.dateAdded).toLocaleDateString()}</span>
+                    <span>{categoryPath(state.categories, purchase.category)}</span>
+                    <span>Added: {formatter.date(purchase.dateAdded)}</span>
                 </div>
             </CardContent>
         </Card>
@@ -45,6 +50,7 @@ const PurchaseCard: React.FC<{ purchase: Purchase }> = ({ purchase }) => {
 
 const StatusColumn: React.FC<{ status: PurchaseStatus; children: React.ReactNode }> = ({ status, children }) => {
     const { dispatch } = useFinancials();
+    const { baseCurrency } = useCurrency();
     
     const [{ isOver }, drop] = useDrop(() => ({
         accept: ItemTypes.PURCHASE,
@@ -52,24 +58,20 @@ const StatusColumn: React.FC<{ status: PurchaseStatus; children: React.ReactNode
         collect: (monitor) => ({
             isOver: !!monitor.isOver(),
         }),
-    }));
+    }), [baseCurrency]);
 
     const handleDrop = (purchase: Purchase) => {
-        dispatch({ type: 'UPDATE_PURCHASE_STATUS', payload: { id: purchase.id, status } });
-
-        if (status === PurchaseStatus.Purchased) {
-             dispatch({
-                type: 'ADD_EXPENSE',
-                payload: {
-                    id: `exp-from-pur-${purchase.id}`,
-                    date: new Date().toISOString().split('T')[0],
-                    category: purchase.category,
-                    amount: purchase.cost,
-                    description: purchase.name,
-                    mode: ExpenseMode.Growth, // Defaulting to growth, could be made configurable
-                }
-            });
-        }
+        const expense = status === PurchaseStatus.Purchased ? {
+            id: `exp-from-pur-${purchase.id}`,
+            date: new Date().toISOString().split('T')[0],
+            category: purchase.category,
+            amount: purchase.cost,
+            description: purchase.name,
+            mode: ExpenseMode.Growth, // Defaulting to growth, could be made configurable
+            currency: baseCurrency, // Purchase ideas are priced in the base currency
+        } : undefined;
+
+        dispatch({ type: 'UPDATE_PURCHASE_STATUS', payload: { id: purchase.id, status, expense } });
     };
 
     const getStatusColor = () => {
@@ -95,15 +97,19 @@ const StatusColumn: React.FC<{ status: PurchaseStatus; children: React.ReactNode
 };
 
 const AddPurchaseForm: React.FC<{ onSave: (data: Omit<Purchase, 'id' | 'status' | 'dateAdded'>) => void, onCancel: () => void }> = ({ onSave, onCancel }) => {
+    const { state } = useFinancials();
+    const { baseCurrency } = useCurrency();
+    const formatter = useFormatter();
     const [name, setName] = useState('');
     const [cost, setCost] = useState('');
-    const [category, setCategory] = useState<ExpenseCategory>(ExpenseCategory.Personal);
+    const [category, setCategory] = useState(() => defaultCategoryId(state.categories, 'cat-personal'));
     const [justification, setJustification] = useState('');
 
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
-        if (name && justification && !isNaN(parseFloat(cost))) {
-            onSave({ name, cost: parseFloat(cost), category, justification });
+        const parsedCost = formatter.parseMoney(cost);
+        if (name && justification && parsedCost !== null) {
+            onSave({ name, cost: parsedCost, category, justification });
         } else {
             alert('Please fill all fields with valid data.');
         }
@@ -120,14 +126,12 @@ const AddPurchaseForm: React.FC<{ onSave: (data: Omit<Purchase, 'id' | 'status'
                             <input type="text" placeholder="e.g., New MacBook Pro" value={name} onChange={e => setName(e.target.value)} className="w-full bg-background p-2 rounded-md border border-secondary" required />
                         </div>
                         <div className="space-y-1">
-                            <label className="text-sm font-medium">Estimated Cost (€)</label>
-                            <input type="number" placeholder="2500" value={cost} onChange={e => setCost(e.target.value)} className="w-full bg-background p-2 rounded-md border border-secondary" required />
+                            <label className="text-sm font-medium">Estimated Cost ({baseCurrency})</label>
+                            <input type="text" inputMode="decimal" placeholder="2500" value={cost} onChange={e => setCost(e.target.value)} className="w-full bg-background p-2 rounded-md border border-secondary" required />
                         </div>
                         <div className="space-y-1">
                             <label className="text-sm font-medium">Category</label>
-                            <select value={category} onChange={e => setCategory(e.target.value as ExpenseCategory)} className="w-full bg-background p-2 rounded-md border border-secondary">
-                                {Object.values(ExpenseCategory).map(c => <option key={c} value={c}>{c}</option>)}
-                            </select>
+                            <CategorySelect value={category} onChange={setCategory} className="w-full bg-background p-2 rounded-md border border-secondary" />
                         </div>
                     </div>
                     <div className="space-y-1">
@@ -0,0 +1,216 @@
+import React, { useEffect, useRef, useState } from 'react';
+import QRCode from 'qrcode';
+import jsQR from 'jsqr';
+import { useFinancials } from '../context/FinancialContext';
+import { TransferProgress, addFrame, decodeTransfer, encodeTransfer, isTransferComplete, isTransferEncrypted, parseFrame } from '../services/qrTransfer';
+import { Card, CardHeader, CardTitle, CardContent } from './ui/Card';
+import { Icons } from './ui/Icons';
+
+const FRAME_INTERVAL_MS = 250;
+const inputClassName = 'w-full bg-background p-2 rounded-md focus:outline-none focus:ring-2 focus:ring-brand border border-secondary';
+
+const QrSender: React.FC = () => {
+    const { state } = useFinancials();
+    const [encrypt, setEncrypt] = useState(false);
+    const [passphrase, setPassphrase] = useState('');
+    const [images, setImages] = useState<string[] | null>(null);
+    const [frameIndex, setFrameIndex] = useState(0);
+    const [isEncoding, setIsEncoding] = useState(false);
+
+    useEffect(() => {
+        if (!images || images.length < 2) return;
+        const interval = setInterval(() => setFrameIndex(i => (i + 1) % images.length), FRAME_INTERVAL_MS);
+        return () => clearInterval(interval);
+    }, [images]);
+
+    const handleStart = async () => {
+        if (encrypt && passphrase.length < 8) {
+            alert('Please use a passphrase of at least 8 characters.');
+            return;
+        }
+        setIsEncoding(true);
+        try {
+            const frames = await encodeTransfer(JSON.stringify(state), encrypt ? passphrase : '');
+            setImages(await Promise.all(frames.map(frame => QRCode.toDataURL(frame, { errorCorrectionLevel: 'M', margin: 2, width: 360 }))));
+            setFrameIndex(0);
+        } catch (error) {
+            console.error(error);
+            alert('Could not create the QR codes.');
+        } finally {
+            setIsEncoding(false);
+        }
+    };
+
+    if (images) {
+        return (
+            <div className="flex flex-col items-center space-y-3">
+                <img src={images[frameIndex]} alt={`QR code ${frameIndex + 1} of ${images.length}`} className="w-72 h-72 bg-white rounded-lg" />
+                <p className="text-sm text-text-secondary">Code {frameIndex + 1} of {images.length}. Keep the codes on screen until the other device has all of them.</p>
+                <button onClick={() => setImages(null)} className="px-4 py-2 bg-primary rounded-lg hover:bg-secondary/80 transition-colors">Stop</button>
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-3">
+            <label className="flex items-center space-x-2 text-sm font-medium text-text-secondary cursor-pointer">
+                <input type="checkbox" checked={encrypt} onChange={(e) => setEncrypt(e.target.checked)} />
+                <span>Encrypt with a passphrase (recommended in public places)</span>
+            </label>
+            {encrypt && (
+                <input type="password" placeholder="Passphrase" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} autoComplete="new-password" className={inputClassName} />
+            )}
+            <button onClick={handleStart} disabled={isEncoding} className="w-full px-4 py-3 bg-accent text-white font-semibold rounded-lg hover:bg-accent-hover transition-colors disabled:bg-primary disabled:text-text-secondary">
+                {isEncoding ? 'Preparing...' : 'Show QR Codes'}
+            </button>
+        </div>
+    );
+};
+
+const QrReceiver: React.FC<{ onReceive: (json: unknown) => void }> = ({ onReceive }) => {
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const [progress, setProgress] = useState<TransferProgress | null>(null);
+    const [cameraError, setCameraError] = useState<string | null>(null);
+    const [passphrase, setPassphrase] = useState('');
+    const [isDecoding, setIsDecoding] = useState(false);
+    const complete = isTransferComplete(progress);
+
+    useEffect(() => {
+        if (complete) return;
+        let stream: MediaStream | null = null;
+        let frameRequest = 0;
+        let stopped = false;
+        const canvas = document.createElement('canvas');
+        const context = canvas.getContext('2d', { willReadFrequently: true });
+
+        const scan = () => {
+            const video = videoRef.current;
+            if (stopped || !video || !context) return;
+            if (video.readyState === video.HAVE_ENOUGH_DATA) {
+                canvas.width = video.videoWidth;
+                canvas.height = video.videoHeight;
+                context.drawImage(video, 0, 0, canvas.width, canvas.height);
+                const image = context.getImageData(0, 0, canvas.width, canvas.height);
+                const code = jsQR(image.data, image.width, image.height, { inversionAttempts: 'dontInvert' });
+                const frame = code && parseFrame(code.data);
+                if (frame) setProgress(prev => addFrame(prev, frame));
+            }
+            frameRequest = requestAnimationFrame(scan);
+        };
+
+        navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } })
+            .then(mediaStream => {
+                stream = mediaStream;
+                if (stopped || !videoRef.current) {
+                    mediaStream.getTracks().forEach(track => track.stop());
+                    return;
+                }
+                videoRef.current.srcObject = mediaStream;
+                videoRef.current.play().catch(error => console.error(error));
+                frameRequest = requestAnimationFrame(scan);
+            })
+            .catch(error => {
+                console.error(error);
+                setCameraError('The camera could not be started. Allow camera access, and open the app over https or on localhost.');
+            });
+
+        return () => {
+            stopped = true;
+            cancelAnimationFrame(frameRequest);
+            stream?.getTracks().forEach(track => track.stop());
+        };
+    }, [complete]);
+
+    const finish = async (e?: React.FormEvent) => {
+        e?.preventDefault();
+        if (!isTransferComplete(progress)) return;
+        setIsDecoding(true);
+        try {
+            const json = JSON.parse(await decodeTransfer(progress, passphrase));
+            setProgress(null);
+            onReceive(json);
+        } catch (error) {
+            alert(error instanceof SyntaxError || !(error instanceof Error) ? 'The scanned data is damaged. Please scan the codes again.' : error.message);
+            // A wrong passphrase can be retried; anything else needs a fresh scan.
+            if (!isTransferEncrypted(progress)) setProgress(null);
+        } finally {
+            setIsDecoding(false);
+        }
+    };
+
+    // Unencrypted transfers are imported as soon as the last code is in.
+    useEffect(() => {
+        if (isTransferComplete(progress) && !isTransferEncrypted(progress)) finish();
+    }, [complete]);
+
+    if (cameraError) {
+        return <p className="text-sm text-danger">{cameraError}</p>;
+    }
+
+    if (complete && isTransferEncrypted(progress)) {
+        return (
+            <form onSubmit={finish} className="space-y-3">
+                <p className="text-sm font-medium text-text-primary">All codes received. The data is encrypted; enter its passphrase.</p>
+                <input type="password" autoFocus placeholder="Passphrase" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} className={inputClassName} />
+                <div className="flex justify-end space-x-3">
+                    <button type="button" onClick={() => setProgress(null)} className="px-4 py-2 bg-primary rounded-lg hover:bg-secondary/80 transition-colors">Scan Again</button>
+                    <button type="submit" disabled={isDecoding || !passphrase} className="px-4 py-2 bg-accent rounded-lg hover:bg-accent-hover text-white font-semibold transition-colors disabled:bg-primary disabled:text-text-secondary">
+                        {isDecoding ? 'Decrypting...' : 'Decrypt & Import'}
+                    </button>
+                </div>
+            </form>
+        );
+    }
+
+    return (
+        <div className="space-y-3">
+            <video ref={videoRef} muted playsInline className="w-full max-h-72 bg-background rounded-lg object-cover" />
+            <div className="w-full bg-primary rounded-full h-2">
+                <div className="bg-accent h-2 rounded-full transition-all" style={{ width: `${progress ? (progress.received / progress.chunks.length) * 100 : 0}%` }} />
+            </div>
+            <p className="text-sm text-text-secondary">
+                {progress ? `${progress.received} of ${progress.chunks.length} codes scanned` : 'Point the camera at the QR codes on the other device.'}
+            </p>
+        </div>
+    );
+};
+
+// `onReceive` gets the parsed export, to be validated and imported like a backup file.
+const QrTransfer: React.FC<{ onReceive: (json: unknown) => void }> = ({ onReceive }) => {
+    const [mode, setMode] = useState<'idle' | 'send' | 'receive'>('idle');
+
+    return (
+        <Card>
+            <CardHeader>
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                    <CardTitle className="flex items-center">
+                        <Icons.Sync className="w-5 h-5 mr-2" />
+                        Transfer With QR Codes
+                    </CardTitle>
+                    <div className="flex space-x-1 p-1 bg-primary rounded-lg border border-secondary self-start">
+                        {(['send', 'receive'] as const).map(option => (
+                            <button
+                                key={option}
+                                onClick={() => setMode(mode === option ? 'idle' : option)}
+                                className={`px-3 py-1 text-sm font-semibold rounded-md ${mode === option ? 'bg-accent text-white' : 'text-text-secondary'}`}
+                            >
+                                {option === 'send' ? 'Send from this device' : 'Receive on this device'}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                <p className="text-sm text-text-secondary mt-1">
+                    Move your data to a phone without a file: this device shows a sequence of QR codes and the other one scans them with its camera.
+                    Nothing leaves the two devices.
+                </p>
+            </CardHeader>
+            {mode !== 'idle' && (
+                <CardContent>
+                    {mode === 'send' ? <QrSender /> : <QrReceiver onReceive={(json) => { setMode('idle'); onReceive(json); }} />}
+                </CardContent>
+            )}
+        </Card>
+    );
+};
+
+export default QrTransfer;
@@ -0,0 +1,138 @@
+import React, { useEffect, useState } from 'react';
+import { useFinancials } from '../context/FinancialContext';
+import { useSettings } from '../context/SettingsContext';
+import { AppSettings, Snapshot, SnapshotKind } from '../types';
+import { SNAPSHOT_KIND_LABELS, summarizeSnapshot } from '../services/snapshots';
+import { Card, CardHeader, CardTitle, CardContent } from './ui/Card';
+import { Icons } from './ui/Icons';
+import { useCurrency } from '../hooks/useCurrency';
+import { useFormatter } from '../hooks/useFormatter';
+
+const kindStyles: Record<SnapshotKind, string> = {
+    daily: 'bg-brand/10 text-brand',
+    weekly: 'bg-success/10 text-success',
+    'pre-import': 'bg-warning/10 text-warning',
+    manual: 'bg-primary text-text-secondary',
+};
+
+const RETENTION_KINDS = Object.keys(SNAPSHOT_KIND_LABELS).filter(k => k !== 'manual') as (keyof AppSettings['snapshotRetention'])[];
+
+const RestorePoints: React.FC = () => {
+    const { dispatch, readSnapshots, createRestorePoint, deleteSnapshot, snapshotRevision } = useFinancials();
+    const { settings, updateSettings } = useSettings();
+    const { baseCurrency, formatCurrency } = useCurrency();
+    const formatter = useFormatter();
+    const [snapshots, setSnapshots] = useState<Snapshot[] | null>(null);
+    const [isCreating, setIsCreating] = useState(false);
+
+    useEffect(() => {
+        let cancelled = false;
+        readSnapshots()
+            .then(result => { if (!cancelled) setSnapshots(result); })
+            .catch(error => {
+                console.error(error);
+                if (!cancelled) setSnapshots([]);
+            });
+        return () => { cancelled = true; };
+    }, [readSnapshots, snapshotRevision]);
+
+    const handleCreate = async () => {
+        setIsCreating(true);
+        try {
+            await createRestorePoint();
+        } catch (error) {
+            console.error(error);
+            alert('Could not create the restore point. The browser storage may be full.');
+        } finally {
+            setIsCreating(false);
+        }
+    };
+
+    const handleRestore = (snapshot: Snapshot) => {
+        const when = formatter.dateTime(snapshot.createdAt);
+        if (window.confirm(`Restore your data as it was on ${when}? Your current data is saved as a restore point first.`)) {
+            dispatch({ type: 'SET_STATE', payload: snapshot.data });
+            alert('Restore point applied.');
+        }
+    };
+
+    const handleDelete = (snapshot: Snapshot) => {
+        if (window.confirm('Delete this restore point?')) {
+            deleteSnapshot(snapshot.id).catch(error => console.error(error));
+        }
+    };
+
+    const handleRetentionChange = (kind: keyof AppSettings['snapshotRetention'], value: string) => {
+        const count = parseInt(value, 10);
+        if (isNaN(count) || count < 0) return;
+        updateSettings({ snapshotRetention: { ...settings.snapshotRetention, [kind]: count } });
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                    <CardTitle className="flex items-center">
+                        <Icons.Activity className="w-5 h-5 mr-2" />
+                        Restore Points
+                    </CardTitle>
+                    <button onClick={handleCreate} disabled={isCreating} className="px-4 py-2 text-sm bg-primary rounded-lg hover:bg-secondary/80 font-semibold transition-colors disabled:text-text-secondary">
+                        {isCreating ? 'Saving...' : 'Create Restore Point Now'}
+                    </button>
+                </div>
+                <p className="text-sm text-text-secondary mt-1">
+                    A copy of your data is kept automatically every day, every week and right before an import replaces it. Restore points stay on this device.
+                </p>
+            </CardHeader>
+            <CardContent className="space-y-6">
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                    {RETENTION_KINDS.map(kind => (
+                        <div key={kind}>
+                            <label htmlFor={`retention-${kind}`} className="block text-sm font-medium text-text-secondary mb-1">Keep {SNAPSHOT_KIND_LABELS[kind].toLowerCase()}</label>
+                            <input
+                                id={`retention-${kind}`}
+                                type="number"
+                                min="0"
+                                value={settings.snapshotRetention[kind]}
+                                onChange={(e) => handleRetentionChange(kind, e.target.value)}
+                                className="w-full bg-surface p-2 rounded-md focus:outline-none focus:ring-2 focus:ring-brand border border-secondary"
+                            />
+                        </div>
+                    ))}
+                </div>
+
+                {snapshots === null && <p className="text-text-secondary animate-pulse">Loading restore points...</p>}
+                {snapshots?.length === 0 && <p className="text-text-secondary">No restore points yet.</p>}
+                {snapshots && snapshots.length > 0 && (
+                    <div className="max-h-96 overflow-y-auto">
+                        {snapshots.map(snapshot => {
+                            const summary = summarizeSnapshot(snapshot.data, baseCurrency);
+                            return (
+                                <div key={snapshot.id} className="py-3 border-t border-secondary first:border-t-0 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                                    <div>
+                                        <div className="flex items-center gap-2">
+                                            <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${kindStyles[snapshot.kind]}`}>{SNAPSHOT_KIND_LABELS[snapshot.kind]}</span>
+                                            <span className="font-medium text-text-primary">{formatter.dateTime(snapshot.createdAt)}</span>
+                                        </div>
+                                        <p className="text-sm text-text-secondary mt-1">
+                                            Net worth {formatCurrency(summary.netWorth)} &middot; {summary.counts.expenses} expenses, {summary.counts.income} income,{' '}
+                                            {summary.counts.debts} debts, {summary.counts.assets} assets, {summary.counts.purchases} purchases
+                                        </p>
+                                    </div>
+                                    <div className="flex space-x-2 self-start sm:self-center">
+                                        <button onClick={() => handleRestore(snapshot)} className="text-xs bg-primary px-3 py-1 rounded hover:bg-accent hover:text-white">Restore</button>
+                                        <button onClick={() => handleDelete(snapshot)} title="Delete restore point" className="p-1 text-text-secondary hover:text-danger">
+                                            <Icons.Trash className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+};
+
+export default RestorePoints;
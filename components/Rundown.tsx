@@ -1,5 +1,6 @@
 import React, { useState, useCallback } from 'react';
 import { useFinancials } from '../context/FinancialContext';
+import { useCurrency } from '../hooks/useCurrency';
 import { getFinancialRundown } from '../services/geminiService';
 import { Card, CardHeader, CardTitle, CardContent } from './ui/Card';
 import { Icons } from './ui/Icons';
@@ -28,6 +29,7 @@ const FormattedResponse: React.FC<{ content: string }> = ({ content }) => {
 
 const Rundown: React.FC = () => {
     const { state } = useFinancials();
+    const { baseCurrency } = useCurrency();
     const [months, setMonths] = useState<number>(24);
     const [forecast, setForecast] = useState<string>('');
     const [isLoading, setIsLoading] = useState<boolean>(false);
@@ -38,7 +40,7 @@ const Rundown: React.FC = () => {
         setError('');
         setForecast('');
         try {
-            const result = await getFinancialRundown(state, months);
+            const result = await getFinancialRundown(state, months, baseCurrency);
             if(result.toLowerCase().includes("error") || result.toLowerCase().includes("api key")) {
                 setError(result);
             } else {
@@ -50,7 +52,7 @@ const Rundown: React.FC = () => {
         } finally {
             setIsLoading(false);
         }
-    }, [state, months]);
+    }, [state, months, baseCurrency]);
 
     return (
         <div className="space-y-6 animate-fade-in">
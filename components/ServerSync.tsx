@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { useFinancials } from '../context/FinancialContext';
+import { useSettings } from '../context/SettingsContext';
+import { useProfileKey } from '../context/ProfileContext';
+import { useLocalStorage } from '../hooks/useLocalStorage';
+import { useFormatter } from '../hooks/useFormatter';
+import { deriveSyncKeys } from '../services/crypto';
+import { SyncState, createVaultId, syncWithServer } from '../services/syncClient';
+import { Card, CardHeader, CardTitle, CardContent } from './ui/Card';
+import { Icons } from './ui/Icons';
+
+interface SyncReport {
+    finishedAt: string;
+    pulled: number;
+    pushed: number;
+    conflicts: number;
+}
+
+const inputClassName = 'w-full bg-surface p-2 rounded-md focus:outline-none focus:ring-2 focus:ring-brand border border-secondary';
+
+const ServerSync: React.FC = () => {
+    const { state, dispatch } = useFinancials();
+    const { settings, updateSettings } = useSettings();
+    const formatter = useFormatter();
+    const [syncState, setSyncState] = useLocalStorage<SyncState | null>(useProfileKey('syncState'), null);
+    // The passphrase is never stored; it has to be entered again after a reload.
+    const [passphrase, setPassphrase] = useState('');
+    const [isSyncing, setIsSyncing] = useState(false);
+    const [report, setReport] = useState<SyncReport | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleGenerateCode = () => {
+        if (settings.syncVaultId && !window.confirm('Start a new sync code? Devices using the current code will no longer sync with this one.')) return;
+        updateSettings({ syncVaultId: createVaultId() });
+        setSyncState(null);
+    };
+
+    const handleCopyCode = () => {
+        navigator.clipboard.writeText(settings.syncVaultId).catch(err => console.error(err));
+    };
+
+    const handleSync = async () => {
+        setIsSyncing(true);
+        setError(null);
+        try {
+            const keys = await deriveSyncKeys(passphrase, settings.syncVaultId);
+            const result = await syncWithServer(settings.syncServerUrl, settings.syncVaultId, keys, state, syncState);
+            if (result.data) {
+                dispatch({ type: 'APPLY_SYNC', payload: { base: state, data: result.data } });
+            }
+            setSyncState(result.state);
+            setReport({ finishedAt: new Date().toISOString(), pulled: result.pulled, pushed: result.pushed, conflicts: result.conflicts });
+        } catch (err) {
+            console.error(err);
+            setError(err instanceof Error ? err.message : 'Sync failed.');
+        } finally {
+            setIsSyncing(false);
+        }
+    };
+
+    const canSync = !!settings.syncServerUrl && !!settings.syncVaultId && !!passphrase && !isSyncing;
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center">
+                    <Icons.Sync className="w-5 h-5 mr-2" />
+                    Sync Between Devices
+                </CardTitle>
+                <p className="text-sm text-text-secondary mt-1">
+                    Keep several devices in step through a sync server you run yourself (see the <code>server</code> folder of the project).
+                    Everything is encrypted on this device with your passphrase first, so the server only ever stores ciphertext.
+                </p>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div>
+                    <label htmlFor="sync-server-url" className="block text-sm font-medium text-text-secondary mb-1">Sync server URL</label>
+                    <input
+                        id="sync-server-url"
+                        type="url"
+                        placeholder="http://localhost:8787"
+                        value={settings.syncServerUrl}
+                        onChange={(e) => updateSettings({ syncServerUrl: e.target.value.trim() })}
+                        className={inputClassName}
+                    />
+                </div>
+                <div>
+                    <label htmlFor="sync-code" className="block text-sm font-medium text-text-secondary mb-1">Sync code</label>
+                    <div className="flex space-x-2">
+                        <input
+                            id="sync-code"
+                            placeholder="Paste the code from your other device, or generate one"
+                            value={settings.syncVaultId}
+                            onChange={(e) => updateSettings({ syncVaultId: e.target.value.trim() })}
+                            className={`${inputClassName} font-mono`}
+                        />
+                        {settings.syncVaultId && (
+                            <button onClick={handleCopyCode} className="flex-shrink-0 px-3 py-2 text-sm bg-primary rounded-lg hover:bg-secondary/80 transition-colors">Copy</button>
+                        )}
+                        <button onClick={handleGenerateCode} className="flex-shrink-0 px-3 py-2 text-sm bg-primary rounded-lg hover:bg-secondary/80 transition-colors">Generate</button>
+                    </div>
+                </div>
+                <div>
+                    <label htmlFor="sync-passphrase" className="block text-sm font-medium text-text-secondary mb-1">Sync passphrase</label>
+                    <input
+                        id="sync-passphrase"
+                        type="password"
+                        placeholder="The same passphrase on every device"
+                        value={passphrase}
+                        onChange={(e) => setPassphrase(e.target.value)}
+                        className={inputClassName}
+                    />
+                </div>
+
+                {error && <p className="text-sm text-danger">{error}</p>}
+                {report && !error && (
+                    <p className="text-sm text-text-secondary">
+                        Synced at {formatter.time(report.finishedAt)}: {report.pulled} received, {report.pushed} sent.
+                        {report.conflicts > 0 && <span className="text-warning"> {report.conflicts} record(s) were also changed on another device; this device's version was kept.</span>}
+                    </p>
+                )}
+
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                    <div className="text-sm text-warning/80 flex items-start space-x-2">
+                        <Icons.Warning className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                        <span>The passphrase cannot be recovered. Without it, the data on the server is unreadable.</span>
+                    </div>
+                    <button onClick={handleSync} disabled={!canSync} className="flex-shrink-0 px-4 py-2 bg-accent rounded-lg hover:bg-accent-hover text-white font-semibold transition-colors disabled:bg-primary disabled:text-text-secondary">
+                        {isSyncing ? 'Syncing...' : 'Sync Now'}
+                    </button>
+                </div>
+            </CardContent>
+        </Card>
+    );
+};
+
+export default ServerSync;
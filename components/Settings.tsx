@@ -1,12 +1,35 @@
 import React, { useState, useEffect } from 'react';
 import { useLocalStorage } from '../hooks/useLocalStorage';
+import { useProfileKey } from '../context/ProfileContext';
+import { useSettings } from '../context/SettingsContext';
+import { usePlanningPeriod } from '../hooks/usePlanningPeriod';
+import { useFormatter } from '../hooks/useFormatter';
+import { LOCALE_OPTIONS, WEEKDAY_OPTIONS } from '../services/format';
+import { toDateKey } from '../services/periods';
+import { CurrencyPosition, DisplayDateFormat } from '../types';
 import { Card, CardHeader, CardTitle, CardContent } from './ui/Card';
 import { Icons } from './ui/Icons';
+import ProfileManager from './ProfileManager';
+import ExchangeRates from './ExchangeRates';
+import Categories from './Categories';
+
+const DATE_FORMAT_OPTIONS: { value: DisplayDateFormat; label: string }[] = [
+    { value: 'locale', label: 'As in the language' },
+    { value: 'DD.MM.YYYY', label: 'DD.MM.YYYY' },
+    { value: 'DD/MM/YYYY', label: 'DD/MM/YYYY' },
+    { value: 'MM/DD/YYYY', label: 'MM/DD/YYYY' },
+    { value: 'YYYY-MM-DD', label: 'YYYY-MM-DD' },
+];
+
+const selectClassName = 'w-full bg-background p-2 rounded-md focus:outline-none focus:ring-2 focus:ring-brand border border-secondary';
 
 const Settings: React.FC = () => {
-    const [storedApiKey, setStoredApiKey] = useLocalStorage<string>('geminiApiKey', '');
+    const [storedApiKey, setStoredApiKey] = useLocalStorage<string>(useProfileKey('geminiApiKey'), '');
     const [apiKeyInput, setApiKeyInput] = useState(storedApiKey);
     const [saveStatus, setSaveStatus] = useState<'idle' | 'success'>('idle');
+    const { settings, updateSettings } = useSettings();
+    const { months } = usePlanningPeriod();
+    const formatter = useFormatter();
 
     useEffect(() => {
         setApiKeyInput(storedApiKey);
@@ -18,10 +41,112 @@ const Settings: React.FC = () => {
         setTimeout(() => setSaveStatus('idle'), 3000); // Hide message after 3 seconds
     };
 
+    const handlePlanLengthChange = (value: string) => {
+        const count = parseInt(value, 10);
+        if (isNaN(count) || count < 1 || count > 120) return;
+        updateSettings({ planningPeriod: { ...settings.planningPeriod, months: count } });
+    };
+
     return (
         <div className="space-y-6 animate-fade-in">
             <h1 className="text-3xl font-bold text-text-primary">Settings</h1>
-            
+
+            <ProfileManager />
+
+            <Card>
+                <CardHeader>
+                    <CardTitle className="flex items-center">
+                        <Icons.Goal className="w-5 h-5 mr-2 text-brand" />
+                        Planning Period
+                    </CardTitle>
+                    <p className="text-sm text-text-secondary mt-1">
+                        The months you can set income goals for. Leave the start empty to always begin with the current month.
+                    </p>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <div>
+                            <label htmlFor="plan-start" className="block text-sm font-medium text-text-secondary mb-1">First month</label>
+                            <div className="flex space-x-2">
+                                <input
+                                    id="plan-start"
+                                    type="month"
+                                    value={settings.planningPeriod.startMonth}
+                                    onChange={(e) => updateSettings({ planningPeriod: { ...settings.planningPeriod, startMonth: e.target.value } })}
+                                    className="w-full bg-background p-2 rounded-md focus:outline-none focus:ring-2 focus:ring-brand border border-secondary"
+                                />
+                                {settings.planningPeriod.startMonth && (
+                                    <button onClick={() => updateSettings({ planningPeriod: { ...settings.planningPeriod, startMonth: '' } })} className="flex-shrink-0 px-3 py-2 text-sm bg-primary rounded-lg hover:bg-secondary/80 transition-colors">
+                                        Use Current Month
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                        <div>
+                            <label htmlFor="plan-length" className="block text-sm font-medium text-text-secondary mb-1">Number of months</label>
+                            <input
+                                id="plan-length"
+                                type="number"
+                                min="1"
+                                max="120"
+                                value={settings.planningPeriod.months}
+                                onChange={(e) => handlePlanLengthChange(e.target.value)}
+                                className="w-full bg-background p-2 rounded-md focus:outline-none focus:ring-2 focus:ring-brand border border-secondary"
+                            />
+                        </div>
+                    </div>
+                    <p className="text-sm text-text-secondary">Currently planning {months[0].label} to {months[months.length - 1].label}.</p>
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle className="flex items-center">
+                        <Icons.Formats className="w-5 h-5 mr-2 text-brand" />
+                        Formats
+                    </CardTitle>
+                    <p className="text-sm text-text-secondary mt-1">
+                        How amounts, numbers and dates are shown and typed in. Amount fields accept both 12,50 and 12.50.
+                    </p>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <div>
+                            <label htmlFor="format-locale" className="block text-sm font-medium text-text-secondary mb-1">Language and region</label>
+                            <select id="format-locale" value={settings.locale} onChange={(e) => updateSettings({ locale: e.target.value })} className={selectClassName}>
+                                {LOCALE_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label htmlFor="format-currency-position" className="block text-sm font-medium text-text-secondary mb-1">Currency symbol</label>
+                            <select id="format-currency-position" value={settings.currencyPosition} onChange={(e) => updateSettings({ currencyPosition: e.target.value as CurrencyPosition })} className={selectClassName}>
+                                <option value="before">Before the amount</option>
+                                <option value="after">After the amount</option>
+                            </select>
+                        </div>
+                        <div>
+                            <label htmlFor="format-date" className="block text-sm font-medium text-text-secondary mb-1">Date format</label>
+                            <select id="format-date" value={settings.dateFormat} onChange={(e) => updateSettings({ dateFormat: e.target.value as DisplayDateFormat })} className={selectClassName}>
+                                {DATE_FORMAT_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label htmlFor="format-week-start" className="block text-sm font-medium text-text-secondary mb-1">First day of the week</label>
+                            <select id="format-week-start" value={settings.weekStartsOn} onChange={(e) => updateSettings({ weekStartsOn: Number(e.target.value) })} className={selectClassName}>
+                                {WEEKDAY_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                            </select>
+                        </div>
+                    </div>
+                    <p className="text-sm text-text-secondary">
+                        Example: {formatter.money(-123456, settings.baseCurrency)} on {formatter.date(toDateKey(new Date()))}, {formatter.number(1234.5)}
+                    </p>
+                </CardContent>
+            </Card>
+
+            <ExchangeRates />
+
+            <Categories />
+
             <Card>
                 <CardHeader>
                     <CardTitle className="flex items-center">
@@ -33,7 +158,7 @@ const Settings: React.FC = () => {
                     <div>
                         <p className="text-text-secondary mb-2">
                             To use AI-powered features like Financial Insights and Rundowns, you need to provide your own Google Gemini API key.
-                            Your key is stored securely in your browser's local storage and is never sent to our servers.
+                            Your key is stored securely in your browser's local storage, separately for each profile, and is never sent to our servers.
                         </p>
                         <a href="https://ai.google.dev/" target="_blank" rel="noopener noreferrer" className="text-brand font-semibold hover:underline">
                             Get your Gemini API key from Google AI Studio &rarr;
@@ -0,0 +1,376 @@
+import React, { useMemo, useState } from 'react';
+import { useFinancials } from '../context/FinancialContext';
+import { useLocalStorage } from '../hooks/useLocalStorage';
+import { useProfileKey } from '../context/ProfileContext';
+import { Expense, ExpenseMode, Income, IncomeSource } from '../types';
+import { CsvBankProfile, CsvMapping, DATE_FORMATS, DEFAULT_CSV_MAPPING, DateFormat, detectDelimiter, mapCsvRows, parseCsv } from '../services/csvImport';
+import { parseOfx } from '../services/ofxImport';
+import { parseQif } from '../services/qifImport';
+import { DuplicateKind, StatementFormat, StatementTransaction, detectStatementFormat, findDuplicate, isOutgoing } from '../services/statements';
+import { Card, CardHeader, CardTitle, CardContent } from './ui/Card';
+import { Icons } from './ui/Icons';
+import { CurrencySelect } from './ui/CurrencySelect';
+import { CategorySelect } from './ui/CategorySelect';
+import { useCurrency } from '../hooks/useCurrency';
+import { useFormatter } from '../hooks/useFormatter';
+import { toMinor } from '../services/money';
+import { defaultCategoryId } from '../services/categories';
+
+const NO_PROFILES: CsvBankProfile[] = [];
+const PREVIEW_ROWS = 10;
+const selectClassName = "w-full bg-surface p-2 rounded-md focus:outline-none focus:ring-2 focus:ring-brand border border-secondary";
+
+interface ReviewRow {
+    transaction: StatementTransaction;
+    include: boolean;
+    duplicate: DuplicateKind | null;
+    category: string; // Category id
+    source: IncomeSource;
+}
+
+const duplicateLabels: Record<DuplicateKind, string> = {
+    imported: 'Already imported',
+    similar: 'Possible duplicate',
+};
+
+const TransactionReview: React.FC<{ transactions: StatementTransaction[]; onBack?: () => void; onDone: () => void }> = ({ transactions, onBack, onDone }) => {
+    const { state, dispatch } = useFinancials();
+    const { baseCurrency, formatCurrency } = useCurrency();
+    const formatter = useFormatter();
+    const [mode, setMode] = useState<ExpenseMode>(ExpenseMode.Survival);
+    const [currency, setCurrency] = useState(baseCurrency);
+    const [rows, setRows] = useState<ReviewRow[]>(() => transactions.map(transaction => {
+        const duplicate = findDuplicate(transaction, state);
+        return { transaction, include: !duplicate, duplicate, category: defaultCategoryId(state.categories), source: IncomeSource.Other };
+    }));
+
+    const updateRow = (index: number, changes: Partial<ReviewRow>) => {
+        setRows(prev => prev.map((row, i) => i === index ? { ...row, ...changes } : row));
+    };
+
+    const included = rows.filter(r => r.include);
+    const expenseCount = included.filter(r => isOutgoing(r.transaction)).length;
+
+    const handleImport = () => {
+        const batch = Date.now();
+        const expenses: Expense[] = [];
+        const income: Income[] = [];
+        included.forEach(({ transaction, category, source }, i) => {
+            const base = { date: transaction.date, amount: toMinor(Math.abs(transaction.amount)), description: transaction.description, currency, externalId: transaction.externalId };
+            if (isOutgoing(transaction)) {
+                expenses.push({ ...base, id: `e-imp-${batch}-${i}`, category, mode });
+            } else {
+                income.push({ ...base, id: `i-imp-${batch}-${i}`, source });
+            }
+        });
+        dispatch({ type: 'IMPORT_TRANSACTIONS', payload: { expenses, income } });
+        alert(`Imported ${expenses.length} expenses and ${income.length} income entries.`);
+        onDone();
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                <p className="text-sm text-text-secondary">
+                    {included.length} of {rows.length} transactions selected: {expenseCount} expenses, {included.length - expenseCount} income.
+                    {rows.some(r => r.duplicate) && ' Rows that look like existing entries are unticked.'}
+                </p>
+                <div className="flex items-center space-x-4">
+                    <label className="flex items-center space-x-2 text-sm text-text-secondary">
+                        <span className="whitespace-nowrap">Currency</span>
+                        <CurrencySelect value={currency} onChange={setCurrency} className={selectClassName} />
+                    </label>
+                    <label className="flex items-center space-x-2 text-sm text-text-secondary">
+                        <span className="whitespace-nowrap">Expense mode</span>
+                        <select value={mode} onChange={(e) => setMode(e.target.value as ExpenseMode)} className={selectClassName}>
+                            {Object.values(ExpenseMode).map(m => <option key={m} value={m}>{m}</option>)}
+                        </select>
+                    </label>
+                </div>
+            </div>
+            <div className="max-h-96 overflow-y-auto">
+                <table className="w-full text-sm text-left">
+                    <thead className="text-xs text-text-secondary uppercase">
+                        <tr>
+                            <th className="py-3 px-2"></th>
+                            <th className="py-3 px-2">Date</th>
+                            <th className="py-3 px-2">Description</th>
+                            <th className="py-3 px-2 text-right">Amount</th>
+                            <th className="py-3 px-2">Category / Source</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rows.map((row, index) => (
+                            <tr key={index} className={`border-t border-secondary ${row.include ? '' : 'opacity-50'}`}>
+                                <td className="py-2 px-2">
+                                    <input type="checkbox" checked={row.include} onChange={(e) => updateRow(index, { include: e.target.checked })} />
+                                </td>
+                                <td className="py-2 px-2 whitespace-nowrap">{formatter.date(row.transaction.date)}</td>
+                                <td className="py-2 px-2">
+                                    {row.transaction.description}
+                                    {row.duplicate && <span className="ml-2 text-xs font-semibold px-2 py-0.5 rounded-full bg-warning/10 text-warning">{duplicateLabels[row.duplicate]}</span>}
+                                </td>
+                                <td className={`py-2 px-2 text-right font-medium whitespace-nowrap ${isOutgoing(row.transaction) ? 'text-danger' : 'text-success'}`}>
+                                    {isOutgoing(row.transaction) ? '-' : '+'}{formatCurrency(toMinor(Math.abs(row.transaction.amount)), currency)}
+                                </td>
+                                <td className="py-2 px-2">
+                                    {isOutgoing(row.transaction) ? (
+                                        <CategorySelect value={row.category} onChange={(category) => updateRow(index, { category })} className={selectClassName} />
+                                    ) : (
+                                        <select value={row.source} onChange={(e) => updateRow(index, { source: e.target.value as IncomeSource })} className={selectClassName}>
+                                            {Object.values(IncomeSource).map(s => <option key={s} value={s}>{s}</option>)}
+                                        </select>
+                                    )}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            <div className="flex justify-end space-x-3 pt-2">
+                <button onClick={onBack ?? onDone} className="px-4 py-2 bg-primary rounded-lg hover:bg-secondary/80 transition-colors">{onBack ? 'Back' : 'Cancel'}</button>
+                <button onClick={handleImport} disabled={included.length === 0} className="px-4 py-2 bg-accent rounded-lg hover:bg-accent-hover text-white font-semibold transition-colors disabled:bg-primary disabled:text-text-secondary">Import {included.length} Transactions</button>
+            </div>
+        </div>
+    );
+};
+
+const ColumnSelect: React.FC<{ label: string; value: number; columns: string[]; onChange: (value: number) => void }> = ({ label, value, columns, onChange }) => (
+    <div>
+        <label className="block text-sm font-medium text-text-secondary mb-1">{label}</label>
+        <select value={value} onChange={(e) => onChange(parseInt(e.target.value, 10))} className={selectClassName}>
+            {columns.map((column, i) => <option key={i} value={i}>{column}</option>)}
+        </select>
+    </div>
+);
+
+const StatementImport: React.FC<{ onDone: () => void }> = ({ onDone }) => {
+    const { formatCurrency } = useCurrency();
+    const [profiles, setProfiles] = useLocalStorage<CsvBankProfile[]>(useProfileKey('csvBankProfiles'), NO_PROFILES);
+    const [profileId, setProfileId] = useState('');
+    const [fileText, setFileText] = useState<string | null>(null);
+    const [fileCount, setFileCount] = useState(0);
+    const [format, setFormat] = useState<StatementFormat>('csv');
+    const [mapping, setMapping] = useState<CsvMapping>(DEFAULT_CSV_MAPPING);
+    const [bankName, setBankName] = useState('');
+    const [step, setStep] = useState<'mapping' | 'review'>('mapping');
+
+    const rows = useMemo(() => fileText === null || format !== 'csv' ? [] : parseCsv(fileText, mapping.delimiter), [fileText, format, mapping.delimiter]);
+    const parsed = useMemo(() => {
+        if (fileText !== null && format === 'ofx') return parseOfx(fileText);
+        if (fileText !== null && format === 'qif') return parseQif(fileText, mapping);
+        return mapCsvRows(rows, mapping);
+    }, [fileText, format, rows, mapping]);
+    const columnCount = rows.reduce((max, row) => Math.max(max, row.length), 0);
+    const columns = Array.from({ length: columnCount }, (_, i) =>
+        mapping.hasHeader && rows[0]?.[i]?.trim() ? `${i + 1}: ${rows[0][i].trim()}` : `Column ${i + 1}`);
+
+    const updateMapping = (changes: Partial<CsvMapping>) => setMapping(prev => ({ ...prev, ...changes }));
+
+    const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (file) {
+            const reader = new FileReader();
+            reader.onload = (e) => {
+                const text = e.target?.result as string;
+                const profile = profiles.find(p => p.id === profileId);
+                const fileFormat = detectStatementFormat(file.name, text);
+                setFileText(text);
+                setFileCount(count => count + 1);
+                setFormat(fileFormat);
+                if (fileFormat === 'ofx') {
+                    // OFX is fully structured, so there is nothing to map.
+                    setStep('review');
+                } else if (profile) {
+                    // A saved bank mapping skips straight to the review.
+                    setMapping(profile.mapping);
+                    setBankName(profile.name);
+                    setStep('review');
+                } else {
+                    setMapping(fileFormat === 'qif'
+                        ? { ...DEFAULT_CSV_MAPPING, dateFormat: 'MM/DD/YYYY' }
+                        : { ...DEFAULT_CSV_MAPPING, delimiter: detectDelimiter(text) });
+                    setStep('mapping');
+                }
+            };
+            reader.readAsText(file);
+        }
+        event.target.value = '';
+    };
+
+    const handleContinue = () => {
+        const name = bankName.trim();
+        if (name) {
+            const existing = profiles.find(p => p.name.toLowerCase() === name.toLowerCase());
+            const profile = { id: existing?.id ?? `bank-${Date.now()}`, name, mapping };
+            setProfiles(existing ? profiles.map(p => p.id === existing.id ? profile : p) : [...profiles, profile]);
+            setProfileId(profile.id);
+        }
+        setStep('review');
+    };
+
+    const handleDeleteProfile = () => {
+        const profile = profiles.find(p => p.id === profileId);
+        if (profile && window.confirm(`Delete the saved mapping for "${profile.name}"?`)) {
+            setProfiles(profiles.filter(p => p.id !== profileId));
+            setProfileId('');
+        }
+    };
+
+    return (
+        <Card className="animate-fade-in">
+            <CardHeader>
+                <CardTitle className="flex items-center">
+                    <Icons.CSV className="w-5 h-5 mr-2" />
+                    Import Bank Statement
+                </CardTitle>
+                <p className="text-sm text-text-secondary mt-1">
+                    Money going out becomes an expense and money coming in becomes income. Nothing is saved until you confirm the review.
+                </p>
+            </CardHeader>
+            <CardContent className="space-y-6">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 items-end">
+                    <div>
+                        <label className="block text-sm font-medium text-text-secondary mb-1">Bank</label>
+                        <div className="flex space-x-2">
+                            <select value={profileId} onChange={(e) => setProfileId(e.target.value)} className={selectClassName}>
+                                <option value="">New mapping</option>
+                                {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                            </select>
+                            {profileId && (
+                                <button onClick={handleDeleteProfile} title="Delete saved mapping" className="p-2 text-text-secondary hover:text-danger">
+                                    <Icons.Trash className="w-4 h-4" />
+                                </button>
+                            )}
+                        </div>
+                    </div>
+                    <label className="w-full flex items-center justify-center space-x-2 px-4 py-2 bg-primary text-text-primary font-semibold rounded-lg hover:bg-secondary/80 transition-colors cursor-pointer">
+                        <Icons.Upload className="w-5 h-5" />
+                        <span>Choose Statement (CSV, OFX, QIF)</span>
+                        <input type="file" accept=".csv,.txt,.ofx,.qfx,.qif" className="hidden" onChange={handleFile} />
+                    </label>
+                </div>
+
+                {fileText !== null && step === 'mapping' && (
+                    <div className="space-y-4">
+                        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                            {format === 'csv' && (
+                                <div>
+                                    <label className="block text-sm font-medium text-text-secondary mb-1">Separator</label>
+                                    <select value={mapping.delimiter} onChange={(e) => updateMapping({ delimiter: e.target.value as CsvMapping['delimiter'] })} className={selectClassName}>
+                                        <option value=",">Comma (,)</option>
+                                        <option value=";">Semicolon (;)</option>
+                                        <option value={'\t'}>Tab</option>
+                                    </select>
+                                </div>
+                            )}
+                            <div>
+                                <label className="block text-sm font-medium text-text-secondary mb-1">Date format</label>
+                                <select value={mapping.dateFormat} onChange={(e) => updateMapping({ dateFormat: e.target.value as DateFormat })} className={selectClassName}>
+                                    {DATE_FORMATS.map(f => <option key={f} value={f}>{f}</option>)}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-text-secondary mb-1">Number format</label>
+                                <select value={mapping.decimalSeparator} onChange={(e) => updateMapping({ decimalSeparator: e.target.value as CsvMapping['decimalSeparator'] })} className={selectClassName}>
+                                    <option value=".">1,234.56</option>
+                                    <option value=",">1.234,56</option>
+                                </select>
+                            </div>
+                            {format === 'csv' && (
+                                <>
+                                    <ColumnSelect label="Date column" value={mapping.dateColumn} columns={columns} onChange={(dateColumn) => updateMapping({ dateColumn })} />
+                                    <ColumnSelect label="Description column" value={mapping.descriptionColumn} columns={columns} onChange={(descriptionColumn) => updateMapping({ descriptionColumn })} />
+                                    <div>
+                                        <label className="block text-sm font-medium text-text-secondary mb-1">Amounts</label>
+                                        <select value={mapping.amountMode} onChange={(e) => updateMapping({ amountMode: e.target.value as CsvMapping['amountMode'] })} className={selectClassName}>
+                                            <option value="signed">One column, negative = out</option>
+                                            <option value="debitCredit">Separate debit and credit columns</option>
+                                        </select>
+                                    </div>
+                                    {mapping.amountMode === 'signed' ? (
+                                        <ColumnSelect label="Amount column" value={mapping.amountColumn} columns={columns} onChange={(amountColumn) => updateMapping({ amountColumn })} />
+                                    ) : (
+                                        <>
+                                            <ColumnSelect label="Debit (money out) column" value={mapping.debitColumn} columns={columns} onChange={(debitColumn) => updateMapping({ debitColumn })} />
+                                            <ColumnSelect label="Credit (money in) column" value={mapping.creditColumn} columns={columns} onChange={(creditColumn) => updateMapping({ creditColumn })} />
+                                        </>
+                                    )}
+                                </>
+                            )}
+                        </div>
+                        <div className="flex flex-wrap gap-x-6 gap-y-2">
+                            {format === 'csv' && (
+                                <label className="flex items-center space-x-2 text-sm text-text-secondary cursor-pointer">
+                                    <input type="checkbox" checked={mapping.hasHeader} onChange={(e) => updateMapping({ hasHeader: e.target.checked })} />
+                                    <span>First row is a header</span>
+                                </label>
+                            )}
+                            <label className="flex items-center space-x-2 text-sm text-text-secondary cursor-pointer">
+                                <input type="checkbox" checked={mapping.invertSign} onChange={(e) => updateMapping({ invertSign: e.target.checked })} />
+                                <span>Flip signs (charges are listed as positive amounts)</span>
+                            </label>
+                        </div>
+
+                        <div>
+                            <h4 className="font-semibold text-text-primary mb-1">Preview</h4>
+                            <table className="w-full text-sm text-left">
+                                <thead className="text-xs text-text-secondary uppercase">
+                                    <tr>
+                                        <th className="py-2 px-2">Date</th>
+                                        <th className="py-2 px-2">Description</th>
+                                        <th className="py-2 px-2 text-right">Amount</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {parsed.transactions.slice(0, PREVIEW_ROWS).map((t, i) => (
+                                        <tr key={i} className="border-t border-secondary">
+                                            <td className="py-2 px-2 whitespace-nowrap">{t.date}</td>
+                                            <td className="py-2 px-2">{t.description}</td>
+                                            <td className={`py-2 px-2 text-right whitespace-nowrap ${isOutgoing(t) ? 'text-danger' : 'text-success'}`}>
+                                                {isOutgoing(t) ? 'Expense' : 'Income'} {formatCurrency(toMinor(Math.abs(t.amount)))}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                            <p className="text-xs text-text-secondary mt-2">
+                                {parsed.transactions.length} rows recognised{parsed.transactions.length > PREVIEW_ROWS && `, showing the first ${PREVIEW_ROWS}`}.
+                            </p>
+                            {parsed.errors.length > 0 && (
+                                <div className="mt-2 text-sm text-warning flex items-start space-x-2">
+                                    <Icons.Warning className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                                    <span>
+                                        {parsed.errors.length} rows will be skipped, e.g. row {parsed.errors[0].row}: {parsed.errors[0].message}.
+                                    </span>
+                                </div>
+                            )}
+                        </div>
+
+                        <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+                            <div className="flex-1">
+                                <label className="block text-sm font-medium text-text-secondary mb-1">Save this mapping as (optional)</label>
+                                <input type="text" placeholder="e.g. Sparkasse" value={bankName} onChange={(e) => setBankName(e.target.value)} className="w-full bg-surface p-2 rounded-md focus:outline-none focus:ring-2 focus:ring-brand border border-secondary" />
+                            </div>
+                            <div className="flex justify-end space-x-3">
+                                <button onClick={onDone} className="px-4 py-2 bg-primary rounded-lg hover:bg-secondary/80 transition-colors">Cancel</button>
+                                <button onClick={handleContinue} disabled={parsed.transactions.length === 0} className="px-4 py-2 bg-accent rounded-lg hover:bg-accent-hover text-white font-semibold transition-colors disabled:bg-primary disabled:text-text-secondary">Review Transactions</button>
+                            </div>
+                        </div>
+                    </div>
+                )}
+
+                {fileText !== null && step === 'review' && (
+                    <TransactionReview
+                        key={fileCount}
+                        transactions={parsed.transactions}
+                        onBack={format === 'ofx' ? undefined : () => setStep('mapping')}
+                        onDone={onDone}
+                    />
+                )}
+            </CardContent>
+        </Card>
+    );
+};
+
+export default StatementImport;
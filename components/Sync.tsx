@@ -1,20 +1,94 @@
-import React, { useCallback } from 'react';
+import React, { useCallback, useState } from 'react';
 import { useFinancials } from '../context/FinancialContext';
 import { Card, CardHeader, CardTitle, CardContent } from './ui/Card';
 import { Icons } from './ui/Icons';
+import { migrateFinancialData } from '../services/migrations';
+import { EncryptedEnvelope, decryptText, encryptText, isEncryptedEnvelope } from '../services/crypto';
+import { downloadFile } from '../services/download';
+import { validateFinancialData } from '../services/validation';
+import { FinancialData } from '../types';
+import MergeImport from './MergeImport';
+import ImportValidation from './ImportValidation';
+import QrTransfer from './QrTransfer';
+import DataExport from './DataExport';
+import RestorePoints from './RestorePoints';
+import StatementImport from './StatementImport';
+import ServerSync from './ServerSync';
 
 const Sync: React.FC = () => {
     const { state, dispatch } = useFinancials();
+    const [encryptExport, setEncryptExport] = useState(false);
+    const [exportPassphrase, setExportPassphrase] = useState('');
+    const [exportPassphraseConfirm, setExportPassphraseConfirm] = useState('');
+    const [isExporting, setIsExporting] = useState(false);
+    const [pendingEnvelope, setPendingEnvelope] = useState<EncryptedEnvelope | null>(null);
+    const [importPassphrase, setImportPassphrase] = useState('');
+    const [isDecrypting, setIsDecrypting] = useState(false);
+    const [importMode, setImportMode] = useState<'replace' | 'merge'>('replace');
+    const [mergeCandidate, setMergeCandidate] = useState<FinancialData | null>(null);
+    const [pendingValidation, setPendingValidation] = useState<FinancialData | null>(null);
+    const [isImportingStatement, setIsImportingStatement] = useState(false);
 
-    const handleExport = useCallback(() => {
+    const handleExport = useCallback(async () => {
         const dataStr = JSON.stringify(state, null, 2);
-        const dataUri = 'data:application/json;charset=utf-8,' + encodeURIComponent(dataStr);
-        const exportFileDefaultName = 'wavefinances_backup.json';
-        const linkElement = document.createElement('a');
-        linkElement.setAttribute('href', dataUri);
-        linkElement.setAttribute('download', exportFileDefaultName);
-        linkElement.click();
-    }, [state]);
+        if (!encryptExport) {
+            downloadFile(dataStr, 'wavefinances_backup.json', 'application/json');
+            return;
+        }
+        if (exportPassphrase.length < 8) {
+            alert('Please use a passphrase of at least 8 characters.');
+            return;
+        }
+        if (exportPassphrase !== exportPassphraseConfirm) {
+            alert('The passphrases do not match.');
+            return;
+        }
+        setIsExporting(true);
+        try {
+            const envelope = await encryptText(dataStr, exportPassphrase);
+            downloadFile(JSON.stringify(envelope, null, 2), 'wavefinances_backup.encrypted.json', 'application/json');
+            setExportPassphrase('');
+            setExportPassphraseConfirm('');
+        } catch (error) {
+            console.error(error);
+            alert('Could not encrypt the backup.');
+        } finally {
+            setIsExporting(false);
+        }
+    }, [state, encryptExport, exportPassphrase, exportPassphraseConfirm]);
+
+    const continueImport = useCallback((data: FinancialData) => {
+        setPendingValidation(null);
+        if (importMode === 'merge') {
+            setMergeCandidate(data);
+        } else if (window.confirm("Are you sure? Importing data will overwrite all existing data on this device.")) {
+            dispatch({ type: 'SET_STATE', payload: data });
+            alert('Data imported successfully!');
+        }
+    }, [dispatch, importMode]);
+
+    const importData = useCallback((json: unknown) => {
+        // Collections added in later versions are filled in by the migrations; every record is then checked against types.ts.
+        if (json && typeof json === 'object' && ['expenses', 'debts', 'income'].every(key => key in json)) {
+            const data = migrateFinancialData(json);
+            if (validateFinancialData(data).issues.length > 0) {
+                setMergeCandidate(null);
+                setPendingValidation(data);
+            } else {
+                continueImport(data);
+            }
+        } else {
+            alert('Invalid file format.');
+        }
+    }, [continueImport]);
+
+    const handleQrReceive = useCallback((json: unknown) => {
+        try {
+            importData(json);
+        } catch (error) {
+            alert(error instanceof Error ? error.message : 'Could not import the data.');
+        }
+    }, [importData]);
 
     const handleImport = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
         const file = event.target.files?.[0];
@@ -23,24 +97,37 @@ const Sync: React.FC = () => {
             reader.onload = (e) => {
                 try {
                     const json = JSON.parse(e.target?.result as string);
-                    // Basic validation
-                    if (json.expenses && json.debts && json.income && json.investmentBaskets) {
-                        if (window.confirm("Are you sure? Importing data will overwrite all existing data on this device.")) {
-                            dispatch({ type: 'SET_STATE', payload: json });
-                            alert('Data imported successfully!');
-                        }
+                    if (isEncryptedEnvelope(json)) {
+                        setImportPassphrase('');
+                        setPendingEnvelope(json);
                     } else {
-                        alert('Invalid file format.');
+                        importData(json);
                     }
                 } catch (error) {
-                    alert('Error reading file.');
+                    alert(error instanceof SyntaxError || !(error instanceof Error) ? 'Error reading file.' : error.message);
                 }
             };
             reader.readAsText(file);
         }
         // Reset file input to allow re-uploading the same file
         event.target.value = '';
-    }, [dispatch]);
+    }, [importData]);
+
+    const handleDecryptImport = useCallback(async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!pendingEnvelope) return;
+        setIsDecrypting(true);
+        try {
+            const json = JSON.parse(await decryptText(pendingEnvelope, importPassphrase));
+            setPendingEnvelope(null);
+            importData(json);
+        } catch (error) {
+            alert(error instanceof Error ? error.message : 'Could not decrypt the file.');
+        } finally {
+            setIsDecrypting(false);
+            setImportPassphrase('');
+        }
+    }, [pendingEnvelope, importPassphrase, importData]);
 
     return (
         <div className="space-y-6 animate-fade-in">
@@ -56,15 +143,15 @@ const Sync: React.FC = () => {
                 <CardContent className="space-y-3 text-text-secondary">
                     <p>
                         <strong>Universal WaveFinances is built for privacy.</strong> All of your financial data is stored
-                        exclusively on your current device and in your browser's local storage.
+                        exclusively on your current device and in your browser's built-in database (IndexedDB).
                     </p>
                     <p>
-                        We do not have a server, and we never see, store, or have access to your information.
-                        This means your data is secure and private, but it also means it does not automatically sync
-                        between your devices (e.g., from your computer to your phone).
+                        We do not run a server, and we never see, store, or have access to your information.
+                        Your data only leaves this device when you send it somewhere yourself.
                     </p>
                     <p>
-                        To use your data on another device, you must manually transfer it using the Export/Import process below.
+                        To use your data on another device, either sync it through a server you host yourself or transfer it manually using the Export/Import process below.
+                        Records are encrypted with your sync passphrase before they are sent, so your sync server only ever stores ciphertext.
                     </p>
                 </CardContent>
             </Card>
@@ -82,12 +169,26 @@ const Sync: React.FC = () => {
                             Click the button below to download a complete backup of your data as a single JSON file.
                             You can use this file to move your data to another device or to keep as a secure backup.
                         </p>
+                        <div className="mb-4 space-y-3">
+                            <label className="flex items-center space-x-2 text-sm font-medium text-text-secondary cursor-pointer">
+                                <input type="checkbox" checked={encryptExport} onChange={(e) => setEncryptExport(e.target.checked)} />
+                                <span>Encrypt with a passphrase (recommended before emailing or uploading the file)</span>
+                            </label>
+                            {encryptExport && (
+                                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 animate-fade-in">
+                                    <input type="password" placeholder="Passphrase" value={exportPassphrase} onChange={(e) => setExportPassphrase(e.target.value)} autoComplete="new-password" className="w-full bg-background p-2 rounded-md focus:outline-none focus:ring-2 focus:ring-brand border border-secondary" />
+                                    <input type="password" placeholder="Repeat passphrase" value={exportPassphraseConfirm} onChange={(e) => setExportPassphraseConfirm(e.target.value)} autoComplete="new-password" className="w-full bg-background p-2 rounded-md focus:outline-none focus:ring-2 focus:ring-brand border border-secondary" />
+                                    <p className="sm:col-span-2 text-xs text-text-secondary">There is no way to recover the data if you forget this passphrase.</p>
+                                </div>
+                            )}
+                        </div>
                         <button 
                             onClick={handleExport} 
-                            className="w-full flex items-center justify-center space-x-2 px-4 py-3 bg-accent text-white font-semibold rounded-lg hover:bg-accent-hover transition-colors"
+                            disabled={isExporting}
+                            className="w-full flex items-center justify-center space-x-2 px-4 py-3 bg-accent text-white font-semibold rounded-lg hover:bg-accent-hover transition-colors disabled:bg-primary disabled:text-text-secondary"
                         >
                             <Icons.JSON className="w-5 h-5" />
-                            <span>Export Data (.json)</span>
+                            <span>{isExporting ? 'Encrypting...' : encryptExport ? 'Export Encrypted Data (.json)' : 'Export Data (.json)'}</span>
                         </button>
                     </CardContent>
                 </Card>
@@ -100,21 +201,69 @@ const Sync: React.FC = () => {
                     </CardHeader>
                     <CardContent>
                         <p className="text-text-secondary mb-4">
-                            Select the <code>.json</code> file you exported from another device. This will replace all data on this device.
+                            Select the <code>.json</code> file you exported from another device. You can replace all data on this device,
+                            or merge the file with it and decide record by record.
                         </p>
+                        <div className="flex space-x-2 p-1 mb-4 bg-primary rounded-lg border border-secondary">
+                            <button onClick={() => setImportMode('replace')} className={`flex-1 px-3 py-1 text-sm font-semibold rounded-md ${importMode === 'replace' ? 'bg-accent text-white' : 'text-text-secondary'}`}>Replace everything</button>
+                            <button onClick={() => setImportMode('merge')} className={`flex-1 px-3 py-1 text-sm font-semibold rounded-md ${importMode === 'merge' ? 'bg-accent text-white' : 'text-text-secondary'}`}>Merge with my data</button>
+                        </div>
                          <label className="w-full flex items-center justify-center space-x-2 px-4 py-3 bg-primary text-text-primary font-semibold rounded-lg hover:bg-secondary/80 transition-colors cursor-pointer">
                             <Icons.Upload className="w-5 h-5" />
                             <span>Import Data (.json)</span>
                             <input type="file" accept=".json" className="hidden" onChange={handleImport} />
                         </label>
+                        {pendingEnvelope && (
+                            <form onSubmit={handleDecryptImport} className="mt-4 p-4 bg-primary/50 rounded-lg space-y-3 animate-fade-in">
+                                <p className="text-sm font-medium text-text-primary">This backup is encrypted. Enter its passphrase to continue.</p>
+                                <input type="password" autoFocus placeholder="Passphrase" value={importPassphrase} onChange={(e) => setImportPassphrase(e.target.value)} className="w-full bg-surface p-2 rounded-md focus:outline-none focus:ring-2 focus:ring-brand border border-secondary" />
+                                <div className="flex justify-end space-x-3">
+                                    <button type="button" onClick={() => setPendingEnvelope(null)} className="px-4 py-2 bg-primary rounded-lg hover:bg-secondary/80 transition-colors">Cancel</button>
+                                    <button type="submit" disabled={isDecrypting || !importPassphrase} className="px-4 py-2 bg-accent rounded-lg hover:bg-accent-hover text-white font-semibold transition-colors disabled:bg-primary disabled:text-text-secondary">{isDecrypting ? 'Decrypting...' : 'Decrypt & Import'}</button>
+                                </div>
+                            </form>
+                        )}
                          <div className="mt-4 text-sm text-warning/80 flex items-start space-x-2">
                             <Icons.Warning className="w-4 h-4 mt-0.5 flex-shrink-0" />
-                            <span><strong>Warning:</strong> Importing a file will completely overwrite your current data. This action cannot be undone.</span>
+                            <span><strong>Warning:</strong> Replacing will completely overwrite your current data. A restore point is saved first, and you can also use Undo right afterwards if you imported the wrong file.</span>
                         </div>
                     </CardContent>
                 </Card>
             </div>
 
+            <QrTransfer onReceive={handleQrReceive} />
+
+            {pendingValidation && <ImportValidation data={pendingValidation} onContinue={continueImport} onAbort={() => setPendingValidation(null)} />}
+
+            {mergeCandidate && <MergeImport incoming={mergeCandidate} onDone={() => setMergeCandidate(null)} />}
+
+            <ServerSync />
+
+            <RestorePoints />
+
+            <DataExport />
+
+            {isImportingStatement ? (
+                <StatementImport onDone={() => setIsImportingStatement(false)} />
+            ) : (
+                <Card>
+                    <CardHeader>
+                        <CardTitle className="flex items-center">
+                            <Icons.CSV className="w-5 h-5 mr-2" />
+                            Import a Bank Statement
+                        </CardTitle>
+                    </CardHeader>
+                    <CardContent className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+                        <p className="text-text-secondary">
+                            Turn the CSV, OFX/QFX or QIF export from your bank into expenses and income instead of typing them in. Column mappings are saved per bank.
+                        </p>
+                        <button onClick={() => setIsImportingStatement(true)} className="flex-shrink-0 px-4 py-2 bg-accent text-white font-semibold rounded-lg hover:bg-accent-hover transition-colors">
+                            Import Statement
+                        </button>
+                    </CardContent>
+                </Card>
+            )}
+
             <Card>
                 <CardHeader>
                      <CardTitle className="flex items-center">
@@ -125,8 +274,9 @@ const Sync: React.FC = () => {
                 <CardContent className="space-y-2 text-text-secondary">
                      <p>1. Make all your entries and updates on one primary device (e.g., your computer).</p>
                      <p>2. When you are done, <strong>Export</strong> your data from that primary device.</p>
-                     <p>3. Transfer the file to your other devices (e.g., via email to yourself, AirDrop, Google Drive).</p>
+                     <p>3. Transfer the file to your other devices (e.g., via AirDrop or Google Drive), or use <strong>Transfer With QR Codes</strong> to skip the file. Encrypt it first if it will pass through email or the cloud.</p>
                      <p>4. <strong>Import</strong> the file on your other devices to have the latest data available for viewing.</p>
+                     <p>With a sync server, every device can make changes: just press <strong>Sync Now</strong> before and after you use it.</p>
                 </CardContent>
             </Card>
 
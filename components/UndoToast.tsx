@@ -0,0 +1,67 @@
+import React, { useEffect, useState } from 'react';
+import { useFinancials } from '../context/FinancialContext';
+import { Icons } from './ui/Icons';
+
+const TOAST_DURATION_MS = 6000;
+
+const isTextInput = (target: EventTarget | null) => {
+    if (!(target instanceof HTMLElement)) return false;
+    return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+};
+
+// Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS) shortcuts, plus a toast offering to undo destructive changes.
+const UndoToast: React.FC = () => {
+    const { undo, redo, lastChange } = useFinancials();
+    const [visibleChangeId, setVisibleChangeId] = useState<number | null>(null);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z' || isTextInput(e.target)) return;
+            e.preventDefault();
+            if (e.shiftKey) {
+                redo();
+            } else {
+                undo();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [undo, redo]);
+
+    useEffect(() => {
+        if (!lastChange || (lastChange.kind === 'do' && !lastChange.destructive)) {
+            setVisibleChangeId(null);
+            return;
+        }
+        setVisibleChangeId(lastChange.id);
+        const timer = setTimeout(() => setVisibleChangeId(null), TOAST_DURATION_MS);
+        return () => clearTimeout(timer);
+    }, [lastChange]);
+
+    if (!lastChange || visibleChangeId !== lastChange.id) {
+        return null;
+    }
+
+    const message = lastChange.kind === 'undo' ? `Undone: ${lastChange.label}` : lastChange.kind === 'redo' ? `Redone: ${lastChange.label}` : lastChange.label;
+    const canRedo = lastChange.kind === 'undo';
+
+    return (
+        <div className="fixed bottom-20 md:bottom-6 inset-x-0 z-50 flex justify-center pointer-events-none print:hidden">
+            <div className="pointer-events-auto flex items-center space-x-4 px-4 py-3 bg-text-primary text-white rounded-lg shadow-lg animate-fade-in">
+                <span className="text-sm">{message}</span>
+                <button
+                    onClick={canRedo ? redo : undo}
+                    className="flex items-center text-sm font-semibold text-white hover:underline"
+                >
+                    {canRedo ? <Icons.Redo className="w-4 h-4 mr-1" /> : <Icons.Undo className="w-4 h-4 mr-1" />}
+                    {canRedo ? 'Redo' : 'Undo'}
+                </button>
+                <button onClick={() => setVisibleChangeId(null)} className="text-white/70 hover:text-white" aria-label="Dismiss">
+                    <Icons.Close className="w-4 h-4" />
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default UndoToast;
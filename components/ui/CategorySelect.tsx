@@ -0,0 +1,22 @@
+import React, { useMemo } from 'react';
+import { useFinancials } from '../../context/FinancialContext';
+import { getCategoryOptions } from '../../services/categories';
+
+interface CategorySelectProps {
+  id?: string;
+  value: string;
+  onChange: (categoryId: string) => void;
+  className?: string;
+}
+
+// Offers the active categories, with subcategories shown as "Parent › Child".
+export const CategorySelect: React.FC<CategorySelectProps> = ({ id, value, onChange, className = '' }) => {
+  const { state } = useFinancials();
+  const options = useMemo(() => getCategoryOptions(state.categories, value), [state.categories, value]);
+
+  return (
+    <select id={id} aria-label={id ? undefined : 'Category'} value={value} onChange={(e) => onChange(e.target.value)} className={className}>
+      {options.map(o => <option key={o.id} value={o.id}>{o.label}</option>)}
+    </select>
+  );
+};
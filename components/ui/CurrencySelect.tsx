@@ -0,0 +1,26 @@
+import React, { useMemo } from 'react';
+import { useFinancials } from '../../context/FinancialContext';
+import { COMMON_CURRENCIES } from '../../services/currency';
+
+interface CurrencySelectProps {
+  id?: string;
+  value: string;
+  onChange: (currency: string) => void;
+  className?: string;
+}
+
+// Offers the common currencies and every currency that has an exchange rate.
+export const CurrencySelect: React.FC<CurrencySelectProps> = ({ id, value, onChange, className = '' }) => {
+  const { state } = useFinancials();
+  const currencies = useMemo(() => [...new Set([
+    value,
+    ...COMMON_CURRENCIES,
+    ...state.exchangeRates.flatMap(r => [r.from, r.to]),
+  ].filter(Boolean))], [value, state.exchangeRates]);
+
+  return (
+    <select id={id} aria-label={id ? undefined : 'Currency'} value={value} onChange={(e) => onChange(e.target.value)} className={className}>
+      {currencies.map(c => <option key={c} value={c}>{c}</option>)}
+    </select>
+  );
+};
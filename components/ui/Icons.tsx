@@ -6,6 +6,7 @@ import {
   TrendingUp,
   LineChart,
   ChevronDown,
+  ChevronLeft,
   ChevronRight,
   Plus,
   MoreHorizontal,
@@ -24,6 +25,15 @@ import {
   AlertTriangle,
   Pencil,
   TrendingDown,
+  Undo2,
+  Redo2,
+  X,
+  History,
+  CalendarRange,
+  Printer,
+  Coins,
+  Languages,
+  Tags,
 } from 'lucide-react';
 
 export const Icons = {
@@ -34,6 +44,7 @@ export const Icons = {
   Investments: LineChart,
   Purchases: BrainCircuit,
   ChevronDown: ChevronDown,
+  ChevronLeft: ChevronLeft,
   ChevronRight: ChevronRight,
   Plus: Plus,
   More: MoreHorizontal,
@@ -52,4 +63,13 @@ export const Icons = {
   Warning: AlertTriangle,
   Edit: Pencil,
   Rundown: TrendingDown,
+  Undo: Undo2,
+  Redo: Redo2,
+  Close: X,
+  Activity: History,
+  Report: CalendarRange,
+  Print: Printer,
+  Currency: Coins,
+  Formats: Languages,
+  Categories: Tags,
 };
\ No newline at end of file
@@ -1,57 +1,67 @@
-import React, { createContext, useReducer, useContext, useEffect } from 'react';
-import { FinancialData, FinancialAction, Expense, Debt, Income, Asset, ExpenseCategory, ExpenseMode, IncomeSource, AssetCategory, RecurringExpense, Purchase, PurchaseStatus, ExpensePlanMode } from '../types';
-import { useLocalStorage } from '../hooks/useLocalStorage';
-
-const months = [];
-let currentDate = new Date(2025, 10, 1); // Start from Nov 2025
-for (let i = 0; i < 14; i++) {
-    months.push(`${currentDate.getFullYear()}-${(currentDate.getMonth() + 1).toString().padStart(2, '0')}`);
-    currentDate.setMonth(currentDate.getMonth() + 1);
-}
-const incomeGoalAmounts = [1500, 1800, 2000, 2200, 2500, 2800, 3000, 3200, 3500, 3800, 4000, 4200, 4500, 5000];
+import React, { createContext, useReducer, useContext, useEffect, useState, useRef, useCallback } from 'react';
+import { FinancialData, FinancialAction, HistoryEntry, JournalEntry, Snapshot, SnapshotKind, Expense, Debt, Income, Asset, ExpenseMode, IncomeSource, AssetCategory, RecurringExpense, Purchase, PurchaseStatus, ExpensePlanMode } from '../types';
+import { CURRENT_SCHEMA_VERSION, createEmptyFinancialData, getSchemaVersion, migrateFinancialData, migrateJournalEntry } from '../services/migrations';
+import { PersistedHistory, StorageAdapter, createUnavailableStorage, openFinancialStorage } from '../services/storage';
+import { createSnapshot, getExpiredSnapshotIds, isSnapshotDue } from '../services/snapshots';
+import { rebaseChanges } from '../services/merge';
+import { TabChannel, openTabChannel } from '../services/tabSync';
+import { HistoryState, LastChange, withHistory } from './history';
+import { useSettings } from './SettingsContext';
+import { addMonths, currentMonthKey, generateMonths, toDateKey } from '../services/periods';
+import { createRecurringEntry, getOccurrences, getOccurrencesInMonth } from '../services/recurrence';
+import { useProfiles } from './ProfileContext';
+import { DEFAULT_PROFILE_ID } from '../services/profiles';
+import { DEFAULT_CATEGORIES, findCategory } from '../services/categories';
+
+// The example data is dated around the month the app is first opened in.
+const seedMonth = currentMonthKey();
+const nextMonth = addMonths(seedMonth, 1);
+const months = generateMonths(seedMonth, 14).map(m => m.key);
+const incomeGoalAmounts = [150000, 180000, 200000, 220000, 250000, 280000, 300000, 320000, 350000, 380000, 400000, 420000, 450000, 500000];
 
 
 const initialState: FinancialData = {
+  schemaVersion: CURRENT_SCHEMA_VERSION,
   expenses: [
-    { id: 'e1', date: '2025-11-05', category: ExpenseCategory.Housing, amount: 650, description: 'Rent', mode: ExpenseMode.Both },
-    { id: 'e2', date: '2025-11-03', category: ExpenseCategory.Food, amount: 80, description: 'Groceries', mode: ExpenseMode.Survival },
-    { id: 'e3', date: '2025-11-10', category: ExpenseCategory.TrainingGym, amount: 50, description: 'Gym Membership', mode: ExpenseMode.Growth },
+    { id: 'e1', date: `${seedMonth}-05`, category: 'cat-housing', amount: 65000, description: 'Rent', mode: ExpenseMode.Both, currency: 'EUR' },
+    { id: 'e2', date: `${seedMonth}-03`, category: 'cat-food', amount: 8000, description: 'Groceries', mode: ExpenseMode.Survival, currency: 'EUR' },
+    { id: 'e3', date: `${seedMonth}-10`, category: 'cat-training-gym', amount: 5000, description: 'Gym Membership', mode: ExpenseMode.Growth, currency: 'EUR' },
   ],
   recurringExpenses: [
-    { id: 're1', description: 'Rent', amount: 650, category: ExpenseCategory.Housing, mode: ExpenseMode.Both, frequency: 'monthly', startDate: '2025-11' },
-    { id: 're2', description: 'Gym Membership', amount: 50, category: ExpenseCategory.TrainingGym, mode: ExpenseMode.Growth, frequency: 'monthly', startDate: '2025-11' },
-    { id: 're3', description: 'Phone Bill', amount: 30, category: ExpenseCategory.Personal, mode: ExpenseMode.Survival, frequency: 'monthly', startDate: '2025-11' },
+    { id: 're1', description: 'Rent', amount: 65000, category: 'cat-housing', mode: ExpenseMode.Both, frequency: 'monthly', startDate: seedMonth },
+    { id: 're2', description: 'Gym Membership', amount: 5000, category: 'cat-training-gym', mode: ExpenseMode.Growth, frequency: 'monthly', startDate: seedMonth },
+    { id: 're3', description: 'Phone Bill', amount: 3000, category: 'cat-personal', mode: ExpenseMode.Survival, frequency: 'monthly', startDate: seedMonth },
   ],
   debts: [
-    { id: 'd1', name: 'Student Loan', originalAmount: 5000, currentBalance: 4800, interestRate: 5.5, minimumPayment: 100 },
-    { id: 'd2', name: 'Credit Card', originalAmount: 2000, currentBalance: 1200, interestRate: 19.9, minimumPayment: 50 },
+    { id: 'd1', name: 'Student Loan', originalAmount: 500000, currentBalance: 480000, interestRate: 5.5, minimumPayment: 10000, currency: 'EUR' },
+    { id: 'd2', name: 'Credit Card', originalAmount: 200000, currentBalance: 120000, interestRate: 19.9, minimumPayment: 5000, currency: 'EUR' },
   ],
   income: [
-    { id: 'i1', date: '2025-11-15', source: IncomeSource.Consulting, amount: 1200, description: 'Project Alpha' },
-    { id: 'i2', date: '2025-11-28', source: IncomeSource.Newsletter, amount: 50, description: 'November Payout' },
-    { id: 'i3', date: '2025-12-15', source: IncomeSource.Consulting, amount: 1500, description: 'Project Bravo' },
+    { id: 'i1', date: `${seedMonth}-15`, source: IncomeSource.Consulting, amount: 120000, description: 'Project Alpha', currency: 'EUR' },
+    { id: 'i2', date: `${seedMonth}-28`, source: IncomeSource.Newsletter, amount: 5000, description: 'Newsletter Payout', currency: 'EUR' },
+    { id: 'i3', date: `${nextMonth}-15`, source: IncomeSource.Consulting, amount: 150000, description: 'Project Bravo', currency: 'EUR' },
   ],
   investmentBaskets: [
     {
       id: 'b1',
       name: 'Long-Term Growth',
       assets: [
-        { id: 'a4', name: 'VWCE ETF', category: AssetCategory.StocksETFs, amountInvested: 800, currentValue: 950, date: '2023-08-20' },
+        { id: 'a4', name: 'VWCE ETF', category: AssetCategory.StocksETFs, amountInvested: 80000, currentValue: 95000, currency: 'EUR', date: '2023-08-20' },
       ],
     },
     {
       id: 'b2',
       name: 'Speculative Plays',
       assets: [
-        { id: 'a3', name: 'Bitcoin', category: AssetCategory.Crypto, amountInvested: 1000, currentValue: 1500, date: '2023-06-15' },
+        { id: 'a3', name: 'Bitcoin', category: AssetCategory.Crypto, amountInvested: 100000, currentValue: 150000, currency: 'EUR', date: '2023-06-15' },
       ],
     },
     {
       id: 'b3',
       name: 'Safe Haven',
       assets: [
-        { id: 'a1', name: 'Emergency Fund', category: AssetCategory.EmergencyFund, amountInvested: 3000, currentValue: 3000, date: '2024-01-01' },
-        { id: 'a2', name: 'Savings Account', category: AssetCategory.Savings, amountInvested: 500, currentValue: 500, date: '2024-01-01' },
+        { id: 'a1', name: 'Emergency Fund', category: AssetCategory.EmergencyFund, amountInvested: 300000, currentValue: 300000, currency: 'EUR', date: '2024-01-01' },
+        { id: 'a2', name: 'Savings Account', category: AssetCategory.Savings, amountInvested: 50000, currentValue: 50000, currency: 'EUR', date: '2024-01-01' },
       ],
     }
   ],
@@ -60,19 +70,24 @@ const initialState: FinancialData = {
      {
         id: 'p1',
         name: 'New Standing Desk',
-        cost: 450,
-        category: ExpenseCategory.BusinessExpenses,
+        cost: 45000,
+        category: 'cat-business-expenses',
         justification: 'Improve ergonomics and productivity.',
         status: PurchaseStatus.Considering,
-        dateAdded: '2025-11-10',
+        dateAdded: `${seedMonth}-10`,
     }
   ],
+  exchangeRates: [],
+  categories: DEFAULT_CATEGORIES,
 };
 
 const financialReducer = (state: FinancialData, action: FinancialAction): FinancialData => {
   switch (action.type) {
     case 'SET_STATE':
-      return { ...initialState, ...action.payload };
+      return migrateFinancialData(action.payload);
+    case 'APPLY_SYNC':
+      // Edits made while the sync was in flight are kept on top of what the server sent.
+      return rebaseChanges(action.payload.base, state, migrateFinancialData(action.payload.data)).data;
     case 'ADD_EXPENSE':
       return { ...state, expenses: [...state.expenses, action.payload] };
     case 'UPDATE_EXPENSE':
@@ -109,15 +124,25 @@ const financialReducer = (state: FinancialData, action: FinancialAction): Financ
             ...state,
             income: state.income.filter(i => i.id !== action.payload.id),
         };
+    case 'IMPORT_TRANSACTIONS':
+        return {
+            ...state,
+            expenses: [...state.expenses, ...action.payload.expenses],
+            income: [...state.income, ...action.payload.income],
+        };
     case 'ADD_PURCHASE':
         return { ...state, purchases: [...state.purchases, action.payload] };
-    case 'UPDATE_PURCHASE_STATUS':
+    case 'UPDATE_PURCHASE_STATUS': {
+        // An expense recorded for the purchase is applied in the same step so that one undo reverts both.
+        const { expense } = action.payload;
         return { 
             ...state, 
             purchases: state.purchases.map(p => 
                 p.id === action.payload.id ? { ...p, status: action.payload.status } : p
-            )
+            ),
+            expenses: expense && !state.expenses.some(e => e.id === expense.id) ? [...state.expenses, expense] : state.expenses,
         };
+    }
     case 'ADD_RECURRING_EXPENSE':
         return { ...state, recurringExpenses: [...state.recurringExpenses, action.payload] };
     case 'UPDATE_RECURRING_EXPENSE':
@@ -128,29 +153,12 @@ const financialReducer = (state: FinancialData, action: FinancialAction): Financ
     case 'DELETE_RECURRING_EXPENSE':
         return { ...state, recurringExpenses: state.recurringExpenses.filter(re => re.id !== action.payload.id) };
     case 'LOG_RECURRING_EXPENSES_FOR_MONTH': {
-        const { month } = action.payload; // e.g. "2025-11"
-        
-        const applicableRecurring = state.recurringExpenses
-            .filter(re => new Date(re.startDate + "-01T00:00:00Z") <= new Date(month + "-01T00:00:00Z"));
-            
+        const { month, currency } = action.payload; // e.g. "2025-11"
         const existingExpenseIds = new Set(state.expenses.map(e => e.id));
-        
-        const newExpensesToAdd: Expense[] = [];
-        
-        applicableRecurring.forEach(re => {
-            const loggedExpenseId = `logged-${re.id}-${month}`;
-            
-            if (!existingExpenseIds.has(loggedExpenseId)) {
-                newExpensesToAdd.push({
-                    id: loggedExpenseId,
-                    date: `${month}-01`,
-                    category: re.category,
-                    amount: re.amount,
-                    description: `${re.description} (Recurring)`,
-                    mode: re.mode,
-                });
-            }
-        });
+
+        const newExpensesToAdd = state.recurringExpenses
+            .flatMap(re => getOccurrencesInMonth(re, month).map(date => createRecurringEntry(re, date, currency)))
+            .filter(e => !existingExpenseIds.has(e.id));
 
         if (newExpensesToAdd.length === 0) {
             return state;
@@ -161,6 +169,39 @@ const financialReducer = (state: FinancialData, action: FinancialAction): Financ
             expenses: [...state.expenses, ...newExpensesToAdd] 
         };
     }
+    case 'POST_DUE_RECURRING_EXPENSES': {
+        const { until, currency } = action.payload; // e.g. "2025-11-20"
+        const existingExpenseIds = new Set(state.expenses.map(e => e.id));
+        const posted: Expense[] = [];
+
+        // Each recurring expense remembers how far it has been posted, so entries rejected in review stay deleted.
+        const recurringExpenses = state.recurringExpenses.map(re => {
+            const due = getOccurrences(re, re.postedThrough ?? `${re.startDate}-01`, until)
+                .filter(date => !re.postedThrough || date > re.postedThrough)
+                .map(date => ({ ...createRecurringEntry(re, date, currency), pendingConfirmation: true }))
+                .filter(e => !existingExpenseIds.has(e.id));
+            if (due.length === 0) return re;
+            posted.push(...due);
+            return { ...re, postedThrough: until };
+        });
+
+        if (posted.length === 0) {
+            return state;
+        }
+
+        return { ...state, recurringExpenses, expenses: [...state.expenses, ...posted] };
+    }
+    case 'CONFIRM_EXPENSES': {
+        const amounts = new Map(action.payload.confirmations.map(c => [c.id, c.amount]));
+        return {
+            ...state,
+            expenses: state.expenses.map(e => {
+                if (!amounts.has(e.id)) return e;
+                const { pendingConfirmation, ...confirmed } = e;
+                return { ...confirmed, amount: amounts.get(e.id) ?? e.amount };
+            }),
+        };
+    }
     case 'UPDATE_INCOME_GOAL': {
       const { month, amount } = action.payload;
       const goalExists = state.incomeGoals.some(g => g.month === month);
@@ -215,38 +256,418 @@ const financialReducer = (state: FinancialData, action: FinancialAction): Financ
             : b
         ),
       };
+    case 'ADD_EXCHANGE_RATE':
+      return { ...state, exchangeRates: [...state.exchangeRates, action.payload] };
+    case 'DELETE_EXCHANGE_RATE':
+      return { ...state, exchangeRates: state.exchangeRates.filter(r => r.id !== action.payload.id) };
+    case 'ADD_CATEGORY':
+      return { ...state, categories: [...state.categories, action.payload] };
+    case 'UPDATE_CATEGORY':
+      return {
+        ...state,
+        categories: state.categories.map(c => c.id === action.payload.id ? action.payload : c),
+      };
+    case 'MERGE_CATEGORIES': {
+      const { sourceId, targetId } = action.payload;
+      const target = findCategory(state.categories, targetId);
+      if (sourceId === targetId || !target || target.parentId === sourceId) return state;
+      // Subcategories of the source stay one level deep under the target's top-level category.
+      const parentId = target.parentId ?? target.id;
+      const reassign = <T extends { category: string }>(records: T[]) =>
+        records.map(r => r.category === sourceId ? { ...r, category: targetId } : r);
+      return {
+        ...state,
+        expenses: reassign(state.expenses),
+        recurringExpenses: reassign(state.recurringExpenses),
+        purchases: reassign(state.purchases),
+        categories: state.categories
+          .filter(c => c.id !== sourceId)
+          .map(c => c.parentId === sourceId ? { ...c, parentId } : c),
+      };
+    }
     default:
       return state;
   }
 };
 
-const FinancialContext = createContext<{ state: FinancialData; dispatch: React.Dispatch<FinancialAction> }>({
+interface FinancialContextValue {
+  state: FinancialData;
+  dispatch: React.Dispatch<FinancialAction>;
+  loadError: string | null;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  lastChange: LastChange | null;
+  readJournal: () => Promise<JournalEntry[]>;
+  journalRevision: number; // Increases whenever new journal entries have been written
+  readSnapshots: () => Promise<Snapshot[]>; // Newest first, with data migrated to the current schema
+  createRestorePoint: () => Promise<void>;
+  deleteSnapshot: (id: string) => Promise<void>;
+  snapshotRevision: number;
+  syncConflicts: number; // Records edited both here and in another tab, kept in this tab's version
+  dismissSyncConflicts: () => void;
+}
+
+const FinancialContext = createContext<FinancialContextValue>({
   state: initialState,
   dispatch: () => null,
+  loadError: null,
+  undo: () => null,
+  redo: () => null,
+  canUndo: false,
+  canRedo: false,
+  lastChange: null,
+  readJournal: async () => [],
+  journalRevision: 0,
+  readSnapshots: async () => [],
+  createRestorePoint: async () => undefined,
+  deleteSnapshot: async () => undefined,
+  snapshotRevision: 0,
+  syncConflicts: 0,
+  dismissSyncConflicts: () => null,
 });
 
-export const FinancialProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [storedState, setStoredState] = useLocalStorage<FinancialData>('financialData', initialState);
-  const [state, dispatch] = useReducer(financialReducer, storedState);
+const SNAPSHOT_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+interface LoadedData {
+  profileId: string;
+  storage: StorageAdapter;
+  data: FinancialData;
+  // What the storage currently holds in current-schema form, or null if it must be rewritten in full.
+  persisted: FinancialData | null;
+  revision: number;
+  history: PersistedHistory;
+  persistedHistory: PersistedHistory | null;
+  error: string | null;
+}
+
+const emptyHistory: PersistedHistory = { past: [], future: [] };
+
+const loadHistory = async (storage: StorageAdapter): Promise<{ history: PersistedHistory; unchanged: boolean }> => {
+  try {
+    const stored = await storage.loadHistory();
+    if (!stored) {
+      return { history: emptyHistory, unchanged: false };
+    }
+    let unchanged = true;
+    const migrateEntries = (entries: HistoryEntry[]) => entries.flatMap(entry => {
+      if (getSchemaVersion(entry.state) === CURRENT_SCHEMA_VERSION) return [entry];
+      unchanged = false;
+      try {
+        return [{ ...entry, state: migrateFinancialData(entry.state) }];
+      } catch {
+        return [];
+      }
+    });
+    const history = { past: migrateEntries(stored.past), future: migrateEntries(stored.future) };
+    return { history, unchanged };
+  } catch (error) {
+    console.error("Could not load undo history", error);
+    return { history: emptyHistory, unchanged: false };
+  }
+};
+
+const loadFinancialData = async (profileId: string): Promise<LoadedData> => {
+  let storage: StorageAdapter;
+  try {
+    storage = await openFinancialStorage(profileId);
+  } catch (error) {
+    console.error("Could not open the storage", error);
+    const message = error instanceof Error ? error.message : 'The storage could not be opened.';
+    return {
+      profileId,
+      storage: createUnavailableStorage(message),
+      data: initialState,
+      persisted: null,
+      revision: 0,
+      history: emptyHistory,
+      persistedHistory: null,
+      error: message,
+    };
+  }
+  try {
+    const stored = await storage.load();
+    if (!stored) {
+      // Only the first profile starts out with the example data.
+      const data = profileId === DEFAULT_PROFILE_ID ? initialState : createEmptyFinancialData();
+      return { profileId, storage, data, persisted: null, revision: 0, history: emptyHistory, persistedHistory: null, error: null };
+    }
+    const data = migrateFinancialData(stored.data);
+    const { history, unchanged } = await loadHistory(storage);
+    return {
+      profileId,
+      storage,
+      data,
+      persisted: getSchemaVersion(stored.data) === CURRENT_SCHEMA_VERSION ? data : null,
+      revision: stored.revision,
+      history,
+      persistedHistory: unchanged ? history : null,
+      error: null,
+    };
+  } catch (error) {
+    console.error("Could not load stored financial data", error);
+    return {
+      profileId,
+      storage,
+      data: initialState,
+      persisted: null,
+      revision: 0,
+      history: emptyHistory,
+      persistedHistory: null,
+      error: error instanceof Error ? error.message : 'Stored data could not be read.',
+    };
+  }
+};
+
+const historyReducer = withHistory(financialReducer);
+
+const FinancialStore: React.FC<{ loaded: LoadedData; children: React.ReactNode }> = ({ loaded, children }) => {
+  const [history, dispatchHistory] = useReducer(historyReducer, loaded, (l): HistoryState => ({
+    past: l.history.past,
+    present: l.data,
+    future: l.history.future,
+    lastChange: null,
+    journalQueue: [],
+    syncConflicts: 0,
+  }));
+  const state = history.present;
+  const persistedRef = useRef<FinancialData | null>(loaded.persisted);
+  const persistedHistoryRef = useRef<PersistedHistory | null>(loaded.persistedHistory);
+  const journalInFlightRef = useRef<Set<string>>(new Set());
+  const [journalRevision, setJournalRevision] = useState(0);
+  const [snapshotRevision, setSnapshotRevision] = useState(0);
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const { settings } = useSettings();
+  const retentionRef = useRef(settings.snapshotRetention);
+  retentionRef.current = settings.snapshotRetention;
+  const revisionRef = useRef(loaded.revision);
+  const savingRef = useRef(false);
+  const remoteUpdateRef = useRef(false);
+  const channelRef = useRef<TabChannel | null>(null);
+
+  // Takes over data saved by another tab, keeping any changes made here that it does not have yet.
+  const applyRemoteState = useCallback((data: FinancialData, revision: number) => {
+    dispatchHistory({ type: 'REMOTE_STATE', payload: { base: persistedRef.current, data } });
+    persistedRef.current = data;
+    revisionRef.current = revision;
+  }, []);
+
+  // Saves run one at a time so that each one knows the revision it builds on.
+  const flushSave = useCallback(async () => {
+    // Never overwrite data we failed to read (e.g. saved by a newer version) with the fallback state.
+    if (loaded.error || savingRef.current) return;
+    savingRef.current = true;
+    try {
+      while (stateRef.current !== persistedRef.current) {
+        const next = stateRef.current;
+        const expectedRevision = revisionRef.current;
+        const revision = await loaded.storage.save(next, persistedRef.current, expectedRevision);
+        // A newer state from another tab arrived while saving; carry on once it has been merged and rendered.
+        if (revisionRef.current !== expectedRevision) break;
+        if (revision === null) {
+          // Another tab saved first and its message has not arrived (yet). Rebase on what it saved;
+          // the merged state is saved once it has rendered.
+          const latest = await loaded.storage.load();
+          if (latest) {
+            applyRemoteState(migrateFinancialData(latest.data), latest.revision);
+          } else {
+            persistedRef.current = null;
+            revisionRef.current = 0;
+          }
+          break;
+        }
+        persistedRef.current = next;
+        revisionRef.current = revision;
+        channelRef.current?.post({ type: 'saved', revision });
+      }
+    } catch (error) {
+      console.error("Could not save financial data", error);
+      persistedRef.current = null; // Rewrite everything on the next change.
+    } finally {
+      savingRef.current = false;
+    }
+  }, [loaded, applyRemoteState]);
 
   useEffect(() => {
-    setStoredState(state);
-  }, [state, setStoredState]);
-  
+    flushSave();
+  }, [state, flushSave]);
+
   useEffect(() => {
-    const rawData = window.localStorage.getItem('financialData');
-    if (!rawData || !JSON.parse(rawData).investmentBaskets) { 
-      dispatch({ type: 'SET_STATE', payload: initialState });
+    if (loaded.error) return;
+    const channel = openTabChannel(loaded.profileId, message => {
+      if (message.type === 'saved') {
+        if (message.revision <= revisionRef.current) return;
+        loaded.storage.load().then(latest => {
+          // This tab may have taken over the same or a later save while loading.
+          if (!latest || latest.revision <= revisionRef.current) return;
+          // The undo stacks stored alongside belong to the tab that saved, so this tab leaves them alone.
+          remoteUpdateRef.current = true;
+          applyRemoteState(migrateFinancialData(latest.data), latest.revision);
+        }).catch(error => console.error("Could not load data saved in another tab", error));
+      } else if (message.type === 'journal') {
+        setJournalRevision(r => r + 1);
+      } else if (message.type === 'snapshots') {
+        setSnapshotRevision(r => r + 1);
+      }
+    });
+    channelRef.current = channel;
+    return () => {
+      channel?.close();
+      channelRef.current = null;
+    };
+  }, [loaded, applyRemoteState]);
+
+  useEffect(() => {
+    const previous = persistedHistoryRef.current;
+    if (remoteUpdateRef.current) {
+      remoteUpdateRef.current = false;
+      persistedHistoryRef.current = null; // Rewrite in full on the next local change.
+      return;
     }
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+    if (loaded.error || (previous && previous.past === history.past && previous.future === history.future)) return;
+    const next = { past: history.past, future: history.future };
+    persistedHistoryRef.current = next;
+    loaded.storage.saveHistory(next, previous).catch(error => {
+      console.error("Could not save undo history", error);
+      persistedHistoryRef.current = null;
+    });
+  }, [history.past, history.future, loaded]);
+
+  useEffect(() => {
+    const pending = history.journalQueue.filter(e => !journalInFlightRef.current.has(e.id));
+    if (loaded.error || pending.length === 0) return;
+    const ids = pending.map(e => e.id);
+    ids.forEach(id => journalInFlightRef.current.add(id));
+    loaded.storage.appendJournal(pending)
+      .then(() => {
+        dispatchHistory({ type: 'JOURNAL_SAVED', payload: { ids } });
+        setJournalRevision(r => r + 1);
+        channelRef.current?.post({ type: 'journal' });
+      })
+      .catch(error => console.error("Could not write to the activity journal", error))
+      .finally(() => ids.forEach(id => journalInFlightRef.current.delete(id)));
+  }, [history.journalQueue, loaded]);
+
+  const readJournal = useCallback(() => loaded.storage.loadJournal()
+    .then(entries => entries.map(entry => migrateJournalEntry(entry, stateRef.current.categories))), [loaded]);
+
+  const saveSnapshot = useCallback(async (kind: SnapshotKind, data: FinancialData) => {
+    await loaded.storage.saveSnapshot(createSnapshot(kind, data));
+    const expired = getExpiredSnapshotIds(await loaded.storage.loadSnapshots(), retentionRef.current);
+    if (expired.length > 0) {
+      await loaded.storage.deleteSnapshots(expired);
+    }
+    setSnapshotRevision(r => r + 1);
+    channelRef.current?.post({ type: 'snapshots' });
+  }, [loaded]);
 
+  useEffect(() => {
+    if (loaded.error) return;
+    let checking = false;
+    const takeDueSnapshots = async () => {
+      if (checking) return;
+      checking = true;
+      try {
+        const snapshots = await loaded.storage.loadSnapshots();
+        for (const kind of ['daily', 'weekly'] as const) {
+          if (isSnapshotDue(kind, snapshots)) {
+            await saveSnapshot(kind, stateRef.current);
+          }
+        }
+      } catch (error) {
+        console.error("Could not create an automatic restore point", error);
+      } finally {
+        checking = false;
+      }
+    };
+    takeDueSnapshots();
+    // The app may stay open for days, so check again now and then.
+    const interval = setInterval(takeDueSnapshots, SNAPSHOT_CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loaded, saveSnapshot]);
+
+  // Posts recurring expenses that came due since the app was last opened, when switched on in Expenses.
+  useEffect(() => {
+    if (loaded.error || !settings.autoPostRecurring) return;
+    dispatchHistory({ type: 'POST_DUE_RECURRING_EXPENSES', payload: { until: toDateKey(new Date()), currency: settings.baseCurrency } });
+  }, [loaded, settings.autoPostRecurring, settings.baseCurrency]);
+
+  // Anything that replaces the whole data set (imports, merges, restores) first saves what it replaces.
+  const dispatch = useCallback((action: FinancialAction) => {
+    if (action.type === 'SET_STATE' && !loaded.error) {
+      saveSnapshot('pre-import', stateRef.current).catch(error => console.error("Could not create a restore point before the import", error));
+    }
+    dispatchHistory(action);
+  }, [loaded, saveSnapshot]);
+
+  const readSnapshots = useCallback(async () => {
+    const snapshots = await loaded.storage.loadSnapshots();
+    return snapshots
+      .flatMap(snapshot => {
+        try {
+          return [{ ...snapshot, data: migrateFinancialData(snapshot.data) }];
+        } catch {
+          return []; // Written by a newer version
+        }
+      })
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }, [loaded]);
+
+  const createRestorePoint = useCallback(() => saveSnapshot('manual', stateRef.current), [saveSnapshot]);
+
+  const deleteSnapshot = useCallback(async (id: string) => {
+    await loaded.storage.deleteSnapshots([id]);
+    setSnapshotRevision(r => r + 1);
+    channelRef.current?.post({ type: 'snapshots' });
+  }, [loaded]);
+
+  const undo = useCallback(() => dispatchHistory({ type: 'UNDO' }), []);
+  const redo = useCallback(() => dispatchHistory({ type: 'REDO' }), []);
+  const dismissSyncConflicts = useCallback(() => dispatchHistory({ type: 'DISMISS_SYNC_CONFLICTS' }), []);
 
   return (
-    <FinancialContext.Provider value={{ state, dispatch }}>
+    <FinancialContext.Provider value={{
+      state,
+      dispatch,
+      loadError: loaded.error,
+      undo,
+      redo,
+      canUndo: history.past.length > 0,
+      canRedo: history.future.length > 0,
+      lastChange: history.lastChange,
+      readJournal,
+      journalRevision,
+      readSnapshots,
+      createRestorePoint,
+      deleteSnapshot,
+      snapshotRevision,
+      syncConflicts: history.syncConflicts,
+      dismissSyncConflicts,
+    }}>
       {children}
     </FinancialContext.Provider>
   );
 };
 
-export const useFinancials = () => useContext(FinancialContext);
\ No newline at end of file
+export const FinancialProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { activeProfile } = useProfiles();
+  const [loaded, setLoaded] = useState<LoadedData | null>(null);
+
+  useEffect(() => {
+    loadFinancialData(activeProfile.id).then(setLoaded);
+  }, [activeProfile.id]);
+
+  if (!loaded) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-background text-text-secondary animate-pulse">
+        Loading your data...
+      </div>
+    );
+  }
+
+  return <FinancialStore loaded={loaded}>{children}</FinancialStore>;
+};
+
+export const useFinancials = (): FinancialContextValue => useContext(FinancialContext);
@@ -0,0 +1,40 @@
+import React, { createContext, useContext, useMemo, useState } from 'react';
+import { Period, formatPeriod, getPeriod, getPeriodMonths } from '../services/periods';
+import { useFormatter } from '../hooks/useFormatter';
+
+interface PeriodContextValue {
+  period: Period;
+  setPeriod: (period: Period) => void;
+}
+
+const PeriodContext = createContext<PeriodContextValue>({
+  period: getPeriod('month'),
+  setPeriod: () => null,
+});
+
+// The period selected in the app shell. It is view state, so it is not saved and starts at the current month.
+export const PeriodProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [period, setPeriod] = useState<Period>(() => getPeriod('month'));
+
+  const value = useMemo(() => ({ period, setPeriod }), [period]);
+
+  return (
+    <PeriodContext.Provider value={value}>
+      {children}
+    </PeriodContext.Provider>
+  );
+};
+
+// Labels follow the profile's format preferences, which live below the provider.
+export function usePeriod() {
+  const { period, setPeriod } = useContext(PeriodContext);
+  const formatter = useFormatter();
+
+  return useMemo(() => ({
+    period,
+    periodLabel: formatPeriod(period, formatter),
+    // The months the period touches, for per-month charts and tables.
+    periodMonths: getPeriodMonths(period, formatter),
+    setPeriod,
+  }), [period, setPeriod, formatter]);
+}
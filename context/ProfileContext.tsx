@@ -0,0 +1,107 @@
+import React, { createContext, useContext, useCallback, useMemo } from 'react';
+import { FinancialData, Profile } from '../types';
+import { useLocalStorage } from '../hooks/useLocalStorage';
+import { migrateFinancialData } from '../services/migrations';
+import { deleteFinancialStorage, openFinancialStorage } from '../services/storage';
+import {
+  ACTIVE_PROFILE_KEY,
+  DEFAULT_PROFILES,
+  DEFAULT_PROFILE_ID,
+  ProfileExport,
+  checkProfileExportVersion,
+  createProfileExport,
+  createProfileId,
+  profileStorageKey,
+  readProfileValue,
+  removeProfileValues,
+  writeProfileValue,
+} from '../services/profiles';
+
+interface ProfileContextValue {
+  profiles: Profile[];
+  activeProfile: Profile;
+  switchProfile: (id: string) => void;
+  createProfile: (name: string) => Profile;
+  renameProfile: (id: string, name: string) => void;
+  deleteProfile: (id: string) => Promise<void>;
+  exportProfile: (id: string) => Promise<ProfileExport>;
+  // `data` is the bundle's data after migration and validation.
+  importProfile: (bundle: ProfileExport, data: FinancialData) => Promise<Profile>;
+}
+
+const ProfileContext = createContext<ProfileContextValue>({
+  profiles: DEFAULT_PROFILES,
+  activeProfile: DEFAULT_PROFILES[0],
+  switchProfile: () => null,
+  createProfile: () => DEFAULT_PROFILES[0],
+  renameProfile: () => null,
+  deleteProfile: async () => undefined,
+  exportProfile: async () => { throw new Error('No profile provider.'); },
+  importProfile: async () => DEFAULT_PROFILES[0],
+});
+
+export const ProfileProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [storedProfiles, setProfiles] = useLocalStorage<Profile[]>('profiles', DEFAULT_PROFILES);
+  const [activeId, setActiveId] = useLocalStorage<string>(ACTIVE_PROFILE_KEY, DEFAULT_PROFILE_ID);
+  const profiles = storedProfiles.length > 0 ? storedProfiles : DEFAULT_PROFILES;
+  const activeProfile = profiles.find(p => p.id === activeId) ?? profiles[0];
+
+  const switchProfile = useCallback((id: string) => setActiveId(id), [setActiveId]);
+
+  const createProfile = useCallback((name: string) => {
+    const profile = { id: createProfileId(), name };
+    setProfiles([...profiles, profile]);
+    return profile;
+  }, [profiles, setProfiles]);
+
+  const renameProfile = useCallback((id: string, name: string) => {
+    setProfiles(profiles.map(p => p.id === id ? { ...p, name } : p));
+  }, [profiles, setProfiles]);
+
+  const deleteProfile = useCallback(async (id: string) => {
+    if (id === activeProfile.id) throw new Error('Switch to another profile before deleting this one.');
+    setProfiles(profiles.filter(p => p.id !== id));
+    removeProfileValues(id);
+    await deleteFinancialStorage(id);
+  }, [profiles, activeProfile.id, setProfiles]);
+
+  // Reads what the profile has saved, so it works for inactive profiles too.
+  const exportProfile = useCallback(async (id: string) => {
+    const profile = profiles.find(p => p.id === id);
+    if (!profile) throw new Error('Profile not found.');
+    const stored = await (await openFinancialStorage(id)).load();
+    if (!stored) throw new Error(`"${profile.name}" has no saved data yet.`);
+    return createProfileExport(
+      profile.name,
+      readProfileValue(id, 'appSettings', {}),
+      readProfileValue(id, 'csvBankProfiles', []),
+      migrateFinancialData(stored.data),
+    );
+  }, [profiles]);
+
+  const importProfile = useCallback(async (bundle: ProfileExport, data: FinancialData) => {
+    checkProfileExportVersion(bundle);
+    const profile = { id: createProfileId(), name: bundle.name || 'Imported profile' };
+    const storage = await openFinancialStorage(profile.id);
+    await storage.save(data, null, 0);
+    writeProfileValue(profile.id, 'appSettings', bundle.settings ?? {});
+    writeProfileValue(profile.id, 'csvBankProfiles', bundle.bankProfiles ?? []);
+    setProfiles([...profiles, profile]);
+    return profile;
+  }, [profiles, setProfiles]);
+
+  const value = useMemo(() => ({
+    profiles, activeProfile, switchProfile, createProfile, renameProfile, deleteProfile, exportProfile, importProfile,
+  }), [profiles, activeProfile, switchProfile, createProfile, renameProfile, deleteProfile, exportProfile, importProfile]);
+
+  return (
+    <ProfileContext.Provider value={value}>
+      {children}
+    </ProfileContext.Provider>
+  );
+};
+
+export const useProfiles = () => useContext(ProfileContext);
+
+// The local storage key under which the active profile keeps `key`.
+export const useProfileKey = (key: string) => profileStorageKey(useProfiles().activeProfile.id, key);
@@ -0,0 +1,43 @@
+import React, { createContext, useContext, useCallback, useMemo } from 'react';
+import { AppSettings } from '../types';
+import { useLocalStorage } from '../hooks/useLocalStorage';
+import { useProfileKey } from './ProfileContext';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  snapshotRetention: { daily: 7, weekly: 4, 'pre-import': 5 },
+  syncServerUrl: '',
+  syncVaultId: '',
+  displayName: '',
+  planningPeriod: { startMonth: '', months: 14 },
+  baseCurrency: 'EUR',
+  locale: 'de-DE',
+  currencyPosition: 'before',
+  dateFormat: 'locale',
+  weekStartsOn: 1,
+  autoPostRecurring: false,
+};
+
+interface SettingsContextValue {
+  settings: AppSettings;
+  updateSettings: (changes: Partial<AppSettings>) => void;
+}
+
+const SettingsContext = createContext<SettingsContextValue>({
+  settings: DEFAULT_SETTINGS,
+  updateSettings: () => null,
+});
+
+export const SettingsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [stored, setStored] = useLocalStorage<Partial<AppSettings>>(useProfileKey('appSettings'), DEFAULT_SETTINGS);
+  // Settings saved by an older version may lack newer keys.
+  const settings = useMemo(() => ({ ...DEFAULT_SETTINGS, ...stored }), [stored]);
+  const updateSettings = useCallback((changes: Partial<AppSettings>) => setStored({ ...settings, ...changes }), [settings, setStored]);
+
+  return (
+    <SettingsContext.Provider value={{ settings, updateSettings }}>
+      {children}
+    </SettingsContext.Provider>
+  );
+};
+
+export const useSettings = () => useContext(SettingsContext);
@@ -0,0 +1,108 @@
+import { FinancialAction, FinancialData, HistoryEntry, JournalEntry } from '../types';
+import { describeAction, isDestructiveAction } from '../services/actionLabels';
+import { createJournalEntry } from '../services/journal';
+import { rebaseChanges } from '../services/merge';
+
+export const HISTORY_LIMIT = 30;
+
+export interface LastChange {
+  id: number;
+  kind: 'do' | 'undo' | 'redo';
+  label: string;
+  destructive: boolean;
+}
+
+export interface HistoryState {
+  past: HistoryEntry[];
+  present: FinancialData;
+  future: HistoryEntry[];
+  lastChange: LastChange | null;
+  // Journal entries produced by recent changes that have not been written to storage yet.
+  journalQueue: JournalEntry[];
+  // Records edited both here and in another tab since the user was last told about it.
+  syncConflicts: number;
+}
+
+export type HistoryAction =
+  | FinancialAction
+  | { type: 'UNDO' }
+  | { type: 'REDO' }
+  | { type: 'JOURNAL_SAVED'; payload: { ids: string[] } }
+  // State saved by another tab. `base` is the state this tab last saved or received, used to keep local changes.
+  | { type: 'REMOTE_STATE'; payload: { base: FinancialData | null; data: FinancialData } }
+  | { type: 'DISMISS_SYNC_CONFLICTS' };
+
+let entryCounter = 0;
+const createEntry = (state: FinancialData, label: string): HistoryEntry => ({
+  id: `h-${Date.now()}-${entryCounter++}`,
+  label,
+  state,
+});
+
+const nextChange = (history: HistoryState, change: Omit<LastChange, 'id'>): LastChange => ({
+  id: (history.lastChange?.id ?? 0) + 1,
+  ...change,
+});
+
+// Wraps the financial reducer with bounded undo/redo stacks of full snapshots, and queues a journal
+// entry for every change. Actions that leave the state untouched create neither.
+export const withHistory = (reducer: (state: FinancialData, action: FinancialAction) => FinancialData) =>
+  (history: HistoryState, action: HistoryAction): HistoryState => {
+    switch (action.type) {
+      case 'UNDO': {
+        const entry = history.past[history.past.length - 1];
+        if (!entry) return history;
+        return {
+          ...history,
+          past: history.past.slice(0, -1),
+          present: entry.state,
+          future: [createEntry(history.present, entry.label), ...history.future],
+          lastChange: nextChange(history, { kind: 'undo', label: entry.label, destructive: false }),
+          journalQueue: [...history.journalQueue, createJournalEntry('UNDO', `Undo: ${entry.label}`, undefined, history.present, entry.state)],
+        };
+      }
+      case 'REDO': {
+        const entry = history.future[0];
+        if (!entry) return history;
+        return {
+          ...history,
+          past: [...history.past, createEntry(history.present, entry.label)].slice(-HISTORY_LIMIT),
+          present: entry.state,
+          future: history.future.slice(1),
+          lastChange: nextChange(history, { kind: 'redo', label: entry.label, destructive: false }),
+          journalQueue: [...history.journalQueue, createJournalEntry('REDO', `Redo: ${entry.label}`, undefined, history.present, entry.state)],
+        };
+      }
+      case 'JOURNAL_SAVED': {
+        const saved = new Set(action.payload.ids);
+        return { ...history, journalQueue: history.journalQueue.filter(e => !saved.has(e.id)) };
+      }
+      case 'REMOTE_STATE': {
+        // Snapshots taken before another tab's change would silently revert it on undo, so the stacks are dropped.
+        const { data, conflicts } = rebaseChanges(action.payload.base ?? action.payload.data, history.present, action.payload.data);
+        return {
+          ...history,
+          past: [],
+          present: data,
+          future: [],
+          lastChange: null,
+          syncConflicts: history.syncConflicts + conflicts,
+        };
+      }
+      case 'DISMISS_SYNC_CONFLICTS':
+        return { ...history, syncConflicts: 0 };
+      default: {
+        const present = reducer(history.present, action);
+        if (present === history.present) return history;
+        const label = describeAction(action);
+        return {
+          ...history,
+          past: [...history.past, createEntry(history.present, label)].slice(-HISTORY_LIMIT),
+          present,
+          future: [],
+          lastChange: nextChange(history, { kind: 'do', label, destructive: isDestructiveAction(action) }),
+          journalQueue: [...history.journalQueue, createJournalEntry(action.type, label, action, history.present, present)],
+        };
+      }
+    }
+  };
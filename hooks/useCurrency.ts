@@ -0,0 +1,20 @@
+import { useMemo } from 'react';
+import { useSettings } from '../context/SettingsContext';
+import { useFinancials } from '../context/FinancialContext';
+import { createConverter } from '../services/currency';
+import { useFormatter } from './useFormatter';
+
+// Converts amounts to the base currency with the user's exchange rates, and formats them.
+export function useCurrency() {
+  const { settings } = useSettings();
+  const { state } = useFinancials();
+  const formatter = useFormatter();
+  const baseCurrency = settings.baseCurrency;
+
+  return useMemo(() => ({
+    baseCurrency,
+    convert: createConverter(state.exchangeRates, baseCurrency),
+    // Without a currency the value is taken to be in the base currency.
+    formatCurrency: (value: number, currency = baseCurrency) => formatter.money(value, currency),
+  }), [state.exchangeRates, baseCurrency, formatter]);
+}
@@ -0,0 +1,14 @@
+import { useMemo } from 'react';
+import { useSettings } from '../context/SettingsContext';
+import { createFormatter } from '../services/format';
+
+// The shared formatter for numbers, amounts and dates, following the format preferences in Settings.
+export function useFormatter() {
+  const { settings } = useSettings();
+  const { locale, currencyPosition, dateFormat } = settings;
+
+  return useMemo(
+    () => createFormatter({ locale, currencyPosition, dateFormat }),
+    [locale, currencyPosition, dateFormat]
+  );
+}
@@ -0,0 +1,19 @@
+import { useMemo } from 'react';
+import { useSettings } from '../context/SettingsContext';
+import { currentMonthKey, getPlanMonths } from '../services/periods';
+import { useFormatter } from './useFormatter';
+
+// The current month and the months of the plan, as configured in Settings.
+export function usePlanningPeriod() {
+  const { settings } = useSettings();
+  const formatter = useFormatter();
+  const currentMonth = currentMonthKey();
+  const { startMonth, months: length } = settings.planningPeriod;
+
+  return useMemo(() => ({
+    currentMonth,
+    currentMonthLabel: formatter.month(currentMonth),
+    months: getPlanMonths({ startMonth, months: length }, new Date(), formatter),
+  // currentMonth is a dependency so that a rolling plan moves on when the month changes.
+  }), [currentMonth, startMonth, length, formatter]);
+}
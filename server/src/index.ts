@@ -0,0 +1,106 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { PushChange, PushRequest } from './protocol.js';
+import { VAULT_ID_PATTERN, VaultStore } from './store.js';
+
+const PORT = Number(process.env.PORT ?? 8787);
+const HOST = process.env.HOST ?? '0.0.0.0';
+const DATA_DIR = process.env.DATA_DIR ?? './data';
+const MAX_BODY_BYTES = Number(process.env.MAX_BODY_BYTES ?? 5 * 1024 * 1024);
+
+class HttpError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+    }
+}
+
+const store = new VaultStore(DATA_DIR);
+
+// The app is served from another origin than the sync server, so every response allows cross-origin calls.
+const CORS_HEADERS = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Max-Age': '86400',
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+};
+
+const readBody = async (req: IncomingMessage): Promise<string> => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Request body is too large.');
+        chunks.push(chunk);
+    }
+    return Buffer.concat(chunks).toString('utf8');
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isPushChange = (value: unknown): value is PushChange =>
+    isObject(value) && typeof value.key === 'string' && value.key.length > 0 && value.key.length <= 128
+    && typeof value.baseRevision === 'number' && Number.isInteger(value.baseRevision) && value.baseRevision >= 0
+    && (value.payload === null || typeof value.payload === 'string');
+
+const parsePushRequest = (body: string): PushRequest => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(body);
+    } catch {
+        throw new HttpError(400, 'Request body is not valid JSON.');
+    }
+    if (!isObject(parsed) || !Array.isArray(parsed.changes) || !parsed.changes.every(isPushChange)) {
+        throw new HttpError(400, 'Expected { changes: [{ key, baseRevision, payload }] }.');
+    }
+    return { changes: parsed.changes };
+};
+
+const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204, CORS_HEADERS);
+        res.end();
+        return;
+    }
+
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname === '/v1/health') {
+        sendJson(res, 200, { ok: true });
+        return;
+    }
+
+    const match = url.pathname.match(/^\/v1\/vaults\/([^/]+)\/changes$/);
+    if (!match) throw new HttpError(404, 'Not found.');
+    const vaultId = match[1];
+    if (!VAULT_ID_PATTERN.test(vaultId)) throw new HttpError(400, 'Invalid sync code.');
+
+    if (req.method === 'GET') {
+        const since = Number(url.searchParams.get('since') ?? 0);
+        if (!Number.isInteger(since) || since < 0) throw new HttpError(400, 'Invalid "since" revision.');
+        sendJson(res, 200, await store.changesSince(vaultId, since));
+    } else if (req.method === 'POST') {
+        const request = parsePushRequest(await readBody(req));
+        sendJson(res, 200, await store.push(vaultId, request.changes));
+    } else {
+        throw new HttpError(405, 'Method not allowed.');
+    }
+};
+
+const server = createServer((req, res) => {
+    handle(req, res).catch(error => {
+        if (error instanceof HttpError) {
+            sendJson(res, error.status, { error: error.message });
+        } else {
+            console.error(error);
+            sendJson(res, 500, { error: 'Internal server error.' });
+        }
+    });
+});
+
+server.listen(PORT, HOST, () => {
+    console.log(`WaveFinances sync server listening on http://${HOST}:${PORT} (data in ${DATA_DIR})`);
+});
@@ -0,0 +1,90 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { ChangesResponse, PushChange, PushResponse, RecordChange } from './protocol.js';
+
+interface Vault {
+    revision: number;
+    records: Record<string, RecordChange>;
+}
+
+export const VAULT_ID_PATTERN = /^[A-Za-z0-9_-]{16,64}$/;
+
+// Keeps each vault in its own JSON file. Writes to a vault are queued so pushes never interleave.
+export class VaultStore {
+    private vaults = new Map<string, Vault>();
+    private queues = new Map<string, Promise<unknown>>();
+
+    constructor(private dataDir: string) {}
+
+    private filePath(vaultId: string) {
+        return path.join(this.dataDir, `${vaultId}.json`);
+    }
+
+    private async load(vaultId: string): Promise<Vault> {
+        const cached = this.vaults.get(vaultId);
+        if (cached) return cached;
+        let vault: Vault;
+        try {
+            vault = JSON.parse(await readFile(this.filePath(vaultId), 'utf8'));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+            vault = { revision: 0, records: {} };
+        }
+        this.vaults.set(vaultId, vault);
+        return vault;
+    }
+
+    // Written to a temporary file first so a crash never leaves a half-written vault behind.
+    private async persist(vaultId: string, vault: Vault) {
+        await mkdir(this.dataDir, { recursive: true });
+        const target = this.filePath(vaultId);
+        await writeFile(`${target}.tmp`, JSON.stringify(vault));
+        await rename(`${target}.tmp`, target);
+    }
+
+    private enqueue<T>(vaultId: string, task: () => Promise<T>): Promise<T> {
+        const previous = this.queues.get(vaultId) ?? Promise.resolve();
+        const next = previous.catch(() => undefined).then(task);
+        this.queues.set(vaultId, next);
+        return next;
+    }
+
+    async changesSince(vaultId: string, since: number): Promise<ChangesResponse> {
+        const vault = await this.enqueue(vaultId, () => this.load(vaultId));
+        const changes = Object.values(vault.records)
+            .filter(record => record.revision > since)
+            .sort((a, b) => a.revision - b.revision);
+        return { revision: vault.revision, changes };
+    }
+
+    push(vaultId: string, changes: PushChange[]): Promise<PushResponse> {
+        return this.enqueue(vaultId, async () => {
+            const vault = await this.load(vaultId);
+            const accepted: PushResponse['accepted'] = [];
+            const conflicts: RecordChange[] = [];
+            changes.forEach(change => {
+                const current = vault.records[change.key];
+                // A key the vault does not have is taken as new whatever its base revision, e.g. after the
+                // vault file was reset; otherwise the client would retry it on every sync.
+                if (current && current.revision !== change.baseRevision) {
+                    conflicts.push(current);
+                    return;
+                }
+                vault.revision += 1;
+                // Deleted records stay as tombstones so devices that sync later learn about the deletion.
+                vault.records[change.key] = { key: change.key, revision: vault.revision, payload: change.payload };
+                accepted.push({ key: change.key, revision: vault.revision });
+            });
+            if (accepted.length > 0) {
+                try {
+                    await this.persist(vaultId, vault);
+                } catch (error) {
+                    // Forget the unsaved changes so memory and disk stay in step.
+                    this.vaults.delete(vaultId);
+                    throw error;
+                }
+            }
+            return { revision: vault.revision, accepted, conflicts };
+        });
+    }
+}
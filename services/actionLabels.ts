@@ -0,0 +1,53 @@
+import { FinancialAction } from '../types';
+
+const ACTION_LABELS: Record<FinancialAction['type'], string> = {
+    SET_STATE: 'Replace all data',
+    APPLY_SYNC: 'Sync with server',
+    ADD_EXPENSE: 'Add expense',
+    UPDATE_EXPENSE: 'Edit expense',
+    DELETE_EXPENSE: 'Delete expense',
+    ADD_RECURRING_EXPENSE: 'Add recurring expense',
+    UPDATE_RECURRING_EXPENSE: 'Edit recurring expense',
+    DELETE_RECURRING_EXPENSE: 'Delete recurring expense',
+    LOG_RECURRING_EXPENSES_FOR_MONTH: 'Log recurring expenses',
+    POST_DUE_RECURRING_EXPENSES: 'Post due recurring expenses',
+    CONFIRM_EXPENSES: 'Confirm recurring expenses',
+    ADD_DEBT: 'Add debt',
+    UPDATE_DEBT: 'Edit debt',
+    DELETE_DEBT: 'Delete debt',
+    ADD_INCOME: 'Add income',
+    UPDATE_INCOME: 'Edit income',
+    DELETE_INCOME: 'Delete income',
+    IMPORT_TRANSACTIONS: 'Import bank transactions',
+    ADD_PURCHASE: 'Add purchase idea',
+    UPDATE_PURCHASE_STATUS: 'Change purchase status',
+    UPDATE_INCOME_GOAL: 'Update income goal',
+    UPDATE_DEBT_BALANCE: 'Update debt balance',
+    UPDATE_BASKET_NAME: 'Rename basket',
+    ADD_ASSET: 'Add asset',
+    UPDATE_ASSET: 'Edit asset',
+    DELETE_ASSET: 'Delete asset',
+    ADD_EXCHANGE_RATE: 'Add exchange rate',
+    DELETE_EXCHANGE_RATE: 'Delete exchange rate',
+    ADD_CATEGORY: 'Add category',
+    UPDATE_CATEGORY: 'Edit category',
+    MERGE_CATEGORIES: 'Merge categories',
+};
+
+// Actions that remove or overwrite data and get an "Undo" prompt right after they happen.
+const DESTRUCTIVE_ACTIONS: FinancialAction['type'][] = [
+    'SET_STATE',
+    'APPLY_SYNC',
+    'DELETE_EXPENSE',
+    'DELETE_RECURRING_EXPENSE',
+    'DELETE_DEBT',
+    'DELETE_INCOME',
+    'DELETE_ASSET',
+    'DELETE_EXCHANGE_RATE',
+    'MERGE_CATEGORIES',
+    'UPDATE_PURCHASE_STATUS',
+];
+
+export const describeAction = (action: FinancialAction): string => ACTION_LABELS[action.type];
+
+export const isDestructiveAction = (action: FinancialAction): boolean => DESTRUCTIVE_ACTIONS.includes(action.type);
@@ -0,0 +1,150 @@
+import { ExpenseMode, FinancialData, IncomeSource, JournalEntry, Money } from '../types';
+import { DateLabels, generateMonths } from './periods';
+import { Converter } from './currency';
+import { subtractMoney, sumMoney } from './money';
+import { categoryColor, categoryPath, rootCategoryId } from './categories';
+
+// A year in review, computed locally from the data and the activity journal. Transactions are dated, so totals
+// are exact; balances are not, so the net worth and debts at the start and end of the year are reconstructed by
+// rewinding the journal's changes from today's values. All amounts are converted to the base currency.
+
+export interface ReportSlice {
+    name: string;
+    value: Money;
+    color?: string;
+}
+
+export interface ReportMonth {
+    key: string; // YYYY-MM
+    label: string;
+    income: Money;
+    expenses: Money;
+    net: Money;
+}
+
+export interface AnnualReport {
+    year: number;
+    totalIncome: Money;
+    totalExpenses: Money;
+    netSavings: Money;
+    savingsRate: number | null; // Share of income not spent; null without income
+    incomeBySource: ReportSlice[];
+    expensesByCategory: ReportSlice[];
+    expensesByMode: ReportSlice[];
+    months: ReportMonth[];
+    bestMonth: ReportMonth | null;
+    worstMonth: ReportMonth | null;
+    netWorthStart: Money;
+    netWorthEnd: Money;
+    netWorthChange: Money;
+    debtPaidDown: Money;
+    // Balances before the first journal entry are unknown and taken to be unchanged since.
+    historyStartsAt: string | null;
+}
+
+const sumBy = <T extends string>(names: T[], items: { key: T; amount: number }[]): ReportSlice[] =>
+    names
+        .map(name => ({ name: name as string, value: sumMoney(items.filter(i => i.key === name), i => i.amount) }))
+        .filter(slice => slice.value !== 0)
+        .sort((a, b) => b.value - a.value);
+
+// Subcategories count towards their top-level category.
+const sumByCategory = (data: FinancialData, expenses: { category: string; amount: Money }[]): ReportSlice[] => {
+    const items = expenses.map(e => ({ key: rootCategoryId(data.categories, e.category), amount: e.amount }));
+    return sumBy([...new Set(items.map(i => i.key))], items).map(slice => ({
+        name: categoryPath(data.categories, slice.name),
+        value: slice.value,
+        color: categoryColor(data.categories, slice.name),
+    }));
+};
+
+interface Balances {
+    debts: Map<string, Money>;
+    assets: Map<string, Money>;
+}
+
+// Balances are converted at the moment's rates; journal entries from before currencies existed have none.
+const balancesAt = (data: FinancialData, journal: JournalEntry[], moment: string, convert: Converter): Balances => {
+    const balances: Balances = {
+        debts: new Map(data.debts.map(d => [d.id, convert(d.currentBalance, d.currency, moment)])),
+        assets: new Map(data.investmentBaskets.flatMap(b => b.assets).map(a => [a.id, convert(a.currentValue, a.currency, moment)])),
+    };
+    // Undo every change made after the moment, newest first.
+    for (let i = journal.length - 1; i >= 0 && journal[i].timestamp >= moment; i--) {
+        journal[i].changes.forEach(change => {
+            if (change.entity !== 'debt' && change.entity !== 'asset') return;
+            const map = change.entity === 'debt' ? balances.debts : balances.assets;
+            const field = change.entity === 'debt' ? 'currentBalance' : 'currentValue';
+            if (change.before) {
+                map.set(change.id, convert(Number(change.before[field]) || 0, change.before.currency as string | undefined, moment));
+            } else {
+                map.delete(change.id);
+            }
+        });
+    }
+    return balances;
+};
+
+const netWorthOf = ({ debts, assets }: Balances) =>
+    subtractMoney(sumMoney([...assets.values()], v => v), sumMoney([...debts.values()], v => v));
+
+// Years with transactions, and the current year, newest first.
+export const getReportYears = (data: FinancialData, now = new Date()): number[] => {
+    const years = new Set([now.getFullYear()]);
+    [...data.income, ...data.expenses].forEach(t => {
+        const year = Number(t.date.slice(0, 4));
+        if (year > 1900) years.add(year);
+    });
+    return [...years].sort((a, b) => b - a);
+};
+
+export const buildAnnualReport = (data: FinancialData, journal: JournalEntry[], year: number, convert: Converter, labels?: Pick<DateLabels, 'month'>): AnnualReport => {
+    const prefix = `${year}-`;
+    const income = data.income.filter(i => i.date.startsWith(prefix)).map(i => ({ ...i, amount: convert(i.amount, i.currency, i.date) }));
+    const expenses = data.expenses.filter(e => e.date.startsWith(prefix)).map(e => ({ ...e, amount: convert(e.amount, e.currency, e.date) }));
+    const totalIncome = sumMoney(income, i => i.amount);
+    const totalExpenses = sumMoney(expenses, e => e.amount);
+
+    const months = generateMonths(`${year}-01`, 12, labels).map(({ key, label }) => {
+        const monthIncome = sumMoney(income.filter(i => i.date.startsWith(key)), i => i.amount);
+        const monthExpenses = sumMoney(expenses.filter(e => e.date.startsWith(key)), e => e.amount);
+        return { key, label, income: monthIncome, expenses: monthExpenses, net: subtractMoney(monthIncome, monthExpenses) };
+    });
+    const activeMonths = months.filter(m => m.income !== 0 || m.expenses !== 0);
+    const byNet = activeMonths.slice().sort((a, b) => b.net - a.net);
+
+    const sorted = journal.slice().sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    const yearStart = new Date(year, 0, 1).toISOString();
+    const yearEnd = new Date(year + 1, 0, 1).toISOString();
+    const netWorthStart = netWorthOf(balancesAt(data, sorted, yearStart, convert));
+    const netWorthEnd = netWorthOf(balancesAt(data, sorted, yearEnd, convert));
+
+    // Net of all balance updates in the year, so an undone payment does not count.
+    const debtPaidDown = sorted
+        .filter(entry => entry.timestamp >= yearStart && entry.timestamp < yearEnd)
+        .flatMap(entry => entry.changes.map(change => ({ change, timestamp: entry.timestamp })))
+        .filter(({ change }) => change.entity === 'debt' && change.kind === 'updated')
+        .reduce((sum, { change, timestamp }) => {
+            const paid = subtractMoney(Number(change.before?.currentBalance) || 0, Number(change.after?.currentBalance) || 0);
+            return sum + convert(paid, change.after?.currency as string | undefined, timestamp);
+        }, 0);
+
+    return {
+        year,
+        totalIncome,
+        totalExpenses,
+        netSavings: subtractMoney(totalIncome, totalExpenses),
+        savingsRate: totalIncome > 0 ? subtractMoney(totalIncome, totalExpenses) / totalIncome : null,
+        incomeBySource: sumBy(Object.values(IncomeSource), income.map(i => ({ key: i.source, amount: i.amount }))),
+        expensesByCategory: sumByCategory(data, expenses),
+        expensesByMode: sumBy(Object.values(ExpenseMode), expenses.map(e => ({ key: e.mode, amount: e.amount }))),
+        months,
+        bestMonth: byNet[0] ?? null,
+        worstMonth: byNet.length > 1 ? byNet[byNet.length - 1] : null,
+        netWorthStart,
+        netWorthEnd,
+        netWorthChange: subtractMoney(netWorthEnd, netWorthStart),
+        debtPaidDown,
+        historyStartsAt: sorted[0]?.timestamp ?? null,
+    };
+};
@@ -0,0 +1,67 @@
+import { Category } from '../types';
+
+// Expenses, recurring expenses and purchase ideas refer to a category by id. Categories nest one level deep:
+// a subcategory's parent is always a top-level category.
+
+export const CATEGORY_SEPARATOR = ' › ';
+
+// The categories every profile starts with; their ids are what the fixed list of earlier versions migrates to.
+export const DEFAULT_CATEGORIES: Category[] = [
+    { id: 'cat-housing', name: 'Housing', color: '#212529' },
+    { id: 'cat-food', name: 'Food', color: '#198754' },
+    { id: 'cat-transportation', name: 'Transportation', color: '#0d6efd' },
+    { id: 'cat-training-gym', name: 'Training/Gym', color: '#fd7e14' },
+    { id: 'cat-health', name: 'Health', color: '#dc3545' },
+    { id: 'cat-debt-payments', name: 'Debt Payments', color: '#6c757d' },
+    { id: 'cat-business-expenses', name: 'Business Expenses', color: '#6f42c1' },
+    { id: 'cat-personal', name: 'Personal', color: '#0dcaf0' },
+    { id: 'cat-emergency', name: 'Emergency', color: '#ffc107' },
+    { id: 'cat-other', name: 'Other', color: '#adb5bd' },
+];
+
+export const OTHER_CATEGORY_ID = 'cat-other';
+
+export const findCategory = (categories: Category[], id: string) => categories.find(c => c.id === id);
+
+// e.g. "Food › Restaurants". Ids that no longer exist are shown as they are.
+export const categoryPath = (categories: Category[], id: string): string => {
+    const category = findCategory(categories, id);
+    if (!category) return id || 'Uncategorized';
+    const parent = category.parentId ? findCategory(categories, category.parentId) : undefined;
+    return parent ? `${parent.name}${CATEGORY_SEPARATOR}${category.name}` : category.name;
+};
+
+// The top-level category an expense counts towards in charts and reports.
+export const rootCategoryId = (categories: Category[], id: string) => findCategory(categories, id)?.parentId ?? id;
+
+export const categoryColor = (categories: Category[], id: string) => {
+    const category = findCategory(categories, id);
+    return category?.color ?? findCategory(categories, rootCategoryId(categories, id))?.color ?? '#adb5bd';
+};
+
+// Each top-level category followed by its subcategories, both alphabetically.
+export const sortCategories = (categories: Category[]): Category[] => {
+    const byName = (a: Category, b: Category) => a.name.localeCompare(b.name);
+    const ids = new Set(categories.map(c => c.id));
+    const roots = categories.filter(c => !c.parentId || !ids.has(c.parentId)).sort(byName);
+    return roots.flatMap(root => [root, ...categories.filter(c => c.parentId === root.id).sort(byName)]);
+};
+
+// For pickers: active categories, plus the current one even if it is archived.
+export const getCategoryOptions = (categories: Category[], currentId = '') =>
+    sortCategories(categories)
+        .filter(c => !c.archived || c.id === currentId)
+        .map(c => ({ id: c.id, label: categoryPath(categories, c.id) }));
+
+// Where new records go by default: the preferred category if it is still active, else the first active one.
+export const defaultCategoryId = (categories: Category[], preferredId = OTHER_CATEGORY_ID) => {
+    const preferred = findCategory(categories, preferredId);
+    if (preferred && !preferred.archived) return preferred.id;
+    return sortCategories(categories).find(c => !c.archived)?.id ?? '';
+};
+
+// Looks a category up by the text shown for it, e.g. from older data or a spreadsheet.
+export const findCategoryByName = (categories: Category[], name: string) => {
+    const wanted = name.trim().toLowerCase();
+    return categories.find(c => c.name.toLowerCase() === wanted || categoryPath(categories, c.id).toLowerCase() === wanted);
+};
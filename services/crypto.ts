@@ -0,0 +1,117 @@
+// Passphrase-based encryption using WebCrypto: PBKDF2-SHA-256 derives an AES-GCM key.
+
+export const ENVELOPE_FORMAT = 'wavefinances-encrypted';
+const ENVELOPE_VERSION = 1;
+const PBKDF2_ITERATIONS = 310000;
+
+export interface EncryptedEnvelope {
+    format: typeof ENVELOPE_FORMAT;
+    version: number;
+    kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+    cipher: { name: 'AES-GCM'; iv: string };
+    ciphertext: string;
+}
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+};
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+};
+
+export const deriveKey = async (passphrase: string, salt: Uint8Array, iterations = PBKDF2_ITERATIONS): Promise<CryptoKey> => {
+    const baseKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+        baseKey,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt'],
+    );
+};
+
+export const isEncryptedEnvelope = (value: unknown): value is EncryptedEnvelope =>
+    !!value && typeof value === 'object' && (value as EncryptedEnvelope).format === ENVELOPE_FORMAT;
+
+export const encryptText = async (plaintext: string, passphrase: string): Promise<EncryptedEnvelope> => {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const key = await deriveKey(passphrase, salt);
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext));
+    return {
+        format: ENVELOPE_FORMAT,
+        version: ENVELOPE_VERSION,
+        kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: bytesToBase64(salt) },
+        cipher: { name: 'AES-GCM', iv: bytesToBase64(iv) },
+        ciphertext: bytesToBase64(new Uint8Array(ciphertext)),
+    };
+};
+
+export const decryptText = async (envelope: EncryptedEnvelope, passphrase: string): Promise<string> => {
+    if (envelope.version > ENVELOPE_VERSION) {
+        throw new Error(`This file was encrypted by a newer version of WaveFinances (envelope v${envelope.version}).`);
+    }
+    const key = await deriveKey(passphrase, base64ToBytes(envelope.kdf.salt), envelope.kdf.iterations);
+    try {
+        const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: base64ToBytes(envelope.cipher.iv) }, key, base64ToBytes(envelope.ciphertext));
+        return new TextDecoder().decode(plaintext);
+    } catch {
+        // AES-GCM authentication fails identically for a wrong passphrase and for tampered data.
+        throw new Error('Wrong passphrase, or the file has been damaged.');
+    }
+};
+
+// Keys for the sync server. The vault id is the salt, so every device with the same sync code and
+// passphrase derives the same keys: one to encrypt records, one to turn record ids into opaque keys.
+export interface SyncKeys {
+    encryption: CryptoKey;
+    signing: CryptoKey;
+}
+
+export const deriveSyncKeys = async (passphrase: string, vaultId: string): Promise<SyncKeys> => {
+    const baseKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveBits']);
+    const bits = new Uint8Array(await crypto.subtle.deriveBits(
+        { name: 'PBKDF2', hash: 'SHA-256', salt: new TextEncoder().encode(`wavefinances-sync:${vaultId}`), iterations: PBKDF2_ITERATIONS },
+        baseKey,
+        512,
+    ));
+    return {
+        encryption: await crypto.subtle.importKey('raw', bits.slice(0, 32), 'AES-GCM', false, ['encrypt', 'decrypt']),
+        signing: await crypto.subtle.importKey('raw', bits.slice(32), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']),
+    };
+};
+
+// AES-GCM with a fresh IV, returned as base64 of IV followed by ciphertext.
+export const sealText = async (key: CryptoKey, plaintext: string): Promise<string> => {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext)));
+    const sealed = new Uint8Array(iv.length + ciphertext.length);
+    sealed.set(iv);
+    sealed.set(ciphertext, iv.length);
+    return bytesToBase64(sealed);
+};
+
+export const openText = async (key: CryptoKey, sealed: string): Promise<string> => {
+    const bytes = base64ToBytes(sealed);
+    try {
+        const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: bytes.subarray(0, 12) }, key, bytes.subarray(12));
+        return new TextDecoder().decode(plaintext);
+    } catch {
+        throw new Error('Wrong passphrase for this sync code, or the data on the server has been damaged.');
+    }
+};
+
+export const hmacText = async (key: CryptoKey, text: string): Promise<string> => {
+    const signature = new Uint8Array(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(text)));
+    return bytesToBase64(signature).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
@@ -0,0 +1,177 @@
+import { StatementParseResult, StatementRowError, StatementTransaction } from './statements';
+
+export type CsvDelimiter = ',' | ';' | '\t';
+export type DateFormat = 'YYYY-MM-DD' | 'DD.MM.YYYY' | 'DD/MM/YYYY' | 'MM/DD/YYYY';
+export type DecimalSeparator = '.' | ',';
+
+export const DATE_FORMATS: DateFormat[] = ['YYYY-MM-DD', 'DD.MM.YYYY', 'DD/MM/YYYY', 'MM/DD/YYYY'];
+
+export interface CsvMapping {
+    delimiter: CsvDelimiter;
+    hasHeader: boolean;
+    dateColumn: number;
+    descriptionColumn: number;
+    // 'signed': one amount column, negative for debits. 'debitCredit': separate columns for money out and in.
+    amountMode: 'signed' | 'debitCredit';
+    amountColumn: number;
+    debitColumn: number;
+    creditColumn: number;
+    invertSign: boolean; // Card statements often list charges as positive amounts
+    dateFormat: DateFormat;
+    decimalSeparator: DecimalSeparator;
+}
+
+// A saved mapping for one bank's statement layout.
+export interface CsvBankProfile {
+    id: string;
+    name: string;
+    mapping: CsvMapping;
+}
+
+export const DEFAULT_CSV_MAPPING: CsvMapping = {
+    delimiter: ',',
+    hasHeader: true,
+    dateColumn: 0,
+    descriptionColumn: 1,
+    amountMode: 'signed',
+    amountColumn: 2,
+    debitColumn: 2,
+    creditColumn: 3,
+    invertSign: false,
+    dateFormat: 'YYYY-MM-DD',
+    decimalSeparator: '.',
+};
+
+export const detectDelimiter = (text: string): CsvDelimiter => {
+    const firstLine = text.split(/\r?\n/, 1)[0] || '';
+    const [best] = ([',', ';', '\t'] as CsvDelimiter[])
+        .map(delimiter => ({ delimiter, count: firstLine.split(delimiter).length - 1 }))
+        .sort((a, b) => b.count - a.count);
+    return best.count > 0 ? best.delimiter : ',';
+};
+
+// RFC 4180 parsing: quoted fields may contain delimiters, doubled quotes and line breaks.
+export const parseCsv = (text: string, delimiter: CsvDelimiter): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    const input = text.replace(/^\uFEFF/, '');
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+        if (inQuotes) {
+            if (char === '"' && input[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+// Accepts "1.234,56", "-1,234.56", "1 234,56 €", "(12.00)" and "12,00-" style amounts.
+export const parseAmount = (text: string, decimalSeparator: DecimalSeparator): number | null => {
+    let value = text.trim();
+    if (!value) return null;
+
+    let negative = false;
+    if (/^\(.*\)$/.test(value)) {
+        negative = true;
+        value = value.slice(1, -1);
+    }
+    if (value.endsWith('-')) {
+        negative = true;
+        value = value.slice(0, -1);
+    }
+
+    const thousandsSeparator = decimalSeparator === ',' ? '.' : ',';
+    value = value
+        .replace(/[^\d.,+-]/g, '')
+        .split(thousandsSeparator).join('')
+        .replace(decimalSeparator, '.');
+    if (value.startsWith('-')) {
+        negative = !negative;
+        value = value.slice(1);
+    }
+    value = value.replace(/^\+/, '');
+    if (!/^\d+(\.\d+)?$/.test(value)) return null;
+
+    const amount = parseFloat(value);
+    return negative ? -amount : amount;
+};
+
+export const parseDate = (text: string, format: DateFormat): string | null => {
+    const parts = text.trim().split(/[-./]/).map(p => parseInt(p, 10));
+    if (parts.length < 3 || parts.some(isNaN)) return null;
+
+    let year: number, month: number, day: number;
+    switch (format) {
+        case 'YYYY-MM-DD': [year, month, day] = parts; break;
+        case 'DD.MM.YYYY':
+        case 'DD/MM/YYYY': [day, month, year] = parts; break;
+        case 'MM/DD/YYYY': [month, day, year] = parts; break;
+    }
+    if (year < 100) year += 2000;
+
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+    return date.toISOString().slice(0, 10);
+};
+
+export const mapCsvRows = (rows: string[][], mapping: CsvMapping): StatementParseResult => {
+    const transactions: StatementTransaction[] = [];
+    const errors: StatementRowError[] = [];
+    const firstDataRow = mapping.hasHeader ? 1 : 0;
+
+    rows.slice(firstDataRow).forEach((cells, index) => {
+        const row = index + firstDataRow + 1;
+        const date = parseDate(cells[mapping.dateColumn] ?? '', mapping.dateFormat);
+        if (!date) {
+            errors.push({ row, message: `Unrecognised date "${cells[mapping.dateColumn] ?? ''}"` });
+            return;
+        }
+
+        let amount: number | null;
+        if (mapping.amountMode === 'signed') {
+            amount = parseAmount(cells[mapping.amountColumn] ?? '', mapping.decimalSeparator);
+        } else {
+            const debit = parseAmount(cells[mapping.debitColumn] ?? '', mapping.decimalSeparator);
+            const credit = parseAmount(cells[mapping.creditColumn] ?? '', mapping.decimalSeparator);
+            amount = debit === null && credit === null ? null : Math.abs(credit ?? 0) - Math.abs(debit ?? 0);
+        }
+        if (amount === null || amount === 0) {
+            errors.push({ row, message: 'Missing or zero amount' });
+            return;
+        }
+
+        transactions.push({
+            date,
+            amount: mapping.invertSign ? -amount : amount,
+            description: (cells[mapping.descriptionColumn] ?? '').trim() || 'Bank transaction',
+        });
+    });
+
+    return { transactions, errors };
+};
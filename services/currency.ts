@@ -0,0 +1,82 @@
+import { ExchangeRate, FinancialData, Money } from '../types';
+import { multiplyMoney } from './money';
+import { toDateKey } from './periods';
+
+// Amounts keep the currency they were entered in and are converted to the base currency for totals and charts,
+// using the exchange rate valid on the amount's date.
+
+export const DEFAULT_CURRENCY = 'EUR';
+
+// Offered in the currency pickers; any other ISO 4217 code can be typed in.
+export const COMMON_CURRENCIES = ['EUR', 'USD', 'GBP', 'CHF', 'JPY', 'CAD', 'AUD', 'SEK', 'NOK', 'DKK', 'PLN', 'CZK'];
+
+export const isCurrencyCode = (value: string) => /^[A-Z]{3}$/.test(value);
+
+export const currencySymbol = (currency: string) => {
+    try {
+        const parts = new Intl.NumberFormat('en', { style: 'currency', currency, currencyDisplay: 'narrowSymbol' }).formatToParts(0);
+        return parts.find(p => p.type === 'currency')?.value ?? currency;
+    } catch {
+        return currency; // Not a code Intl knows
+    }
+};
+
+interface DatedRate {
+    date: string;
+    rate: number;
+}
+
+// The rate from `from` to `to`, given directly or in reverse. Uses the latest rate on or before the date,
+// or the earliest one after it when there is none before.
+const directRate = (rates: ExchangeRate[], from: string, to: string, date: string): DatedRate | null => {
+    const candidates: DatedRate[] = rates.flatMap(r => {
+        if (!(r.rate > 0)) return [];
+        if (r.from === from && r.to === to) return [{ date: r.date, rate: r.rate }];
+        if (r.from === to && r.to === from) return [{ date: r.date, rate: 1 / r.rate }];
+        return [];
+    });
+    if (candidates.length === 0) return null;
+    const before = candidates.filter(c => c.date <= date).sort((a, b) => b.date.localeCompare(a.date));
+    if (before.length > 0) return before[0];
+    return candidates.sort((a, b) => a.date.localeCompare(b.date))[0];
+};
+
+// Falls back to going through one other currency, e.g. GBP -> USD -> EUR.
+export const findRate = (rates: ExchangeRate[], from: string, to: string, date: string): number | null => {
+    if (from === to) return 1;
+    const direct = directRate(rates, from, to, date);
+    if (direct) return direct.rate;
+    const via = new Set(rates.flatMap(r => [r.from, r.to]));
+    for (const currency of via) {
+        if (currency === from || currency === to) continue;
+        const first = directRate(rates, from, currency, date);
+        const second = first && directRate(rates, currency, to, date);
+        if (first && second) return first.rate * second.rate;
+    }
+    return null;
+};
+
+// `date` defaults to today, for balances and values that are current rather than historical.
+export type Converter = (amount: Money, currency: string | undefined, date?: string) => Money;
+
+// Amounts without a usable rate are counted one to one; getMissingRates lists those currencies.
+export const createConverter = (rates: ExchangeRate[], baseCurrency: string): Converter => {
+    const today = toDateKey(new Date());
+    return (amount, currency, date = today) => {
+        if (!currency || currency === baseCurrency) return amount;
+        const rate = findRate(rates, currency, baseCurrency, date.slice(0, 10));
+        return rate === null ? amount : multiplyMoney(amount, rate);
+    };
+};
+
+export const getUsedCurrencies = (data: FinancialData): string[] => [...new Set([
+    ...data.expenses.map(e => e.currency),
+    ...data.income.map(i => i.currency),
+    ...data.debts.map(d => d.currency),
+    ...data.investmentBaskets.flatMap(b => b.assets.map(a => a.currency)),
+].filter(Boolean))].sort();
+
+export const getMissingRates = (data: FinancialData, baseCurrency: string): string[] => {
+    const today = toDateKey(new Date());
+    return getUsedCurrencies(data).filter(c => findRate(data.exchangeRates, c, baseCurrency, today) === null);
+};
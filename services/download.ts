@@ -0,0 +1,10 @@
+// Saves generated content through a temporary link, since the app has no server to download from.
+export const downloadFile = (content: string | Uint8Array, fileName: string, mimeType: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const linkElement = document.createElement('a');
+    linkElement.setAttribute('href', url);
+    linkElement.setAttribute('download', fileName);
+    linkElement.click();
+    // Revoking right away can cancel the download in some browsers.
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
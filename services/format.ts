@@ -0,0 +1,110 @@
+import { AppSettings, Money } from '../types';
+import { currencySymbol } from './currency';
+import { toMajor, toMinor } from './money';
+import { DateLabels, dateKeyToDate, formatMonth } from './periods';
+
+// Every number, amount and date the app shows goes through one formatter built from the user's preferences,
+// so tables, charts and forms agree with each other.
+
+export type FormatPreferences = Pick<AppSettings, 'locale' | 'currencyPosition' | 'dateFormat'>;
+
+export interface Formatter extends DateLabels {
+    money: (value: Money, currency: string) => string;
+    // Short amounts for chart axes, e.g. "1,2K"
+    axisMoney: (value: Money) => string;
+    number: (value: number, maximumFractionDigits?: number) => string;
+    dateTime: (timestamp: string) => string; // ISO 8601
+    time: (timestamp: string) => string;
+    // The text for an amount input, e.g. 1250 -> "12,50" in German
+    moneyInput: (value: Money) => string;
+    parseMoney: (input: string) => Money | null;
+    parseNumber: (input: string) => number | null;
+}
+
+export const LOCALE_OPTIONS = [
+    { value: '', label: 'Browser default' },
+    { value: 'de-DE', label: 'Deutsch (Deutschland)' },
+    { value: 'de-CH', label: 'Deutsch (Schweiz)' },
+    { value: 'en-GB', label: 'English (UK)' },
+    { value: 'en-US', label: 'English (US)' },
+    { value: 'es-ES', label: 'Español' },
+    { value: 'fr-FR', label: 'Français' },
+    { value: 'it-IT', label: 'Italiano' },
+    { value: 'nl-NL', label: 'Nederlands' },
+    { value: 'pl-PL', label: 'Polski' },
+    { value: 'sv-SE', label: 'Svenska' },
+];
+
+export const WEEKDAY_OPTIONS = [
+    { value: 1, label: 'Monday' },
+    { value: 6, label: 'Saturday' },
+    { value: 0, label: 'Sunday' },
+];
+
+const groupSeparator = (locale: string | undefined) =>
+    new Intl.NumberFormat(locale).formatToParts(12345).find(p => p.type === 'group')?.value ?? ',';
+
+// Accepts "1234.5", "1234,5", "1.234,50" and "1,234.50". With a single kind of separator it is the decimal
+// separator, unless it is the locale's grouping separator in thousands position, like "1.234" in German.
+export const parseDecimal = (input: string, locale?: string): number | null => {
+    const text = input.trim().replace(/[\s']/g, '');
+    if (!/^[-+]?(\d|[.,]\d)[\d.,]*$/.test(text)) return null;
+    const lastDot = text.lastIndexOf('.');
+    const lastComma = text.lastIndexOf(',');
+    let decimal: string | null = null;
+    if (lastDot >= 0 && lastComma >= 0) {
+        decimal = lastDot > lastComma ? '.' : ',';
+    } else if (lastDot >= 0 || lastComma >= 0) {
+        const separator = lastDot >= 0 ? '.' : ',';
+        const isGrouping = separator === groupSeparator(locale) && /^[-+]?\d{1,3}([.,]\d{3})+$/.test(text);
+        decimal = isGrouping ? null : separator;
+    }
+    const withoutGroups = text.replace(decimal === ',' ? /\./g : decimal === '.' ? /,/g : /[.,]/g, '');
+    if (decimal && withoutGroups.split(decimal).length > 2) return null;
+    const value = Number(decimal ? withoutGroups.replace(decimal, '.') : withoutGroups);
+    return isFinite(value) ? value : null;
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export const createFormatter = ({ locale, currencyPosition, dateFormat }: FormatPreferences): Formatter => {
+    const intlLocale = locale || undefined;
+    const amountFormat = new Intl.NumberFormat(intlLocale, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+    const axisFormat = new Intl.NumberFormat(intlLocale, { notation: 'compact', maximumFractionDigits: 1 });
+    const inputFormat = new Intl.NumberFormat(intlLocale, { minimumFractionDigits: 0, maximumFractionDigits: 2, useGrouping: false });
+
+    // Takes a date key or a full timestamp, which is shown in local time.
+    const date = (value: string) => {
+        const day = value.length > 10 ? new Date(value) : dateKeyToDate(value);
+        const [y, m, d] = [day.getFullYear(), pad(day.getMonth() + 1), pad(day.getDate())];
+        switch (dateFormat) {
+            case 'YYYY-MM-DD': return `${y}-${m}-${d}`;
+            case 'DD.MM.YYYY': return `${d}.${m}.${y}`;
+            case 'DD/MM/YYYY': return `${d}/${m}/${y}`;
+            case 'MM/DD/YYYY': return `${m}/${d}/${y}`;
+            default: return day.toLocaleDateString(intlLocale);
+        }
+    };
+    const time = (timestamp: string) => new Date(timestamp).toLocaleTimeString(intlLocale, { hour: '2-digit', minute: '2-digit' });
+
+    return {
+        money: (value, currency) => {
+            const amount = amountFormat.format(Math.abs(toMajor(value)));
+            const sign = value < 0 ? '-' : '';
+            const symbol = currencySymbol(currency);
+            return currencyPosition === 'after' ? `${sign}${amount} ${symbol}` : `${sign}${symbol}${amount}`;
+        },
+        axisMoney: value => axisFormat.format(toMajor(value)),
+        number: (value, maximumFractionDigits = 2) => value.toLocaleString(intlLocale, { maximumFractionDigits }),
+        month: monthKey => formatMonth(monthKey, locale),
+        date,
+        dateTime: timestamp => `${date(timestamp)} ${time(timestamp)}`,
+        time,
+        moneyInput: value => inputFormat.format(toMajor(value)),
+        parseMoney: input => {
+            const value = parseDecimal(input, intlLocale);
+            return value === null ? null : toMinor(value);
+        },
+        parseNumber: input => parseDecimal(input, intlLocale),
+    };
+};
@@ -1,5 +1,10 @@
 import { GoogleGenAI } from "@google/genai";
-import { FinancialData, AssetCategory } from '../types';
+import { FinancialData, AssetCategory, Money } from '../types';
+import { getActiveProfileId, profileStorageKey } from './profiles';
+import { DEFAULT_CURRENCY, createConverter, currencySymbol } from './currency';
+import { addMoney, sumMoney, toMajor } from './money';
+import { currentMonthKey } from './periods';
+import { monthlyEquivalent } from './recurrence';
 
 const getApiKey = (): string => {
     // Priority 1: Environment variable (for deployed/build environments)
@@ -8,9 +13,9 @@ const getApiKey = (): string => {
         return envApiKey;
     }
 
-    // Priority 2: Local storage (for user-provided key in the browser)
+    // Priority 2: Local storage (for user-provided key in the browser), per profile
     try {
-        const storedApiKey = window.localStorage.getItem('geminiApiKey');
+        const storedApiKey = window.localStorage.getItem(profileStorageKey(getActiveProfileId(), 'geminiApiKey'));
         if (storedApiKey) {
             // The useLocalStorage hook JSON.stringifies the value, so we parse it.
             const parsedKey = JSON.parse(storedApiKey);
@@ -61,38 +66,43 @@ export const getFinancialInsights = async (financialSummary: string): Promise<st
   }
 };
 
-export const getFinancialRundown = async (financialData: FinancialData, months: number): Promise<string> => {
+export const getFinancialRundown = async (financialData: FinancialData, months: number, baseCurrency = DEFAULT_CURRENCY): Promise<string> => {
   try {
     const apiKey = getApiKey();
     const ai = new GoogleGenAI({ apiKey });
+    const convert = createConverter(financialData.exchangeRates, baseCurrency);
+    const symbol = currencySymbol(baseCurrency);
 
-    // Calculate inputs for the prompt
-    const totalLiquidAssets = financialData.investmentBaskets
+    // Calculate inputs for the prompt, in the base currency
+    const liquidAssets = financialData.investmentBaskets
       .flatMap(b => b.assets)
-      .filter(a => a.category === AssetCategory.Savings || a.category === AssetCategory.EmergencyFund)
-      .reduce((sum, a) => sum + a.currentValue, 0);
+      .filter(a => a.category === AssetCategory.Savings || a.category === AssetCategory.EmergencyFund);
+    const totalLiquidAssets = sumMoney(liquidAssets, a => convert(a.currentValue, a.currency));
 
-    const incomeByMonth: Record<string, number> = {};
+    const incomeByMonth: Record<string, Money> = {};
     financialData.income.forEach(i => {
       const month = i.date.substring(0, 7);
-      incomeByMonth[month] = (incomeByMonth[month] || 0) + i.amount;
+      incomeByMonth[month] = addMoney(incomeByMonth[month] || 0, convert(i.amount, i.currency, i.date));
     });
 
     const recentMonths = Object.keys(incomeByMonth).sort().slice(-3);
     const avgMonthlyIncome = recentMonths.length > 0
-      ? recentMonths.reduce((sum, month) => sum + incomeByMonth[month], 0) / recentMonths.length
+      ? toMajor(sumMoney(recentMonths, month => incomeByMonth[month])) / recentMonths.length
       : 0;
     
-    const recurringExpensesList = financialData.recurringExpenses.map(e => `* ${e.description}: €${e.amount.toFixed(2)}`).join('\n');
-    const debtsList = financialData.debts.map(d => `* ${d.name}: €${d.minimumPayment.toFixed(2)}/month`).join('\n');
+    const thisMonth = currentMonthKey();
+    const recurringExpensesList = financialData.recurringExpenses
+      .filter(e => monthlyEquivalent(e, thisMonth) > 0)
+      .map(e => `* ${e.description}: ${symbol}${toMajor(monthlyEquivalent(e, thisMonth)).toFixed(2)}/month`).join('\n');
+    const debtsList = financialData.debts.map(d => `* ${d.name}: ${symbol}${toMajor(convert(d.minimumPayment, d.currency)).toFixed(2)}/month`).join('\n');
 
     const prompt = `
         You are a financial analyst AI. Your task is to provide a financial rundown and forecast for a user based on their provided data. The user wants to know how long their money will last based on current trends.
 
-        **User's Financial Data:**
+        **User's Financial Data (all amounts in ${baseCurrency}):**
 
-        *   **Total Liquid Assets (Savings, Emergency Fund):** €${totalLiquidAssets.toFixed(2)}
-        *   **Average Monthly Income (last ${recentMonths.length} months):** €${avgMonthlyIncome.toFixed(2)}
+        *   **Total Liquid Assets (Savings, Emergency Fund):** ${symbol}${toMajor(totalLiquidAssets).toFixed(2)}
+        *   **Average Monthly Income (last ${recentMonths.length} months):** ${symbol}${avgMonthlyIncome.toFixed(2)}
         *   **Recurring Monthly Expenses:**
             ${recurringExpensesList || 'None'}
         *   **Debts (with monthly minimum payments):**
@@ -112,16 +122,16 @@ export const getFinancialRundown = async (financialData: FinancialData, months:
         # Financial Rundown for the Next ${months} Months
 
         ## 1. Current Financial Snapshot
-        *   **Liquid Assets:** €...
-        *   **Average Monthly Income:** €...
-        *   **Total Monthly Outgoings:** €... (Explain what this includes)
-        *   **Monthly Net Cash Flow:** €...
+        *   **Liquid Assets:** ${symbol}...
+        *   **Average Monthly Income:** ${symbol}...
+        *   **Total Monthly Outgoings:** ${symbol}... (Explain what this includes)
+        *   **Monthly Net Cash Flow:** ${symbol}...
 
         ## 2. Forecast & Runway
         (Provide a paragraph explaining the projection. If cash flow is negative, clearly state the calculated runway in months. If positive, describe the projected growth.)
 
         ## 3. Key Takeaways & Recommendations
-        (Provide 2-3 bullet points with actionable advice or observations based on the forecast. For example, "Your current spending leads to a deficit of €X per month. To extend your runway, consider reducing expenses in the 'Personal' category.")
+        (Provide 2-3 bullet points with actionable advice or observations based on the forecast. For example, "Your current spending leads to a deficit of ${symbol}X per month. To extend your runway, consider reducing expenses in the 'Personal' category.")
 
         ---
         Do not include any introductory or concluding pleasantries. Stick strictly to the format above.
@@ -0,0 +1,108 @@
+import { FinancialAction, FinancialData, InvestmentBasket, JournalEntity, JournalEntry, RecordChange } from '../types';
+import { RecordCollection } from './records';
+import { CURRENT_SCHEMA_VERSION } from './migrations';
+
+export const COLLECTION_ENTITIES: Record<Exclude<RecordCollection, 'investmentBaskets'>, JournalEntity> = {
+    expenses: 'expense',
+    recurringExpenses: 'recurringExpense',
+    debts: 'debt',
+    income: 'income',
+    incomeGoals: 'incomeGoal',
+    purchases: 'purchase',
+    exchangeRates: 'exchangeRate',
+    categories: 'category',
+};
+
+export const ENTITY_LABELS: Record<JournalEntity, string> = {
+    expense: 'Expense',
+    recurringExpense: 'Recurring Expense',
+    debt: 'Debt',
+    income: 'Income',
+    incomeGoal: 'Income Goal',
+    purchase: 'Purchase',
+    basket: 'Basket',
+    asset: 'Asset',
+    exchangeRate: 'Exchange Rate',
+    category: 'Category',
+};
+
+// Changes keep the records themselves; whoever reads their fields narrows them.
+const snapshot = (record: object) => record as Record<string, unknown>;
+
+const diffCollection = (entity: JournalEntity, previous: { id: string }[], next: { id: string }[]): RecordChange[] => {
+    if (previous === next) return [];
+    const previousById = new Map(previous.map(r => [r.id, r]));
+    const nextIds = new Set(next.map(r => r.id));
+    const changes: RecordChange[] = [];
+    next.forEach(record => {
+        const before = previousById.get(record.id);
+        if (!before) {
+            changes.push({ entity, id: record.id, kind: 'added', after: snapshot(record) });
+        } else if (before !== record && JSON.stringify(before) !== JSON.stringify(record)) {
+            changes.push({ entity, id: record.id, kind: 'updated', before: snapshot(before), after: snapshot(record) });
+        }
+    });
+    previous.forEach(record => {
+        if (!nextIds.has(record.id)) {
+            changes.push({ entity, id: record.id, kind: 'removed', before: snapshot(record) });
+        }
+    });
+    return changes;
+};
+
+// Assets are journaled as entities of their own (tagged with their basket) so their history can be followed.
+const diffBaskets = (previous: InvestmentBasket[], next: InvestmentBasket[]): RecordChange[] => {
+    if (previous === next) return [];
+    const withoutAssets = (baskets: InvestmentBasket[]) => baskets.map(({ assets, ...basket }) => basket);
+    const assetsOf = (baskets: InvestmentBasket[]) => baskets.flatMap(b => b.assets.map(a => ({ ...a, basketId: b.id })));
+    return [
+        ...diffCollection('basket', withoutAssets(previous), withoutAssets(next)),
+        ...diffCollection('asset', assetsOf(previous), assetsOf(next)),
+    ];
+};
+
+export const computeChanges = (previous: FinancialData, next: FinancialData): RecordChange[] => [
+    ...(Object.keys(COLLECTION_ENTITIES) as (keyof typeof COLLECTION_ENTITIES)[]).flatMap(collection =>
+        diffCollection(COLLECTION_ENTITIES[collection], previous[collection], next[collection])
+    ),
+    ...diffBaskets(previous.investmentBaskets, next.investmentBaskets),
+];
+
+let entryCounter = 0;
+// Several tabs write to the same journal, so ids also carry a per-tab tag.
+const sessionTag = Math.random().toString(36).slice(2, 8);
+
+export const createJournalEntry = (
+    type: JournalEntry['type'],
+    label: string,
+    action: FinancialAction | undefined,
+    previous: FinancialData,
+    next: FinancialData,
+): JournalEntry => {
+    const now = new Date();
+    return {
+        // Sortable ids keep entries created within the same millisecond in order.
+        id: `j-${now.getTime()}-${String(entryCounter++).padStart(6, '0')}-${sessionTag}`,
+        timestamp: now.toISOString(),
+        type,
+        label,
+        action: action && action.type !== 'SET_STATE' && action.type !== 'APPLY_SYNC' ? action : undefined,
+        changes: computeChanges(previous, next),
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+    };
+};
+
+export const getRecordName = (record: Record<string, unknown> | undefined): string => {
+    if (!record) return '';
+    const name = record.name ?? record.description ?? record.month ?? (record.from && `${record.from}/${record.to}`);
+    return String(name ?? '');
+};
+
+// Top-level fields that differ between two versions of a record.
+export const getChangedFields = (change: RecordChange): { field: string; before: unknown; after: unknown }[] => {
+    if (change.kind !== 'updated' || !change.before || !change.after) return [];
+    const fields = new Set([...Object.keys(change.before), ...Object.keys(change.after)]);
+    return [...fields]
+        .filter(field => JSON.stringify(change.before?.[field]) !== JSON.stringify(change.after?.[field]))
+        .map(field => ({ field, before: change.before?.[field], after: change.after?.[field] }));
+};
@@ -0,0 +1,196 @@
+import { FinancialData, JournalEntity } from '../types';
+import { RECORD_COLLECTIONS, RecordCollection } from './records';
+import { COLLECTION_ENTITIES } from './journal';
+import { OTHER_CATEGORY_ID } from './categories';
+
+// Assets are matched on their own rather than as part of their basket, so the merge works per asset.
+export type MergeCollection = RecordCollection | 'assets';
+export type MergeItemKind = 'new' | 'changed' | 'deleted';
+export type MergeResolution = 'mine' | 'theirs' | 'both';
+
+export type AnyRecord = { id: string } & Record<string, unknown>;
+export type FlatData = Record<MergeCollection, AnyRecord[]>;
+
+export interface MergeItem {
+    key: string;
+    collection: MergeCollection;
+    id: string;
+    kind: MergeItemKind; // Relative to this device: "new" only exists in the import, "deleted" only here
+    mine?: AnyRecord;
+    theirs?: AnyRecord;
+}
+
+export const MERGE_COLLECTIONS: MergeCollection[] = [...RECORD_COLLECTIONS, 'assets'];
+
+export const MERGE_ENTITIES: Record<MergeCollection, JournalEntity> = {
+    ...COLLECTION_ENTITIES,
+    investmentBaskets: 'basket',
+    assets: 'asset',
+};
+
+// Income goals are unique per month and baskets are fixed containers, so duplicating them makes no sense.
+export const canKeepBoth = (item: MergeItem) =>
+    item.kind === 'changed' && item.collection !== 'incomeGoals' && item.collection !== 'investmentBaskets';
+
+export const defaultResolution = (item: MergeItem): MergeResolution => item.kind === 'new' ? 'theirs' : 'mine';
+
+// Records are merged as plain objects; they leave and re-enter their typed collections unchanged.
+const toRecords = (records: { id: string }[]) => records as AnyRecord[];
+const fromRecords = <T>(records: AnyRecord[]) => records as unknown as T[];
+
+export const flatten = (data: FinancialData): FlatData => ({
+    expenses: toRecords(data.expenses),
+    recurringExpenses: toRecords(data.recurringExpenses),
+    debts: toRecords(data.debts),
+    income: toRecords(data.income),
+    incomeGoals: toRecords(data.incomeGoals),
+    purchases: toRecords(data.purchases),
+    exchangeRates: toRecords(data.exchangeRates),
+    categories: toRecords(data.categories),
+    investmentBaskets: toRecords(data.investmentBaskets.map(({ assets, ...basket }) => basket)),
+    assets: toRecords(data.investmentBaskets.flatMap(b => b.assets.map(a => ({ ...a, basketId: b.id })))),
+});
+
+export const unflatten = (base: FinancialData, flat: FlatData): FinancialData => ({
+    ...base,
+    expenses: fromRecords(flat.expenses),
+    recurringExpenses: fromRecords(flat.recurringExpenses),
+    debts: fromRecords(flat.debts),
+    income: fromRecords(flat.income),
+    incomeGoals: fromRecords(flat.incomeGoals),
+    purchases: fromRecords(flat.purchases),
+    exchangeRates: fromRecords(flat.exchangeRates),
+    categories: fromRecords(flat.categories),
+    // Assets whose basket was not kept are dropped along with it.
+    investmentBaskets: fromRecords(flat.investmentBaskets.map(basket => ({
+        ...basket,
+        assets: flat.assets.filter(a => a.basketId === basket.id).map(({ basketId, ...asset }) => asset),
+    }))),
+});
+
+const isSameRecord = (a: AnyRecord, b: AnyRecord) => JSON.stringify(a) === JSON.stringify(b);
+
+export const computeMergeItems = (mine: FinancialData, theirs: FinancialData): MergeItem[] => {
+    const mineFlat = flatten(mine);
+    const theirsFlat = flatten(theirs);
+
+    return MERGE_COLLECTIONS.flatMap(collection => {
+        const mineById = new Map(mineFlat[collection].map(r => [r.id, r]));
+        const theirIds = new Set(theirsFlat[collection].map(r => r.id));
+        const items: MergeItem[] = [];
+
+        theirsFlat[collection].forEach(record => {
+            const existing = mineById.get(record.id);
+            if (!existing) {
+                items.push({ key: `${collection}:${record.id}`, collection, id: record.id, kind: 'new', theirs: record });
+            } else if (!isSameRecord(existing, record)) {
+                items.push({ key: `${collection}:${record.id}`, collection, id: record.id, kind: 'changed', mine: existing, theirs: record });
+            }
+        });
+        mineFlat[collection].forEach(record => {
+            if (!theirIds.has(record.id)) {
+                items.push({ key: `${collection}:${record.id}`, collection, id: record.id, kind: 'deleted', mine: record });
+            }
+        });
+        return items;
+    });
+};
+
+export const applyMerge = (mine: FinancialData, items: MergeItem[], resolutions: Record<string, MergeResolution>): FinancialData => {
+    const flat = flatten(mine);
+    const copySuffix = `copy-${Date.now().toString(36)}`;
+
+    items.forEach(item => {
+        const resolution = resolutions[item.key] ?? defaultResolution(item);
+        const records = flat[item.collection];
+        if (resolution === 'mine') return;
+
+        if (item.kind === 'new' && item.theirs) {
+            flat[item.collection] = [...records, item.theirs];
+        } else if (item.kind === 'deleted') {
+            flat[item.collection] = records.filter(r => r.id !== item.id);
+        } else if (item.kind === 'changed' && item.theirs) {
+            flat[item.collection] = resolution === 'both'
+                ? [...records, { ...item.theirs, id: `${item.id}-${copySuffix}` }]
+                : records.map(r => r.id === item.id ? item.theirs! : r);
+        }
+    });
+
+    const importedCategories = items.flatMap(item => item.collection === 'categories' && item.theirs ? [item.theirs] : []);
+    keepReferencedCategories(flat, [...flatten(mine).categories, ...importedCategories]);
+    return unflatten(mine, flat);
+};
+
+const CATEGORY_COLLECTIONS: MergeCollection[] = ['expenses', 'recurringExpenses', 'purchases'];
+
+// Picking records one by one can delete a category that records still use, or skip one that a new record
+// brings along. Such categories are kept or taken from the import; records whose category exists on neither
+// side move to "Other".
+const keepReferencedCategories = (flat: FlatData, known: AnyRecord[]) => {
+    const knownById = new Map(known.map(c => [c.id, c]));
+    const present = new Set(flat.categories.map(c => c.id));
+    const ensure = (id: unknown): boolean => {
+        if (typeof id !== 'string') return false;
+        if (present.has(id)) return true;
+        const category = knownById.get(id);
+        if (!category) return false;
+        present.add(id);
+        flat.categories = [...flat.categories, category];
+        ensure(category.parentId);
+        return true;
+    };
+    CATEGORY_COLLECTIONS.forEach(collection => {
+        flat[collection] = flat[collection].map(r => ensure(r.category) || !ensure(OTHER_CATEGORY_ID) ? r : { ...r, category: OTHER_CATEGORY_ID });
+    });
+    // Subcategories whose parent is gone on both sides become top-level.
+    [...flat.categories].forEach(c => ensure(c.parentId));
+    flat.categories = flat.categories.map(c => {
+        if (c.parentId === undefined || present.has(String(c.parentId))) return c;
+        const { parentId: _missing, ...topLevel } = c;
+        return topLevel as AnyRecord;
+    });
+};
+
+// Three-way merge for edits made concurrently in another tab: the changes made here since `base` are
+// replayed on top of `theirs`. When both sides changed the same record, this side wins and it counts as a conflict.
+export const rebaseChanges = (base: FinancialData, mine: FinancialData, theirs: FinancialData): { data: FinancialData; conflicts: number } => {
+    if (mine === base) return { data: theirs, conflicts: 0 };
+    if (theirs === base) return { data: mine, conflicts: 0 };
+
+    const baseFlat = flatten(base);
+    const mineFlat = flatten(mine);
+    const result = flatten(theirs);
+    const sameRecord = (a: AnyRecord, b: AnyRecord) => a === b || isSameRecord(a, b);
+    let conflicts = 0;
+
+    MERGE_COLLECTIONS.forEach(collection => {
+        const baseById = new Map(baseFlat[collection].map(r => [r.id, r]));
+        const mineIds = new Set(mineFlat[collection].map(r => r.id));
+        const theirsById = new Map(result[collection].map(r => [r.id, r]));
+        let records = result[collection];
+
+        mineFlat[collection].forEach(record => {
+            const original = baseById.get(record.id);
+            if (original && sameRecord(original, record)) return;
+            const current = theirsById.get(record.id);
+            if (current && !sameRecord(current, record) && (!original || !sameRecord(original, current))) {
+                conflicts++;
+            }
+            // An edit made here also brings back a record the other tab deleted.
+            records = current ? records.map(r => r.id === record.id ? record : r) : [...records, record];
+        });
+
+        baseFlat[collection].forEach(original => {
+            if (mineIds.has(original.id)) return;
+            const current = theirsById.get(original.id);
+            if (current && !sameRecord(original, current)) {
+                conflicts++;
+            }
+            records = records.filter(r => r.id !== original.id);
+        });
+
+        result[collection] = records;
+    });
+
+    return { data: unflatten(theirs, result), conflicts };
+};
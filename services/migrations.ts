@@ -0,0 +1,166 @@
+import { Category, FinancialData, InvestmentBasket, JournalEntity, JournalEntry } from '../types';
+import { MONEY_FIELDS, toMinor } from './money';
+import { DEFAULT_CATEGORIES, OTHER_CATEGORY_ID, findCategoryByName } from './categories';
+
+export const CURRENT_SCHEMA_VERSION = 4;
+
+// Migrations operate on whatever shape an older version persisted, so every value is checked before use.
+type RawRecord = Record<string, unknown>;
+type RawFinancialData = RawRecord;
+type Migration = (data: RawFinancialData) => RawFinancialData;
+
+const isRawRecord = (value: unknown): value is RawRecord => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const toCents = (entity: JournalEntity, record: RawRecord): RawRecord => {
+    const converted = { ...record };
+    MONEY_FIELDS[entity]?.forEach(field => {
+        const value = converted[field];
+        if (typeof value === 'number') converted[field] = toMinor(value);
+    });
+    return converted;
+};
+
+const DEFAULT_BASKETS: InvestmentBasket[] = [
+    { id: 'b1', name: 'Long-Term Growth', assets: [] },
+    { id: 'b2', name: 'Speculative Plays', assets: [] },
+    { id: 'b3', name: 'Safe Haven', assets: [] },
+];
+
+// migrations[n] upgrades data from schema version n to n + 1. Append new steps, never edit shipped ones.
+const migrations: Migration[] = [
+    // v0 -> v1: unversioned data from before schemaVersion existed. Collections that were
+    // added to the app over time may be missing entirely from older blobs and backups.
+    (data) => ({
+        ...data,
+        expenses: Array.isArray(data.expenses) ? data.expenses : [],
+        recurringExpenses: Array.isArray(data.recurringExpenses) ? data.recurringExpenses : [],
+        debts: Array.isArray(data.debts) ? data.debts : [],
+        income: Array.isArray(data.income) ? data.income : [],
+        investmentBaskets: Array.isArray(data.investmentBaskets) ? data.investmentBaskets : DEFAULT_BASKETS,
+        incomeGoals: Array.isArray(data.incomeGoals) ? data.incomeGoals : [],
+        purchases: Array.isArray(data.purchases) ? data.purchases : [],
+    }),
+    // v1 -> v2: amounts gain a currency. Everything before was in euros.
+    (data) => {
+        const withCurrency = (records: unknown) => Array.isArray(records)
+            ? records.map(r => isRawRecord(r) && !r.currency ? { ...r, currency: 'EUR' } : r)
+            : records;
+        return {
+            ...data,
+            expenses: withCurrency(data.expenses),
+            income: withCurrency(data.income),
+            debts: withCurrency(data.debts),
+            investmentBaskets: Array.isArray(data.investmentBaskets)
+                ? data.investmentBaskets.map(b => isRawRecord(b) ? { ...b, assets: withCurrency(b.assets) } : b)
+                : data.investmentBaskets,
+            exchangeRates: Array.isArray(data.exchangeRates) ? data.exchangeRates : [],
+        };
+    },
+    // v2 -> v3: amounts were floats in major units and are now integer cents.
+    (data) => {
+        const inCents = (entity: JournalEntity, records: unknown) => Array.isArray(records)
+            ? records.map(r => isRawRecord(r) ? toCents(entity, r) : r)
+            : records;
+        return {
+            ...data,
+            expenses: inCents('expense', data.expenses),
+            recurringExpenses: inCents('recurringExpense', data.recurringExpenses),
+            debts: inCents('debt', data.debts),
+            income: inCents('income', data.income),
+            incomeGoals: inCents('incomeGoal', data.incomeGoals),
+            purchases: inCents('purchase', data.purchases),
+            investmentBaskets: Array.isArray(data.investmentBaskets)
+                ? data.investmentBaskets.map(b => isRawRecord(b) ? { ...b, assets: inCents('asset', b.assets) } : b)
+                : data.investmentBaskets,
+        };
+    },
+    // v3 -> v4: the fixed list of expense categories becomes records the user can edit. Records store the
+    // category's id instead of its name; names that were not on the list become categories of their own.
+    (data) => {
+        const categories: Category[] = DEFAULT_CATEGORIES.map(c => ({ ...c }));
+        const idFor = (name: unknown) => {
+            if (typeof name !== 'string' || name.trim() === '') return OTHER_CATEGORY_ID;
+            const existing = categories.find(c => c.name.toLowerCase() === name.trim().toLowerCase());
+            if (existing) return existing.id;
+            const created = { id: `cat-migrated-${categories.length + 1}`, name: name.trim(), color: '#adb5bd' };
+            categories.push(created);
+            return created.id;
+        };
+        const withCategoryId = (records: unknown) => Array.isArray(records)
+            ? records.map(r => isRawRecord(r) ? { ...r, category: idFor(r.category) } : r)
+            : records;
+        const expenses = withCategoryId(data.expenses);
+        const recurringExpenses = withCategoryId(data.recurringExpenses);
+        const purchases = withCategoryId(data.purchases);
+        return { ...data, expenses, recurringExpenses, purchases, categories };
+    },
+];
+
+// The steps above for a single record, for records that arrive without the rest of their data set, such as
+// records pulled from the sync server. recordMigrations[n] upgrades a record from schema version n to n + 1.
+type RecordMigration = (entity: JournalEntity, record: RawRecord, categories: Category[]) => RawRecord;
+
+const CURRENCY_ENTITIES: JournalEntity[] = ['expense', 'income', 'debt', 'asset'];
+const CATEGORY_ENTITIES: JournalEntity[] = ['expense', 'recurringExpense', 'purchase'];
+
+const recordMigrations: RecordMigration[] = [
+    (_entity, record) => record,
+    (entity, record) => CURRENCY_ENTITIES.includes(entity) && !record.currency ? { ...record, currency: 'EUR' } : record,
+    (entity, record) => toCents(entity, record),
+    // A single record cannot add categories, so names the data set has no category for go to "Other".
+    (entity, record, categories) => CATEGORY_ENTITIES.includes(entity) && typeof record.category === 'string'
+        ? { ...record, category: findCategoryByName(categories, record.category)?.id ?? OTHER_CATEGORY_ID }
+        : record,
+];
+
+export const migrateRecord = <T extends RawRecord>(entity: JournalEntity, record: T, version: number, categories: Category[]): T => {
+    if (version > CURRENT_SCHEMA_VERSION) {
+        throw new Error(`This record was saved by a newer version of WaveFinances (schema v${version}). Please update the app before loading it.`);
+    }
+    let migrated: RawRecord = record;
+    for (let v = Math.max(0, version); v < CURRENT_SCHEMA_VERSION; v++) {
+        migrated = recordMigrations[v](entity, migrated, categories);
+    }
+    return migrated as T;
+};
+
+export const getSchemaVersion = (data: unknown): number => {
+    return isRawRecord(data) && typeof data.schemaVersion === 'number' ? data.schemaVersion : 0;
+};
+
+export const migrateFinancialData = (raw: unknown): FinancialData => {
+    if (!isRawRecord(raw)) {
+        throw new Error('Financial data is not an object.');
+    }
+
+    const version = getSchemaVersion(raw);
+    if (version > CURRENT_SCHEMA_VERSION) {
+        throw new Error(`This data was saved by a newer version of WaveFinances (schema v${version}). Please update the app before loading it.`);
+    }
+
+    let data = raw;
+    for (let v = version; v < CURRENT_SCHEMA_VERSION; v++) {
+        data = { ...migrations[v](data), schemaVersion: v + 1 };
+    }
+    // The migrations bring every collection to the current shape; validation checks the records themselves.
+    return data as unknown as FinancialData;
+};
+
+// Journal entries record the data as it was when they were written, and their records are migrated the same way
+// as synced ones. Entries without a schema version are from before v3, when amounts were not yet in cents.
+export const migrateJournalEntry = (entry: JournalEntry, categories: Category[]): JournalEntry => {
+    const version = entry.schemaVersion ?? 2;
+    if (version >= CURRENT_SCHEMA_VERSION) return entry;
+    return {
+        ...entry,
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        changes: entry.changes.map(change => ({
+            ...change,
+            before: change.before && migrateRecord(change.entity, change.before, version, categories),
+            after: change.after && migrateRecord(change.entity, change.after, version, categories),
+        })),
+    };
+};
+
+// A data set without any records, for a new profile. The migrations fill in every collection.
+export const createEmptyFinancialData = (): FinancialData => migrateFinancialData({});
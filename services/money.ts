@@ -0,0 +1,39 @@
+import { JournalEntity, Money } from '../types';
+
+// Amounts are stored as integer cents. Every currency uses hundredths, even those without minor units
+// like JPY, so switching the base currency never rescales stored values.
+export const MINOR_PER_MAJOR = 100;
+
+// Rounds half away from zero; toPrecision first drops float noise such as 1.005 * 100 = 100.49999999999999.
+const roundMinor = (value: number): Money => {
+    const cleaned = Number(value.toPrecision(15));
+    return cleaned < 0 ? -Math.round(-cleaned) : Math.round(cleaned);
+};
+
+// The fields holding money in each kind of record.
+export const MONEY_FIELDS: Partial<Record<JournalEntity, string[]>> = {
+    expense: ['amount'],
+    recurringExpense: ['amount'],
+    debt: ['originalAmount', 'currentBalance', 'minimumPayment'],
+    income: ['amount'],
+    incomeGoal: ['amount'],
+    asset: ['amountInvested', 'currentValue'],
+    purchase: ['cost'],
+};
+
+export const isMoneyField = (entity: JournalEntity, field: string) => MONEY_FIELDS[entity]?.includes(field) ?? false;
+
+export const toMinor = (major: number): Money => roundMinor(major * MINOR_PER_MAJOR);
+
+export const toMajor = (minor: Money): number => minor / MINOR_PER_MAJOR;
+
+export const isMoney = (value: unknown): value is Money => Number.isSafeInteger(value);
+
+export const addMoney = (...values: Money[]): Money => values.reduce((sum, value) => sum + value, 0);
+
+export const subtractMoney = (value: Money, ...values: Money[]): Money => value - addMoney(...values);
+
+// For rates, shares and exchange rates: the only operation on money that can produce fractions of a cent.
+export const multiplyMoney = (value: Money, factor: number): Money => roundMinor(value * factor);
+
+export const sumMoney = <T,>(items: T[], pick: (item: T) => Money): Money => items.reduce((sum, item) => sum + pick(item), 0);
@@ -0,0 +1,72 @@
+import { StatementParseResult, StatementRowError, StatementTransaction } from './statements';
+import { parseAmount } from './csvImport';
+
+// Handles both OFX 1.x (SGML, closing tags optional) and OFX 2.x (XML). QFX is OFX with an Intuit header.
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+const decodeEntities = (value: string) => value.replace(/&(\w+);/g, (match, name) => ENTITIES[name.toLowerCase()] ?? match);
+
+// SGML elements run until the next tag, so reading up to the next "<" works for both variants.
+const readTag = (block: string, tag: string): string | undefined => {
+    const match = block.match(new RegExp(`<${tag}>([^<]*)`, 'i'));
+    return match ? decodeEntities(match[1].trim()) : undefined;
+};
+
+// Dates look like 20251105, 20251105120000 or 20251105120000.000[-5:EST]; only the calendar date is kept.
+export const parseOfxDate = (value: string): string | null => {
+    const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+    if (!match) return null;
+    const [, year, month, day] = match;
+    const date = new Date(Date.UTC(+year, +month - 1, +day));
+    return date.getUTCMonth() === +month - 1 && date.getUTCDate() === +day ? `${year}-${month}-${day}` : null;
+};
+
+// Amounts are "-12.34" per the spec, but some banks write a decimal comma or add thousands separators.
+// Whichever separator comes last is the decimal one.
+const parseOfxAmount = (text: string) => parseAmount(text, text.lastIndexOf(',') > text.lastIndexOf('.') ? ',' : '.');
+
+export const parseOfx = (text: string): StatementParseResult => {
+    const transactions: StatementTransaction[] = [];
+    const errors: StatementRowError[] = [];
+    const seenIds = new Set<string>();
+    const blocks = text.split(/<STMTTRN>/i).slice(1);
+
+    blocks.forEach((rawBlock, index) => {
+        const row = index + 1;
+        const block = rawBlock.split(/<\/STMTTRN>/i)[0];
+        const date = parseOfxDate(readTag(block, 'DTPOSTED') ?? '');
+        const amountText = readTag(block, 'TRNAMT') ?? '';
+        const amount = parseOfxAmount(amountText);
+        if (!date) {
+            errors.push({ row, message: 'Missing or invalid posting date' });
+            return;
+        }
+        if (amountText && amount === null) {
+            errors.push({ row, message: `Unrecognised amount "${amountText}"` });
+            return;
+        }
+        if (!amount) {
+            errors.push({ row, message: 'Missing or zero amount' });
+            return;
+        }
+
+        const externalId = readTag(block, 'FITID') || undefined;
+        if (externalId) {
+            // Some banks repeat a transaction when statement periods overlap.
+            if (seenIds.has(externalId)) return;
+            seenIds.add(externalId);
+        }
+
+        const name = readTag(block, 'NAME') ?? readTag(block, 'PAYEE') ?? '';
+        const memo = readTag(block, 'MEMO') ?? '';
+        const description = name && memo && !name.includes(memo) ? `${name} - ${memo}` : name || memo;
+
+        transactions.push({ date, amount, description: description || 'Bank transaction', externalId });
+    });
+
+    if (blocks.length === 0) {
+        errors.push({ row: 0, message: 'No transactions found in the file' });
+    }
+    return { transactions, errors };
+};
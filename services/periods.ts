@@ -0,0 +1,137 @@
+import { AppSettings } from '../types';
+
+export interface MonthInfo {
+    key: string; // YYYY-MM
+    label: string; // e.g. "Nov 2025"
+}
+
+export const toMonthKey = (date: Date) => `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}`;
+
+export const currentMonthKey = (now = new Date()) => toMonthKey(now);
+
+const monthKeyToDate = (monthKey: string) => {
+    const [year, month] = monthKey.split('-').map(Number);
+    return new Date(year, month - 1, 1);
+};
+
+export const addMonths = (monthKey: string, count: number) => {
+    const date = monthKeyToDate(monthKey);
+    return toMonthKey(new Date(date.getFullYear(), date.getMonth() + count, 1));
+};
+
+// An empty locale means the browser's language.
+export const formatMonth = (monthKey: string, locale = '') =>
+    monthKeyToDate(monthKey).toLocaleString(locale || 'default', { month: 'short', year: 'numeric' });
+
+// How labels are written. Views pass the user's format preferences (see services/format.ts).
+export interface DateLabels {
+    month: (monthKey: string) => string;
+    date: (dateKey: string) => string; // YYYY-MM-DD
+}
+
+export const generateMonths = (startMonth: string, count: number, labels: Pick<DateLabels, 'month'> = DEFAULT_LABELS): MonthInfo[] =>
+    Array.from({ length: count }, (_, i) => {
+        const key = addMonths(startMonth, i);
+        return { key, label: labels.month(key) };
+    });
+
+// Without a fixed start month the plan rolls forward with the calendar, starting at the current month.
+export const getPlanStartMonth = (plan: AppSettings['planningPeriod'], now = new Date()) =>
+    /^\d{4}-\d{2}$/.test(plan.startMonth) ? plan.startMonth : currentMonthKey(now);
+
+export const getPlanMonths = (plan: AppSettings['planningPeriod'], now = new Date(), labels: Pick<DateLabels, 'month'> = DEFAULT_LABELS): MonthInfo[] =>
+    generateMonths(getPlanStartMonth(plan, now), Math.max(1, Math.round(plan.months) || 1), labels);
+
+// The range every period-aware view is filtered to. Dates are inclusive YYYY-MM-DD strings, like the dates on records.
+export type PeriodKind = 'week' | 'month' | 'quarter' | 'year' | 'custom';
+
+export interface Period {
+    kind: PeriodKind;
+    start: string;
+    end: string;
+}
+
+export const PERIOD_KINDS: { kind: PeriodKind; label: string }[] = [
+    { kind: 'week', label: 'Week' },
+    { kind: 'month', label: 'Month' },
+    { kind: 'quarter', label: 'Quarter' },
+    { kind: 'year', label: 'Year' },
+    { kind: 'custom', label: 'Custom' },
+];
+
+export const toDateKey = (date: Date) => `${toMonthKey(date)}-${date.getDate().toString().padStart(2, '0')}`;
+
+export const dateKeyToDate = (dateKey: string) => {
+    const [year, month, day] = dateKey.split('-').map(Number);
+    return new Date(year, month - 1, day);
+};
+
+const DEFAULT_LABELS: DateLabels = {
+    month: monthKey => formatMonth(monthKey),
+    date: dateKey => dateKeyToDate(dateKey).toLocaleDateString('default', { day: 'numeric', month: 'short', year: 'numeric' }),
+};
+
+const rangeOfMonths = (kind: PeriodKind, firstMonth: Date, count: number): Period => ({
+    kind,
+    start: toDateKey(firstMonth),
+    end: toDateKey(new Date(firstMonth.getFullYear(), firstMonth.getMonth() + count, 0)),
+});
+
+// The week, month, quarter or year containing `anchor`. A custom period starts out as the anchor's month.
+// Weeks start on `weekStartsOn` (0 is Sunday).
+export const getPeriod = (kind: PeriodKind, anchor = new Date(), weekStartsOn = 1): Period => {
+    const year = anchor.getFullYear();
+    switch (kind) {
+        case 'week': {
+            const first = new Date(year, anchor.getMonth(), anchor.getDate() - ((anchor.getDay() - weekStartsOn + 7) % 7));
+            return { kind, start: toDateKey(first), end: toDateKey(new Date(first.getFullYear(), first.getMonth(), first.getDate() + 6)) };
+        }
+        case 'quarter': return rangeOfMonths(kind, new Date(year, Math.floor(anchor.getMonth() / 3) * 3, 1), 3);
+        case 'year': return rangeOfMonths(kind, new Date(year, 0, 1), 12);
+        default: return rangeOfMonths(kind, new Date(year, anchor.getMonth(), 1), 1);
+    }
+};
+
+export const getCustomPeriod = (start: string, end: string): Period =>
+    start <= end ? { kind: 'custom', start, end } : { kind: 'custom', start: end, end: start };
+
+// Moves to the previous (-1) or next (1) period. Weeks and custom ranges move by their own length.
+export const stepPeriod = (period: Period, direction: 1 | -1): Period => {
+    const start = dateKeyToDate(period.start);
+    if (period.kind === 'custom' || period.kind === 'week') {
+        const days = Math.round((dateKeyToDate(period.end).getTime() - start.getTime()) / 86400000) + 1;
+        const shift = (dateKey: string) => {
+            const date = dateKeyToDate(dateKey);
+            return toDateKey(new Date(date.getFullYear(), date.getMonth(), date.getDate() + days * direction));
+        };
+        return { kind: period.kind, start: shift(period.start), end: shift(period.end) };
+    }
+    const months = period.kind === 'year' ? 12 : period.kind === 'quarter' ? 3 : 1;
+    return getPeriod(period.kind, new Date(start.getFullYear(), start.getMonth() + months * direction, 1));
+};
+
+export const isInPeriod = (date: string, period: Period) => {
+    const day = date.slice(0, 10);
+    return day >= period.start && day <= period.end;
+};
+
+// Every month the period touches, for per-month charts and tables.
+export const getPeriodMonths = (period: Period, labels: Pick<DateLabels, 'month'> = DEFAULT_LABELS): MonthInfo[] => {
+    const first = period.start.slice(0, 7);
+    const last = period.end.slice(0, 7);
+    const months: MonthInfo[] = [];
+    for (let key = first; key <= last; key = addMonths(key, 1)) {
+        months.push({ key, label: labels.month(key) });
+    }
+    return months;
+};
+
+export const formatPeriod = (period: Period, labels: DateLabels = DEFAULT_LABELS) => {
+    const start = dateKeyToDate(period.start);
+    switch (period.kind) {
+        case 'month': return labels.month(period.start.slice(0, 7));
+        case 'quarter': return `Q${Math.floor(start.getMonth() / 3) + 1} ${start.getFullYear()}`;
+        case 'year': return `${start.getFullYear()}`;
+        default: return `${labels.date(period.start)} – ${labels.date(period.end)}`;
+    }
+};
@@ -0,0 +1,77 @@
+import { AppSettings, FinancialData, Profile } from '../types';
+import { CsvBankProfile } from './csvImport';
+
+export const DEFAULT_PROFILE_ID = 'default';
+export const DEFAULT_PROFILES: Profile[] = [{ id: DEFAULT_PROFILE_ID, name: 'Personal' }];
+export const ACTIVE_PROFILE_KEY = 'activeProfileId';
+
+// Local storage keys that hold per-profile settings, as opposed to the profile list itself.
+export const PROFILE_SCOPED_KEYS = ['appSettings', 'geminiApiKey', 'syncState', 'csvBankProfiles'];
+
+// The default profile keeps the unprefixed keys, so everything saved before profiles existed belongs to it.
+export const profileStorageKey = (profileId: string, key: string) =>
+    profileId === DEFAULT_PROFILE_ID ? key : `${key}:${profileId}`;
+
+// For services outside React; components get the active profile from ProfileContext.
+export const getActiveProfileId = (): string => {
+    try {
+        const item = window.localStorage.getItem(ACTIVE_PROFILE_KEY);
+        const id = item ? JSON.parse(item) : null;
+        return typeof id === 'string' && id ? id : DEFAULT_PROFILE_ID;
+    } catch {
+        return DEFAULT_PROFILE_ID;
+    }
+};
+
+let profileCounter = 0;
+
+export const createProfileId = () => `pr-${Date.now().toString(36)}-${(profileCounter++).toString(36)}`;
+
+export const PROFILE_EXPORT_FORMAT = 'wavefinances-profile';
+const PROFILE_EXPORT_VERSION = 1;
+
+// A single profile as a file. The Gemini API key is left out on purpose.
+export interface ProfileExport {
+    format: typeof PROFILE_EXPORT_FORMAT;
+    version: number;
+    name: string;
+    settings: Partial<AppSettings>;
+    bankProfiles: CsvBankProfile[];
+    data: FinancialData;
+}
+
+export const createProfileExport = (name: string, settings: Partial<AppSettings>, bankProfiles: CsvBankProfile[], data: FinancialData): ProfileExport => ({
+    format: PROFILE_EXPORT_FORMAT,
+    version: PROFILE_EXPORT_VERSION,
+    name,
+    settings,
+    bankProfiles,
+    data,
+});
+
+export const isProfileExport = (value: unknown): value is ProfileExport =>
+    !!value && typeof value === 'object' && (value as ProfileExport).format === PROFILE_EXPORT_FORMAT;
+
+export const checkProfileExportVersion = (bundle: ProfileExport) => {
+    if (bundle.version > PROFILE_EXPORT_VERSION) {
+        throw new Error(`This profile was exported by a newer version of WaveFinances (v${bundle.version}).`);
+    }
+};
+
+// Reads another profile's local storage value the way useLocalStorage stores it.
+export const readProfileValue = <T,>(profileId: string, key: string, fallback: T): T => {
+    try {
+        const item = window.localStorage.getItem(profileStorageKey(profileId, key));
+        return item ? JSON.parse(item) : fallback;
+    } catch {
+        return fallback;
+    }
+};
+
+export const writeProfileValue = (profileId: string, key: string, value: unknown) => {
+    window.localStorage.setItem(profileStorageKey(profileId, key), JSON.stringify(value));
+};
+
+export const removeProfileValues = (profileId: string) => {
+    PROFILE_SCOPED_KEYS.forEach(key => window.localStorage.removeItem(profileStorageKey(profileId, key)));
+};
@@ -0,0 +1,67 @@
+import { CsvMapping, parseAmount, parseDate } from './csvImport';
+import { StatementParseResult, StatementRowError, StatementTransaction } from './statements';
+
+// QIF records are lines starting with a one-letter field code and end with a "^" line.
+// QIF dates have no fixed order, so the caller picks the date and number format just like for CSV.
+
+// Normalises Quicken's "1/ 5'25" style (apostrophe before years from 2000) to "1/5/25".
+const normaliseQifDate = (value: string) => value.replace(/\s+/g, '').replace("'", '/');
+
+export const parseQif = (text: string, options: Pick<CsvMapping, 'dateFormat' | 'decimalSeparator' | 'invertSign'>): StatementParseResult => {
+    const transactions: StatementTransaction[] = [];
+    const errors: StatementRowError[] = [];
+    let fields: Record<string, string> = {};
+    let row = 0;
+    let inTransactions = true;
+
+    const finishRecord = () => {
+        if (Object.keys(fields).length === 0) return;
+        row++;
+        const record = fields;
+        fields = {};
+        if (!inTransactions) return;
+
+        const date = parseDate(normaliseQifDate(record.D ?? ''), options.dateFormat);
+        const amount = parseAmount(record.T ?? record.U ?? '', options.decimalSeparator);
+        if (!date) {
+            errors.push({ row, message: `Unrecognised date "${record.D ?? ''}"` });
+            return;
+        }
+        if (amount === null || amount === 0) {
+            errors.push({ row, message: 'Missing or zero amount' });
+            return;
+        }
+        const payee = record.P ?? '';
+        const memo = record.M ?? '';
+        const description = payee && memo && !payee.includes(memo) ? `${payee} - ${memo}` : payee || memo;
+        transactions.push({ date, amount: options.invertSign ? -amount : amount, description: description || 'Bank transaction' });
+    };
+
+    text.replace(/^\uFEFF/, '').split(/\r?\n/).forEach(rawLine => {
+        const line = rawLine.trim();
+        if (!line) return;
+        if (line.startsWith('!')) {
+            finishRecord();
+            // Account lists, categories and memorised items share the format but are not transactions.
+            const header = line.toLowerCase();
+            if (header.startsWith('!account')) {
+                inTransactions = false;
+            } else if (header.startsWith('!type:')) {
+                inTransactions = !/^!type:(cat|class|memorized|invitem|security|prices)/.test(header);
+            }
+            return;
+        }
+        if (line === '^') {
+            finishRecord();
+            return;
+        }
+        const code = line[0];
+        // Split lines (S, E, $) repeat per split; only the first value of each code is needed.
+        if (!(code in fields)) {
+            fields[code] = line.slice(1).trim();
+        }
+    });
+    finishRecord();
+
+    return { transactions, errors };
+};
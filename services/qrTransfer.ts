@@ -0,0 +1,115 @@
+import { base64ToBytes, bytesToBase64, deriveKey } from './crypto';
+
+// Moves an export between devices as a cycling sequence of QR codes. The payload is deflated, optionally
+// encrypted, base64-encoded and cut into frames of the form "WF1/<transfer id>/<index>/<total>/<chunk>".
+// Frames can be scanned in any order and repeatedly; a frame of another transfer starts over.
+
+const FRAME_PREFIX = 'WF1';
+// Small enough for a phone camera to read off a screen while the codes cycle.
+export const DEFAULT_CHUNK_SIZE = 400;
+
+const PLAIN = 0;
+const ENCRYPTED = 1;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export interface QrFrame {
+    transferId: string;
+    index: number;
+    total: number;
+    chunk: string;
+}
+
+export interface TransferProgress {
+    transferId: string;
+    chunks: (string | undefined)[];
+    received: number;
+}
+
+const pipeThrough = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> => {
+    const stream = new Blob([bytes]).stream().pipeThrough(transform);
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const concatBytes = (...parts: Uint8Array[]) => {
+    const result = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+    let offset = 0;
+    parts.forEach(part => {
+        result.set(part, offset);
+        offset += part.length;
+    });
+    return result;
+};
+
+export const encodeTransfer = async (text: string, passphrase = '', chunkSize = DEFAULT_CHUNK_SIZE): Promise<string[]> => {
+    const compressed = await pipeThrough(new TextEncoder().encode(text), new CompressionStream('deflate'));
+    let payload: Uint8Array;
+    if (passphrase) {
+        const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+        const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+        const key = await deriveKey(passphrase, salt);
+        const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, compressed));
+        payload = concatBytes(Uint8Array.of(ENCRYPTED), salt, iv, ciphertext);
+    } else {
+        payload = concatBytes(Uint8Array.of(PLAIN), compressed);
+    }
+
+    const encoded = bytesToBase64(payload);
+    const total = Math.max(1, Math.ceil(encoded.length / chunkSize));
+    const transferId = Math.random().toString(36).slice(2, 8);
+    return Array.from({ length: total }, (_, index) =>
+        [FRAME_PREFIX, transferId, index, total, encoded.slice(index * chunkSize, (index + 1) * chunkSize)].join('/'));
+};
+
+// Returns null for QR codes that are not transfer frames.
+export const parseFrame = (text: string): QrFrame | null => {
+    const match = text.match(/^WF1\/([a-z0-9]+)\/(\d+)\/(\d+)\/([A-Za-z0-9+/=]*)$/);
+    if (!match) return null;
+    const index = Number(match[2]);
+    const total = Number(match[3]);
+    if (total < 1 || index >= total) return null;
+    return { transferId: match[1], index, total, chunk: match[4] };
+};
+
+export const addFrame = (progress: TransferProgress | null, frame: QrFrame): TransferProgress => {
+    const current = progress && progress.transferId === frame.transferId && progress.chunks.length === frame.total
+        ? progress
+        : { transferId: frame.transferId, chunks: new Array<string | undefined>(frame.total).fill(undefined), received: 0 };
+    if (current.chunks[frame.index] !== undefined) return current;
+    const chunks = [...current.chunks];
+    chunks[frame.index] = frame.chunk;
+    return { ...current, chunks, received: current.received + 1 };
+};
+
+export const isTransferComplete = (progress: TransferProgress | null): progress is TransferProgress =>
+    !!progress && progress.received === progress.chunks.length;
+
+const assemble = (progress: TransferProgress): Uint8Array => {
+    if (!isTransferComplete(progress)) throw new Error('Not all QR codes have been scanned yet.');
+    return base64ToBytes(progress.chunks.join(''));
+};
+
+export const isTransferEncrypted = (progress: TransferProgress) => assemble(progress)[0] === ENCRYPTED;
+
+export const decodeTransfer = async (progress: TransferProgress, passphrase = ''): Promise<string> => {
+    const payload = assemble(progress);
+    let compressed = payload.subarray(1);
+    if (payload[0] === ENCRYPTED) {
+        if (!passphrase) throw new Error('This transfer is encrypted. Enter its passphrase.');
+        const salt = payload.subarray(1, 1 + SALT_BYTES);
+        const iv = payload.subarray(1 + SALT_BYTES, 1 + SALT_BYTES + IV_BYTES);
+        const key = await deriveKey(passphrase, salt);
+        try {
+            compressed = new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, payload.subarray(1 + SALT_BYTES + IV_BYTES)));
+        } catch {
+            throw new Error('Wrong passphrase, or the codes were misread.');
+        }
+    } else if (payload[0] !== PLAIN) {
+        throw new Error('These QR codes come from a newer version of WaveFinances.');
+    }
+    try {
+        return new TextDecoder().decode(await pipeThrough(compressed, new DecompressionStream('deflate')));
+    } catch {
+        throw new Error('The scanned data is damaged. Please scan the codes again.');
+    }
+};
@@ -0,0 +1,33 @@
+import { FinancialData } from '../types';
+
+// The FinancialData fields that hold lists of records identified by `id`.
+export const RECORD_COLLECTIONS = [
+    'expenses',
+    'recurringExpenses',
+    'debts',
+    'income',
+    'investmentBaskets',
+    'incomeGoals',
+    'purchases',
+    'exchangeRates',
+    'categories',
+] as const;
+
+export type RecordCollection = typeof RECORD_COLLECTIONS[number];
+
+export const isRecordCollection = (key: string): key is RecordCollection =>
+    (RECORD_COLLECTIONS as readonly string[]).includes(key);
+
+// Everything in FinancialData that is not a record collection, e.g. schemaVersion.
+export const getScalarFields = (data: FinancialData): Record<string, unknown> =>
+    Object.fromEntries(Object.entries(data).filter(([key]) => !isRecordCollection(key)));
+
+// Compares by reference, which is enough for state produced by the reducer: untouched records keep their identity.
+export const diffRecords = <T extends { id: string }>(previous: T[], next: T[]) => {
+    const previousById = new Map(previous.map(r => [r.id, r]));
+    const nextIds = new Set(next.map(r => r.id));
+    return {
+        upserted: next.filter(r => previousById.get(r.id) !== r),
+        removedIds: previous.filter(r => !nextIds.has(r.id)).map(r => r.id),
+    };
+};
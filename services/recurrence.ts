@@ -0,0 +1,136 @@
+import { Expense, Money, RecurrenceFrequency, RecurringExpense } from '../types';
+import { multiplyMoney } from './money';
+import { DateLabels, addMonths, dateKeyToDate, toDateKey } from './periods';
+
+// A recurring expense is first due on `dayOfMonth` of its start month and then repeats every few days or months.
+// Days past the end of a month fall on its last day, so day 31 means the end of every month.
+// Nothing is due after the end month or in paused months; price changes only affect the months from their date on,
+// so planned totals for earlier months stay as they were.
+
+export const RECURRENCE_OPTIONS: { value: RecurrenceFrequency; label: string }[] = [
+    { value: 'weekly', label: 'Weekly' },
+    { value: 'biweekly', label: 'Every two weeks' },
+    { value: 'monthly', label: 'Monthly' },
+    { value: 'quarterly', label: 'Quarterly' },
+    { value: 'semiannual', label: 'Every six months' },
+    { value: 'annual', label: 'Yearly' },
+    { value: 'everyNMonths', label: 'Every N months' },
+];
+
+export type RecurrenceRule = Pick<RecurringExpense, 'frequency' | 'interval' | 'dayOfMonth' | 'startDate' | 'endDate' | 'pauses'>;
+
+type Step = { unit: 'day' | 'month'; count: number };
+
+const FIXED_STEPS: Record<Exclude<RecurrenceFrequency, 'everyNMonths'>, Step> = {
+    weekly: { unit: 'day', count: 7 },
+    biweekly: { unit: 'day', count: 14 },
+    monthly: { unit: 'month', count: 1 },
+    quarterly: { unit: 'month', count: 3 },
+    semiannual: { unit: 'month', count: 6 },
+    annual: { unit: 'month', count: 12 },
+};
+
+const getStep = (rule: RecurrenceRule): Step =>
+    rule.frequency === 'everyNMonths'
+        ? { unit: 'month', count: Math.max(1, Math.round(rule.interval ?? 1)) }
+        : FIXED_STEPS[rule.frequency] ?? FIXED_STEPS.monthly;
+
+// True when the rule is due at most once a month, so a month identifies a payment.
+export const isMonthlyOrLonger = (rule: RecurrenceRule) => getStep(rule).unit === 'month';
+
+const clampedDay = (monthKey: string, day: number) => {
+    const [year, month] = monthKey.split('-').map(Number);
+    const lastDay = new Date(year, month, 0).getDate();
+    return `${monthKey}-${String(Math.min(Math.max(1, Math.round(day)), lastDay)).padStart(2, '0')}`;
+};
+
+const monthsBetween = (from: string, to: string) => {
+    const [fromYear, fromMonth] = from.split('-').map(Number);
+    const [toYear, toMonth] = to.split('-').map(Number);
+    return (toYear - fromYear) * 12 + toMonth - fromMonth;
+};
+
+export const isPaused = (rule: RecurrenceRule, monthKey: string) =>
+    (rule.pauses ?? []).some(p => p.start <= monthKey && monthKey <= p.end);
+
+// True when payments are due in or after the month, ignoring pauses.
+export const isRunning = (rule: RecurrenceRule, monthKey: string) => !rule.endDate || monthKey <= rule.endDate;
+
+// The due dates (YYYY-MM-DD) between `start` and `end`, both inclusive.
+export const getOccurrences = (rule: RecurrenceRule, start: string, end: string): string[] =>
+    getScheduledDates(rule, start, end).filter(date => isRunning(rule, date.slice(0, 7)) && !isPaused(rule, date.slice(0, 7)));
+
+const getScheduledDates = (rule: RecurrenceRule, start: string, end: string): string[] => {
+    const step = getStep(rule);
+    const day = rule.dayOfMonth ?? 1;
+    const dates: string[] = [];
+    if (rule.endDate && end.slice(0, 7) > rule.endDate) end = clampedDay(rule.endDate, 31);
+
+    if (step.unit === 'month') {
+        const startMonth = start.slice(0, 7) < rule.startDate ? rule.startDate : start.slice(0, 7);
+        const offset = monthsBetween(rule.startDate, startMonth);
+        let month = addMonths(rule.startDate, Math.ceil(offset / step.count) * step.count);
+        while (month <= end.slice(0, 7)) {
+            const date = clampedDay(month, day);
+            if (date >= start && date <= end) dates.push(date);
+            month = addMonths(month, step.count);
+        }
+        return dates;
+    }
+
+    const firstDate = dateKeyToDate(clampedDay(rule.startDate, day));
+    const daysToStart = Math.round((dateKeyToDate(start).getTime() - firstDate.getTime()) / 86400000);
+    let index = Math.max(0, Math.ceil(daysToStart / step.count));
+    for (;;) {
+        const date = toDateKey(new Date(firstDate.getFullYear(), firstDate.getMonth(), firstDate.getDate() + index * step.count));
+        if (date > end) return dates;
+        dates.push(date);
+        index++;
+    }
+};
+
+export const getOccurrencesInMonth = (rule: RecurrenceRule, monthKey: string) =>
+    getOccurrences(rule, `${monthKey}-01`, clampedDay(monthKey, 31));
+
+// The amount of each payment in the month.
+export const amountInMonth = (expense: RecurringExpense, monthKey: string): Money => {
+    const changes = (expense.priceChanges ?? []).filter(c => c.from <= monthKey).sort((a, b) => a.from.localeCompare(b.from));
+    return changes.length > 0 ? changes[changes.length - 1].amount : expense.amount;
+};
+
+// The planned amount for a month: the amount in effect times the number of payments due in it.
+export const plannedForMonth = (expense: RecurringExpense, monthKey: string): Money =>
+    multiplyMoney(amountInMonth(expense, monthKey), getOccurrencesInMonth(expense, monthKey).length);
+
+// The expense recorded for one payment. Ids are stable, so a payment is only ever recorded once.
+// Schedules due at most once a month use the month in the id, like entries logged before weekly ones existed.
+export const createRecurringEntry = (expense: RecurringExpense, date: string, currency: string): Expense => ({
+    id: `logged-${expense.id}-${isMonthlyOrLonger(expense) ? date.slice(0, 7) : date}`,
+    date,
+    category: expense.category,
+    amount: amountInMonth(expense, date.slice(0, 7)),
+    description: `${expense.description} (Recurring)`,
+    mode: expense.mode,
+    currency,
+});
+
+// The average cost per month at the month's price, e.g. a yearly bill spread over twelve months.
+// Zero once the expense has ended or while it is paused.
+export const monthlyEquivalent = (expense: RecurringExpense, monthKey: string): Money => {
+    if (monthKey < expense.startDate || !isRunning(expense, monthKey) || isPaused(expense, monthKey)) return 0;
+    const step = getStep(expense);
+    const perYear = step.unit === 'day' ? 365.25 / step.count : 12 / step.count;
+    return multiplyMoney(amountInMonth(expense, monthKey), perYear / 12);
+};
+
+// e.g. "Every 3 months on day 15, from Mar 2026"
+export const describeRecurrence = (rule: RecurrenceRule, labels: DateLabels): string => {
+    const step = getStep(rule);
+    const day = rule.dayOfMonth ?? 1;
+    if (step.unit === 'day') {
+        const label = RECURRENCE_OPTIONS.find(o => o.value === rule.frequency)?.label;
+        return `${label}, from ${labels.date(clampedDay(rule.startDate, day))}`;
+    }
+    const every = step.count === 1 ? 'Monthly' : step.count === 12 ? 'Yearly' : `Every ${step.count} months`;
+    return step.count === 1 ? `${every} on day ${day}` : `${every} on day ${day}, from ${labels.month(rule.startDate)}`;
+};
@@ -0,0 +1,68 @@
+import { AppSettings, FinancialData, Snapshot, SnapshotKind } from '../types';
+import { DEFAULT_CURRENCY, createConverter } from './currency';
+import { subtractMoney, sumMoney } from './money';
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export const SNAPSHOT_KIND_LABELS: Record<SnapshotKind, string> = {
+    daily: 'Daily',
+    weekly: 'Weekly',
+    'pre-import': 'Before import',
+    manual: 'Manual',
+};
+
+export interface SnapshotSummary {
+    netWorth: number;
+    counts: { expenses: number; recurringExpenses: number; income: number; debts: number; assets: number; purchases: number };
+}
+
+let snapshotCounter = 0;
+
+export const createSnapshot = (kind: SnapshotKind, data: FinancialData, now = new Date()): Snapshot => ({
+    id: `s-${now.getTime()}-${(snapshotCounter++).toString().padStart(6, '0')}`,
+    kind,
+    createdAt: now.toISOString(),
+    data,
+});
+
+const localDay = (date: Date) => `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+
+// A daily snapshot is due once per calendar day, a weekly one seven days after the last.
+export const isSnapshotDue = (kind: 'daily' | 'weekly', snapshots: Snapshot[], now = new Date()) => {
+    const latest = snapshots
+        .filter(s => s.kind === kind)
+        .reduce<Date | null>((max, s) => {
+            const created = new Date(s.createdAt);
+            return !max || created > max ? created : max;
+        }, null);
+    if (!latest) return true;
+    return kind === 'daily'
+        ? localDay(latest) !== localDay(now)
+        : now.getTime() - latest.getTime() >= WEEK_MS;
+};
+
+// Returns the ids of the oldest automatic snapshots beyond each kind's retention count.
+export const getExpiredSnapshotIds = (snapshots: Snapshot[], retention: AppSettings['snapshotRetention']): string[] =>
+    (Object.keys(retention) as (keyof typeof retention)[]).flatMap(kind => snapshots
+        .filter(s => s.kind === kind)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .slice(Math.max(0, retention[kind]))
+        .map(s => s.id));
+
+// Net worth is converted with the snapshot's own exchange rates; snapshots from before currencies existed have none.
+export const summarizeSnapshot = (data: FinancialData, baseCurrency = DEFAULT_CURRENCY): SnapshotSummary => {
+    const convert = createConverter(data.exchangeRates ?? [], baseCurrency);
+    const totalAssets = sumMoney(data.investmentBaskets.flatMap(b => b.assets), asset => convert(asset.currentValue, asset.currency));
+    const totalDebts = sumMoney(data.debts, debt => convert(debt.currentBalance, debt.currency));
+    return {
+        netWorth: subtractMoney(totalAssets, totalDebts),
+        counts: {
+            expenses: data.expenses.length,
+            recurringExpenses: data.recurringExpenses.length,
+            income: data.income.length,
+            debts: data.debts.length,
+            assets: data.investmentBaskets.reduce((sum, b) => sum + b.assets.length, 0),
+            purchases: data.purchases.length,
+        },
+    };
+};
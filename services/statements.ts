@@ -0,0 +1,47 @@
+import { Expense, FinancialData, Income } from '../types';
+import { toMinor } from './money';
+
+export type StatementFormat = 'csv' | 'ofx' | 'qif';
+
+// A transaction read from a bank statement, before it becomes an Expense or Income record.
+export interface StatementTransaction {
+    date: string; // YYYY-MM-DD
+    amount: number; // As written in the statement, not in cents; negative for money going out
+    description: string;
+    externalId?: string; // The bank's own transaction id, where the format has one (OFX FITID)
+}
+
+export interface StatementRowError {
+    row: number; // 1-based row (CSV), record (QIF) or transaction (OFX) in the file
+    message: string;
+}
+
+export interface StatementParseResult {
+    transactions: StatementTransaction[];
+    errors: StatementRowError[];
+}
+
+export type DuplicateKind = 'imported' | 'similar';
+
+export const detectStatementFormat = (fileName: string, text: string): StatementFormat => {
+    const head = text.replace(/^\uFEFF/, '').trimStart().slice(0, 500).toUpperCase();
+    if (/\.(ofx|qfx)$/i.test(fileName) || head.startsWith('OFXHEADER') || head.includes('<OFX>')) return 'ofx';
+    if (/\.qif$/i.test(fileName) || head.startsWith('!TYPE') || head.startsWith('!ACCOUNT') || head.startsWith('!OPTION')) return 'qif';
+    return 'csv';
+};
+
+// Money going out of the account becomes an expense, money coming in becomes income.
+export const isOutgoing = (transaction: StatementTransaction) => transaction.amount < 0;
+
+// 'imported' means the bank's transaction id is already on record; 'similar' means a matching entry was
+// probably entered by hand or by an import from a format without ids.
+export const findDuplicate = (transaction: StatementTransaction, state: FinancialData): DuplicateKind | null => {
+    const records: (Expense | Income)[] = isOutgoing(transaction) ? state.expenses : state.income;
+    if (transaction.externalId && records.some(r => r.externalId === transaction.externalId)) return 'imported';
+
+    const amount = toMinor(Math.abs(transaction.amount));
+    const description = transaction.description.trim().toLowerCase();
+    const similar = records.some(r => r.date === transaction.date && r.amount === amount
+        && r.description.trim().toLowerCase() === description);
+    return similar ? 'similar' : null;
+};
@@ -0,0 +1,361 @@
+import { FinancialData, HistoryEntry, JournalEntry, Snapshot } from '../types';
+import { RECORD_COLLECTIONS, diffRecords, getScalarFields } from './records';
+import { migrateFinancialData } from './migrations';
+import { DEFAULT_PROFILE_ID, profileStorageKey } from './profiles';
+
+export interface PersistedHistory {
+    past: HistoryEntry[];
+    future: HistoryEntry[];
+}
+
+export interface StoredData {
+    data: unknown; // Raw, not yet migrated
+    revision: number; // Increases with every save, from any tab
+}
+
+export interface StorageAdapter {
+    name: 'indexeddb' | 'localstorage' | 'unavailable';
+    // Returns null if nothing has been saved.
+    load: () => Promise<StoredData | null>;
+    // `previous` is the state that was last saved or loaded through this adapter, or null to rewrite everything.
+    // Resolves to the new revision, or to null without writing anything if the stored revision is no longer
+    // `expectedRevision`, i.e. another tab saved in the meantime.
+    save: (next: FinancialData, previous: FinancialData | null, expectedRevision: number) => Promise<number | null>;
+    // Undo/redo stacks, kept apart from the data itself. Entries hold raw snapshots that may need migrating.
+    loadHistory: () => Promise<PersistedHistory | null>;
+    saveHistory: (next: PersistedHistory, previous: PersistedHistory | null) => Promise<void>;
+    // Append-only audit journal of every change, oldest first.
+    loadJournal: () => Promise<JournalEntry[]>;
+    appendJournal: (entries: JournalEntry[]) => Promise<void>;
+    // Restore points. Their data is stored raw and may need migrating before use.
+    loadSnapshots: () => Promise<Snapshot[]>;
+    saveSnapshot: (snapshot: Snapshot) => Promise<void>;
+    deleteSnapshots: (ids: string[]) => Promise<void>;
+}
+
+const LEGACY_STORAGE_KEY = 'financialData';
+const DB_NAME = 'wavefinances';
+const DB_VERSION = 6; // Bump when adding object stores.
+const META_STORE = 'meta';
+const HISTORY_STORE = 'history';
+const JOURNAL_STORE = 'journal';
+const SNAPSHOT_STORE = 'snapshots';
+const FIELDS_KEY = 'fields';
+const REVISION_KEY = 'revision';
+const HISTORY_INDEX_KEY = 'historyIndex';
+
+const requestToPromise = <T,>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+});
+
+// Another tab still holds the database at an older version. Its data is the real data, so this must not fall
+// back to local storage, where the app would start from stale or example data and save over it.
+const DATABASE_BLOCKED = 'DatabaseBlockedError';
+
+const openDatabase = (name: string) => new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser.'));
+        return;
+    }
+    const request = indexedDB.open(name, DB_VERSION);
+    request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(META_STORE)) {
+            db.createObjectStore(META_STORE);
+        }
+        if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+            db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(JOURNAL_STORE)) {
+            db.createObjectStore(JOURNAL_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+            db.createObjectStore(SNAPSHOT_STORE, { keyPath: 'id' });
+        }
+        RECORD_COLLECTIONS.forEach(collection => {
+            if (!db.objectStoreNames.contains(collection)) {
+                db.createObjectStore(collection, { keyPath: 'id' });
+            }
+        });
+    };
+    let blocked = false;
+    request.onsuccess = () => {
+        if (blocked) {
+            // Opened once the other tab let go; this page has already reported the error.
+            request.result.close();
+            return;
+        }
+        // Let other tabs upgrade or delete the database (e.g. when a profile is removed).
+        request.result.onversionchange = () => request.result.close();
+        resolve(request.result);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => {
+        blocked = true;
+        const error = new Error('WaveFinances is open in another tab that uses an older version of its storage. Close the other tabs and reload this page.');
+        error.name = DATABASE_BLOCKED;
+        reject(error);
+    };
+});
+
+// Every profile has a database of its own; the default profile keeps the one from before profiles existed.
+const databaseName = (profileId: string) => profileId === DEFAULT_PROFILE_ID ? DB_NAME : `${DB_NAME}-${profileId}`;
+
+// Each collection lives in its own object store so that a change only rewrites the records it touched.
+// getAll() returns records sorted by key, so the original order of every collection is kept in the meta store.
+const createIndexedDbStorage = (db: IDBDatabase): StorageAdapter => ({
+    name: 'indexeddb',
+
+    load: async () => {
+        const tx = db.transaction([META_STORE, ...RECORD_COLLECTIONS], 'readonly');
+        const meta = tx.objectStore(META_STORE);
+        const fields = await requestToPromise(meta.get(FIELDS_KEY));
+        if (!fields) {
+            return null;
+        }
+
+        const data: Record<string, unknown> = { ...fields };
+        const revision = await requestToPromise(meta.get(REVISION_KEY) as IDBRequest<number | undefined>);
+        await Promise.all(RECORD_COLLECTIONS.map(async collection => {
+            const [records, order] = await Promise.all([
+                requestToPromise(tx.objectStore(collection).getAll() as IDBRequest<{ id: string }[]>),
+                requestToPromise(meta.get(`order:${collection}`) as IDBRequest<string[] | undefined>),
+            ]);
+            const position = new Map((order || []).map((id, index) => [id, index]));
+            data[collection] = records.sort((a, b) => (position.get(a.id) ?? Infinity) - (position.get(b.id) ?? Infinity));
+        }));
+        return { data, revision: revision ?? 0 };
+    },
+
+    save: async (next, previous, expectedRevision) => {
+        const tx = db.transaction([META_STORE, ...RECORD_COLLECTIONS], 'readwrite');
+        const meta = tx.objectStore(META_STORE);
+
+        // Read-write transactions on the same stores never overlap, so this check-and-bump is atomic across tabs.
+        const revision = (await requestToPromise(meta.get(REVISION_KEY) as IDBRequest<number | undefined>)) ?? 0;
+        if (revision !== expectedRevision) {
+            return null;
+        }
+        meta.put(revision + 1, REVISION_KEY);
+
+        const fields = getScalarFields(next);
+        const previousFields = previous ? getScalarFields(previous) : null;
+        if (!previousFields || Object.keys(fields).some(key => fields[key] !== previousFields[key])) {
+            meta.put(fields, FIELDS_KEY);
+        }
+
+        RECORD_COLLECTIONS.forEach(collection => {
+            const nextRecords = next[collection] as { id: string }[];
+            const previousRecords = (previous?.[collection] || []) as { id: string }[];
+            if (previous && previousRecords === nextRecords) return;
+
+            const store = tx.objectStore(collection);
+            if (!previous) {
+                store.clear();
+            }
+            const { upserted, removedIds } = diffRecords(previousRecords, nextRecords);
+            upserted.forEach(record => store.put(record));
+            removedIds.forEach(id => store.delete(id));
+
+            const orderChanged = !previous
+                || previousRecords.length !== nextRecords.length
+                || nextRecords.some((r, i) => r.id !== previousRecords[i].id);
+            if (orderChanged) {
+                meta.put(nextRecords.map(r => r.id), `order:${collection}`);
+            }
+        });
+
+        await transactionDone(tx);
+        return revision + 1;
+    },
+
+    loadHistory: async () => {
+        const tx = db.transaction([META_STORE, HISTORY_STORE], 'readonly');
+        const index = await requestToPromise(tx.objectStore(META_STORE).get(HISTORY_INDEX_KEY) as IDBRequest<{ past: string[]; future: string[] } | undefined>);
+        if (!index) {
+            return null;
+        }
+        const entries: HistoryEntry[] = await requestToPromise(tx.objectStore(HISTORY_STORE).getAll());
+        const byId = new Map(entries.map(e => [e.id, e]));
+        const resolve = (ids: string[]) => ids.map(id => byId.get(id)).filter((e): e is HistoryEntry => !!e);
+        return { past: resolve(index.past), future: resolve(index.future) };
+    },
+
+    // Entries are immutable, so only new snapshots are written and dropped ones deleted.
+    saveHistory: async (next, previous) => {
+        const tx = db.transaction([META_STORE, HISTORY_STORE], 'readwrite');
+        const store = tx.objectStore(HISTORY_STORE);
+        if (!previous) {
+            store.clear();
+        }
+        const { upserted, removedIds } = diffRecords(
+            previous ? [...previous.past, ...previous.future] : [],
+            [...next.past, ...next.future],
+        );
+        upserted.forEach(entry => store.put(entry));
+        removedIds.forEach(id => store.delete(id));
+        tx.objectStore(META_STORE).put({ past: next.past.map(e => e.id), future: next.future.map(e => e.id) }, HISTORY_INDEX_KEY);
+        await transactionDone(tx);
+    },
+
+    loadJournal: async () => {
+        const tx = db.transaction(JOURNAL_STORE, 'readonly');
+        const entries: JournalEntry[] = await requestToPromise(tx.objectStore(JOURNAL_STORE).getAll());
+        return entries; // Sorted by key, and keys are chronological
+    },
+
+    appendJournal: async (entries) => {
+        const tx = db.transaction(JOURNAL_STORE, 'readwrite');
+        const store = tx.objectStore(JOURNAL_STORE);
+        entries.forEach(entry => store.add(entry));
+        await transactionDone(tx);
+    },
+
+    loadSnapshots: async () => {
+        const tx = db.transaction(SNAPSHOT_STORE, 'readonly');
+        const snapshots: Snapshot[] = await requestToPromise(tx.objectStore(SNAPSHOT_STORE).getAll());
+        return snapshots;
+    },
+
+    saveSnapshot: async (snapshot) => {
+        const tx = db.transaction(SNAPSHOT_STORE, 'readwrite');
+        tx.objectStore(SNAPSHOT_STORE).put(snapshot);
+        await transactionDone(tx);
+    },
+
+    deleteSnapshots: async (ids) => {
+        const tx = db.transaction(SNAPSHOT_STORE, 'readwrite');
+        const store = tx.objectStore(SNAPSHOT_STORE);
+        ids.forEach(id => store.delete(id));
+        await transactionDone(tx);
+    },
+});
+
+// Fallback for browsers without a usable IndexedDB: the whole tree under a single key, as in earlier versions.
+const createLocalStorageAdapter = (key: string): StorageAdapter => ({
+    name: 'localstorage',
+
+    load: async () => {
+        const item = window.localStorage.getItem(key);
+        return item ? { data: JSON.parse(item), revision: Number(window.localStorage.getItem(`${key}Revision`)) || 0 } : null;
+    },
+
+    save: async (next, _previous, expectedRevision) => {
+        const revision = Number(window.localStorage.getItem(`${key}Revision`)) || 0;
+        if (revision !== expectedRevision) {
+            return null;
+        }
+        window.localStorage.setItem(key, JSON.stringify(next));
+        window.localStorage.setItem(`${key}Revision`, String(revision + 1));
+        return revision + 1;
+    },
+
+    loadHistory: async () => {
+        const item = window.localStorage.getItem(`${key}History`);
+        return item ? JSON.parse(item) : null;
+    },
+
+    saveHistory: async (next) => {
+        try {
+            window.localStorage.setItem(`${key}History`, JSON.stringify(next));
+        } catch (error) {
+            // Snapshots add up quickly; losing undo history is better than failing the data write.
+            console.warn("Undo history does not fit in local storage", error);
+            window.localStorage.removeItem(`${key}History`);
+        }
+    },
+
+    loadJournal: async () => {
+        const item = window.localStorage.getItem(`${key}Journal`);
+        return item ? JSON.parse(item) : [];
+    },
+
+    appendJournal: async (entries) => {
+        const item = window.localStorage.getItem(`${key}Journal`);
+        const journal: JournalEntry[] = item ? JSON.parse(item) : [];
+        window.localStorage.setItem(`${key}Journal`, JSON.stringify([...journal, ...entries]));
+    },
+
+    loadSnapshots: async () => {
+        const item = window.localStorage.getItem(`${key}Snapshots`);
+        return item ? JSON.parse(item) : [];
+    },
+
+    saveSnapshot: async (snapshot) => {
+        const item = window.localStorage.getItem(`${key}Snapshots`);
+        const snapshots: Snapshot[] = item ? JSON.parse(item) : [];
+        // Unlike undo history, a failed restore point should be reported rather than silently dropped.
+        window.localStorage.setItem(`${key}Snapshots`, JSON.stringify([...snapshots, snapshot]));
+    },
+
+    deleteSnapshots: async (ids) => {
+        const item = window.localStorage.getItem(`${key}Snapshots`);
+        const snapshots: Snapshot[] = item ? JSON.parse(item) : [];
+        window.localStorage.setItem(`${key}Snapshots`, JSON.stringify(snapshots.filter(s => !ids.includes(s.id))));
+    },
+});
+
+// Stands in when the storage could not be opened: there is nothing to read, and every write fails.
+export const createUnavailableStorage = (reason: string): StorageAdapter => {
+    const fail = async (): Promise<never> => {
+        throw new Error(reason);
+    };
+    return {
+        name: 'unavailable',
+        load: async () => null,
+        save: fail,
+        loadHistory: async () => null,
+        saveHistory: fail,
+        loadJournal: async () => [],
+        appendJournal: fail,
+        loadSnapshots: async () => [],
+        saveSnapshot: fail,
+        deleteSnapshots: fail,
+    };
+};
+
+export const openFinancialStorage = async (profileId = DEFAULT_PROFILE_ID): Promise<StorageAdapter> => {
+    const localKey = profileStorageKey(profileId, LEGACY_STORAGE_KEY);
+    const localAdapter = createLocalStorageAdapter(localKey);
+
+    let indexedDbAdapter: StorageAdapter;
+    try {
+        indexedDbAdapter = createIndexedDbStorage(await openDatabase(databaseName(profileId)));
+    } catch (error) {
+        if (error instanceof Error && error.name === DATABASE_BLOCKED) throw error;
+        console.warn("IndexedDB unavailable, falling back to local storage", error);
+        return localAdapter;
+    }
+
+    // One-time move of data saved by earlier versions from local storage into IndexedDB.
+    try {
+        const legacy = await localAdapter.load();
+        if (legacy && (await indexedDbAdapter.load()) === null) {
+            await indexedDbAdapter.save(migrateFinancialData(legacy.data), null, 0);
+            window.localStorage.removeItem(localKey);
+        }
+    } catch (error) {
+        console.error("Could not move local storage data to IndexedDB", error);
+        return localAdapter;
+    }
+
+    return indexedDbAdapter;
+};
+
+export const deleteFinancialStorage = async (profileId: string): Promise<void> => {
+    const localKey = profileStorageKey(profileId, LEGACY_STORAGE_KEY);
+    ['', 'Revision', 'History', 'Journal', 'Snapshots'].forEach(suffix => window.localStorage.removeItem(`${localKey}${suffix}`));
+    if (typeof indexedDB === 'undefined') return;
+    await new Promise<void>((resolve, reject) => {
+        const request = indexedDB.deleteDatabase(databaseName(profileId));
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject(request.error);
+    });
+};
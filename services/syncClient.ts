@@ -0,0 +1,174 @@
+import { FinancialData } from '../types';
+import { SyncKeys, bytesToBase64, hmacText, openText, sealText } from './crypto';
+import { AnyRecord, FlatData, MERGE_COLLECTIONS, MERGE_ENTITIES, MergeCollection, flatten, unflatten } from './merge';
+import { CURRENT_SCHEMA_VERSION, migrateRecord } from './migrations';
+import { ChangesResponse, PushChange, PushRequest, PushResponse } from './syncProtocol';
+
+// What this device last exchanged with the server, so local edits can be told apart from remote ones.
+export interface SyncState {
+    vaultId: string;
+    revision: number; // Highest server revision pulled so far
+    records: Record<string, { revision: number; hash: string }>; // By record key; an empty hash marks a deletion
+}
+
+export interface SyncResult {
+    data: FinancialData | null; // Null when nothing arrived from the server
+    state: SyncState;
+    pulled: number;
+    pushed: number;
+    conflicts: number; // Records changed here and on another device; this device's version was kept
+}
+
+// Plaintext of a record payload. Only the ciphertext and an HMAC of collection and id reach the server.
+interface SealedRecord {
+    v: number; // Schema version of the sending app
+    collection: MergeCollection;
+    id: string;
+    record: AnyRecord;
+}
+
+interface LocalRecord {
+    collection: MergeCollection;
+    record: AnyRecord;
+    hash: string;
+}
+
+const MAX_PUSH_ATTEMPTS = 3;
+
+// Sync codes are shared between devices and name the vault on the server, so they must be hard to guess.
+export const createVaultId = (): string =>
+    bytesToBase64(crypto.getRandomValues(new Uint8Array(18))).replace(/\+/g, '-').replace(/\//g, '_');
+
+const hashRecord = async (record: AnyRecord): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(record)));
+    return bytesToBase64(new Uint8Array(digest));
+};
+
+const request = async <T,>(url: string, init?: RequestInit): Promise<T> => {
+    let response: Response;
+    try {
+        response = await fetch(url, init);
+    } catch {
+        throw new Error('Could not reach the sync server. Check the server URL and your connection.');
+    }
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+        throw new Error(body?.error ?? `The sync server answered with status ${response.status}.`);
+    }
+    return body as T;
+};
+
+const changesUrl = (serverUrl: string, vaultId: string) =>
+    `${serverUrl.replace(/\/+$/, '')}/v1/vaults/${encodeURIComponent(vaultId)}/changes`;
+
+// Pulls remote changes into the data, then pushes local ones. Records changed on both sides keep the local
+// version, except on the first sync of a device, where the server's copy wins so that a new device
+// cannot overwrite shared data with what it happened to start with.
+export const syncWithServer = async (
+    serverUrl: string,
+    vaultId: string,
+    keys: SyncKeys,
+    data: FinancialData,
+    previous: SyncState | null,
+): Promise<SyncResult> => {
+    const url = changesUrl(serverUrl, vaultId);
+    const preferRemote = !previous || previous.vaultId !== vaultId;
+    const state: SyncState = preferRemote
+        ? { vaultId, revision: 0, records: {} }
+        : { ...previous, records: { ...previous.records } };
+
+    const flat = flatten(data);
+    const local = new Map<string, LocalRecord>();
+    for (const collection of MERGE_COLLECTIONS) {
+        for (const record of flat[collection]) {
+            local.set(await hmacText(keys.signing, `${collection}:${record.id}`), { collection, record, hash: await hashRecord(record) });
+        }
+    }
+    const isLocalChange = (key: string) => {
+        const synced = state.records[key];
+        const current = local.get(key);
+        return current ? synced?.hash !== current.hash : !!synced && synced.hash !== '';
+    };
+
+    let pulled = 0;
+    let pushed = 0;
+    let conflicts = 0;
+    let changedLocally = false;
+
+    for (let attempt = 0; attempt < MAX_PUSH_ATTEMPTS; attempt++) {
+        const remote = await request<ChangesResponse>(`${url}?since=${state.revision}`);
+        for (const change of remote.changes) {
+            // Our own earlier pushes come back on the next pull.
+            if (state.records[change.key]?.revision === change.revision) continue;
+            const sealed: SealedRecord | null = change.payload ? JSON.parse(await openText(keys.encryption, change.payload)) : null;
+            if (sealed && sealed.v > CURRENT_SCHEMA_VERSION) {
+                throw new Error('Another device synced data from a newer version of WaveFinances. Update this app first.');
+            }
+            if (sealed && sealed.v < CURRENT_SCHEMA_VERSION) {
+                // Sent by a device that has not been updated yet, e.g. with amounts in major units.
+                sealed.record = migrateRecord(MERGE_ENTITIES[sealed.collection], sealed.record, sealed.v, data.categories);
+            }
+            const remoteHash = sealed ? await hashRecord(sealed.record) : '';
+            const current = local.get(change.key);
+            if (remoteHash === (current?.hash ?? '')) {
+                state.records[change.key] = { revision: change.revision, hash: remoteHash };
+                continue;
+            }
+            if (isLocalChange(change.key) && !preferRemote) {
+                // Keep the local version; moving the revision forward lets it overwrite the server's on push.
+                conflicts++;
+                state.records[change.key] = { revision: change.revision, hash: state.records[change.key]?.hash ?? '' };
+                continue;
+            }
+            if (sealed) {
+                local.set(change.key, { collection: sealed.collection, record: sealed.record, hash: remoteHash });
+            } else {
+                local.delete(change.key);
+            }
+            state.records[change.key] = { revision: change.revision, hash: remoteHash };
+            changedLocally = true;
+            pulled++;
+        }
+        state.revision = remote.revision;
+
+        const changes: PushChange[] = [];
+        const pushedHashes = new Map<string, string>();
+        for (const [key, current] of local) {
+            if (!isLocalChange(key)) continue;
+            const sealed: SealedRecord = { v: CURRENT_SCHEMA_VERSION, collection: current.collection, id: current.record.id, record: current.record };
+            changes.push({ key, baseRevision: state.records[key]?.revision ?? 0, payload: await sealText(keys.encryption, JSON.stringify(sealed)) });
+            pushedHashes.set(key, current.hash);
+        }
+        Object.keys(state.records).filter(key => !local.has(key) && isLocalChange(key)).forEach(key => {
+            changes.push({ key, baseRevision: state.records[key].revision, payload: null });
+            pushedHashes.set(key, '');
+        });
+        if (changes.length === 0) break;
+
+        const body: PushRequest = { changes };
+        const result = await request<PushResponse>(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+        });
+        result.accepted.forEach(({ key, revision }) => {
+            state.records[key] = { revision, hash: pushedHashes.get(key) ?? '' };
+        });
+        pushed += result.accepted.length;
+        // Another device pushed in between; pull its changes and try the rest again.
+        if (result.conflicts.length === 0) break;
+    }
+
+    let next: FinancialData | null = null;
+    if (changedLocally) {
+        const nextFlat = Object.fromEntries(MERGE_COLLECTIONS.map(c => [c, [] as AnyRecord[]])) as unknown as FlatData;
+        local.forEach(({ collection, record }) => nextFlat[collection].push(record));
+        // Keep the local order of records that were already here.
+        MERGE_COLLECTIONS.forEach(collection => {
+            const order = new Map(flat[collection].map((r, i) => [r.id, i]));
+            nextFlat[collection].sort((a, b) => (order.get(a.id) ?? order.size) - (order.get(b.id) ?? order.size));
+        });
+        next = unflatten(data, nextFlat);
+    }
+    return { data: next, state, pulled, pushed, conflicts };
+};
@@ -0,0 +1,28 @@
+// Wire format of the sync server (server/src/protocol.ts); keep both files in step.
+
+export interface RecordChange {
+    key: string; // Opaque record key chosen by the client
+    revision: number;
+    payload: string | null; // Ciphertext, or null for a deleted record
+}
+
+export interface ChangesResponse {
+    revision: number;
+    changes: RecordChange[];
+}
+
+export interface PushChange {
+    key: string;
+    baseRevision: number; // Revision the client last saw for this key, 0 for a new record
+    payload: string | null;
+}
+
+export interface PushRequest {
+    changes: PushChange[];
+}
+
+export interface PushResponse {
+    revision: number;
+    accepted: { key: string; revision: number }[];
+    conflicts: RecordChange[];
+}
@@ -0,0 +1,27 @@
+import { profileStorageKey } from './profiles';
+
+// Messages between open tabs of the app. Every tab saves to the same storage, so a tab only needs to hear
+// that something changed and reads it from there; the storage revision decides whose save came last.
+export type TabSyncMessage =
+    | { type: 'saved'; revision: number }
+    | { type: 'journal' }
+    | { type: 'snapshots' };
+
+export interface TabChannel {
+    post: (message: TabSyncMessage) => void;
+    close: () => void;
+}
+
+const CHANNEL_NAME = 'wavefinances-sync';
+
+// Returns null where BroadcastChannel is unsupported; saves are still protected by the revision check.
+export const openTabChannel = (profileId: string, onMessage: (message: TabSyncMessage) => void): TabChannel | null => {
+    if (typeof BroadcastChannel === 'undefined') return null;
+    // Tabs only hear from tabs that have the same profile open.
+    const channel = new BroadcastChannel(profileStorageKey(profileId, CHANNEL_NAME));
+    channel.onmessage = (event: MessageEvent<TabSyncMessage>) => onMessage(event.data);
+    return {
+        post: (message) => channel.postMessage(message),
+        close: () => channel.close(),
+    };
+};
@@ -0,0 +1,113 @@
+import { AssetCategory, FinancialData, IncomeSource } from '../types';
+import { CellValue, Sheet } from './xlsx';
+import { toMajor } from './money';
+import { CATEGORY_SEPARATOR, categoryPath, sortCategories } from './categories';
+
+export type ExportCollection = 'expenses' | 'income' | 'debts' | 'assets' | 'purchases';
+
+export interface ExportFilters {
+    from: string; // YYYY-MM-DD, empty for no lower bound
+    to: string;
+    // Selected categories (or income sources) per collection; none selected means all.
+    categories: Partial<Record<ExportCollection, string[]>>;
+}
+
+// Records are copied into rows: the interfaces in types.ts are not indexable themselves.
+type ExportRow = Record<string, string | number | boolean | undefined>;
+
+interface ExportDefinition {
+    label: string;
+    columns: string[]; // Field names from types.ts, in the order they are declared there
+    moneyColumns: string[]; // Stored in cents, exported as amounts
+    dateField?: string;
+    categoryField?: string;
+    categories?: (state: FinancialData) => string[];
+    records: (state: FinancialData) => ExportRow[];
+}
+
+// Expense categories are exported by name, e.g. "Food › Restaurants".
+const expenseCategoryNames = (state: FinancialData) => sortCategories(state.categories).map(c => categoryPath(state.categories, c.id));
+
+// Selecting a category also selects its subcategories.
+const matchesCategory = (value: string, selected: string[]) =>
+    selected.some(category => value === category || value.startsWith(`${category}${CATEGORY_SEPARATOR}`));
+
+export const EXPORT_DEFINITIONS: Record<ExportCollection, ExportDefinition> = {
+    expenses: {
+        label: 'Expenses',
+        columns: ['id', 'date', 'category', 'amount', 'description', 'mode', 'currency', 'externalId', 'pendingConfirmation'],
+        moneyColumns: ['amount'],
+        dateField: 'date',
+        categoryField: 'category',
+        categories: expenseCategoryNames,
+        records: state => state.expenses.map(e => ({ ...e, category: categoryPath(state.categories, e.category) })),
+    },
+    income: {
+        label: 'Income',
+        columns: ['id', 'date', 'source', 'amount', 'description', 'currency', 'externalId'],
+        moneyColumns: ['amount'],
+        dateField: 'date',
+        categoryField: 'source',
+        categories: () => Object.values(IncomeSource),
+        records: state => state.income.map(i => ({ ...i })),
+    },
+    debts: {
+        label: 'Debts',
+        columns: ['id', 'name', 'originalAmount', 'currentBalance', 'interestRate', 'minimumPayment', 'currency'],
+        moneyColumns: ['originalAmount', 'currentBalance', 'minimumPayment'],
+        records: state => state.debts.map(d => ({ ...d })),
+    },
+    assets: {
+        label: 'Assets',
+        // Assets live inside baskets, so the basket's id is added to each row.
+        columns: ['id', 'basketId', 'name', 'category', 'amountInvested', 'currentValue', 'currency', 'date'],
+        moneyColumns: ['amountInvested', 'currentValue'],
+        dateField: 'date',
+        categoryField: 'category',
+        categories: () => Object.values(AssetCategory),
+        records: state => state.investmentBaskets.flatMap(b => b.assets.map(a => ({ ...a, basketId: b.id }))),
+    },
+    purchases: {
+        label: 'Purchases',
+        columns: ['id', 'name', 'cost', 'category', 'justification', 'status', 'dateAdded'],
+        moneyColumns: ['cost'],
+        dateField: 'dateAdded',
+        categoryField: 'category',
+        categories: expenseCategoryNames,
+        records: state => state.purchases.map(p => ({ ...p, category: categoryPath(state.categories, p.category) })),
+    },
+};
+
+export const EXPORT_COLLECTIONS = Object.keys(EXPORT_DEFINITIONS) as ExportCollection[];
+
+export const buildExportSheet = (state: FinancialData, collection: ExportCollection, filters: ExportFilters): Sheet => {
+    const definition = EXPORT_DEFINITIONS[collection];
+    const selectedCategories = filters.categories[collection] ?? [];
+
+    const records = definition.records(state)
+        .filter(r => {
+            if (!definition.dateField) return true;
+            const date = String(r[definition.dateField] ?? '');
+            return (!filters.from || date >= filters.from) && (!filters.to || date <= filters.to);
+        })
+        .filter(r => !definition.categoryField || selectedCategories.length === 0 || matchesCategory(String(r[definition.categoryField] ?? ''), selectedCategories))
+        .sort((a, b) => definition.dateField ? String(a[definition.dateField]).localeCompare(String(b[definition.dateField])) : 0);
+
+    const rows: CellValue[][] = records.map(r => definition.columns.map(column => {
+        const value = r[column];
+        if (typeof value === 'number') return definition.moneyColumns.includes(column) ? toMajor(value) : value;
+        return value === undefined || value === null ? '' : String(value);
+    }));
+    return { name: definition.label, rows: [definition.columns, ...rows] };
+};
+
+// Text starting with these characters is run as a formula by spreadsheet apps, so it is prefixed with a quote.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const csvCell = (value: CellValue) => {
+    if (typeof value === 'number') return String(value);
+    const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const sheetToCsv = (sheet: Sheet): string => sheet.rows.map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
@@ -0,0 +1,357 @@
+import { AssetCategory, ExpenseMode, FinancialData, IncomeSource, PurchaseStatus } from '../types';
+import { RECORD_COLLECTIONS, RecordCollection } from './records';
+import { isMoney, toMinor } from './money';
+import { DEFAULT_CATEGORIES, OTHER_CATEGORY_ID } from './categories';
+
+export type RepairMode = 'valid-only' | 'auto-fix';
+
+export interface ValidationIssue {
+    path: string; // e.g. "expenses[12].amount"
+    message: string;
+    fixable: boolean;
+}
+
+export interface ValidationReport {
+    issues: ValidationIssue[];
+    invalidRecords: number;
+    fixableRecords: number; // Invalid records that auto-fix can repair; the rest are dropped
+}
+
+type FieldRule =
+    | { type: 'id' | 'string' | 'number' | 'money' | 'date' | 'month' | 'currency' | 'boolean'; optional?: boolean }
+    | { type: 'enum'; values: string[]; fallback?: string }
+    // A list of small records inside a record, such as the price changes of a recurring expense
+    | { type: 'list'; item: RecordSchema; optional?: boolean }
+    // The id of a record in another collection, such as an expense's category
+    | { type: 'reference'; collection: RecordCollection; fallback?: string };
+
+interface RecordSchema {
+    [field: string]: FieldRule;
+}
+
+type AnyRecord = Record<string, unknown>;
+
+// The ids in each collection that references can point to.
+type ReferenceIds = Partial<Record<RecordCollection, Set<string>>>;
+
+const enumRule = (values: Record<string, string>, fallback?: string): FieldRule => ({ type: 'enum', values: Object.values(values), fallback });
+
+const CATEGORY_RULE: FieldRule = { type: 'reference', collection: 'categories', fallback: OTHER_CATEGORY_ID };
+
+// Mirrors the record interfaces in types.ts; update both together.
+const ASSET_SCHEMA: RecordSchema = {
+    id: { type: 'id' },
+    name: { type: 'string' },
+    category: enumRule(AssetCategory),
+    amountInvested: { type: 'money' },
+    currentValue: { type: 'money' },
+    currency: { type: 'currency' },
+    date: { type: 'date' },
+};
+
+const SCHEMAS: Record<RecordCollection, RecordSchema> = {
+    expenses: {
+        id: { type: 'id' },
+        date: { type: 'date' },
+        category: CATEGORY_RULE,
+        amount: { type: 'money' },
+        description: { type: 'string' },
+        mode: enumRule(ExpenseMode, ExpenseMode.Survival),
+        currency: { type: 'currency' },
+        externalId: { type: 'string', optional: true },
+        pendingConfirmation: { type: 'boolean', optional: true },
+    },
+    recurringExpenses: {
+        id: { type: 'id' },
+        description: { type: 'string' },
+        amount: { type: 'money' },
+        category: CATEGORY_RULE,
+        mode: enumRule(ExpenseMode, ExpenseMode.Survival),
+        frequency: { type: 'enum', values: ['weekly', 'biweekly', 'monthly', 'quarterly', 'semiannual', 'annual', 'everyNMonths'], fallback: 'monthly' },
+        interval: { type: 'number', optional: true },
+        dayOfMonth: { type: 'number', optional: true },
+        startDate: { type: 'month' },
+        endDate: { type: 'month', optional: true },
+        pauses: { type: 'list', item: { start: { type: 'month' }, end: { type: 'month' } }, optional: true },
+        priceChanges: { type: 'list', item: { from: { type: 'month' }, amount: { type: 'money' } }, optional: true },
+        postedThrough: { type: 'date', optional: true },
+    },
+    debts: {
+        id: { type: 'id' },
+        name: { type: 'string' },
+        originalAmount: { type: 'money' },
+        currentBalance: { type: 'money' },
+        interestRate: { type: 'number' },
+        minimumPayment: { type: 'money' },
+        currency: { type: 'currency' },
+    },
+    income: {
+        id: { type: 'id' },
+        date: { type: 'date' },
+        source: enumRule(IncomeSource, IncomeSource.Other),
+        amount: { type: 'money' },
+        description: { type: 'string' },
+        currency: { type: 'currency' },
+        externalId: { type: 'string', optional: true },
+    },
+    investmentBaskets: {
+        id: { type: 'id' },
+        name: { type: 'string' },
+    },
+    incomeGoals: {
+        id: { type: 'id' },
+        month: { type: 'month' },
+        amount: { type: 'money' },
+    },
+    purchases: {
+        id: { type: 'id' },
+        name: { type: 'string' },
+        cost: { type: 'money' },
+        category: CATEGORY_RULE,
+        justification: { type: 'string' },
+        status: enumRule(PurchaseStatus, PurchaseStatus.Considering),
+        dateAdded: { type: 'date' },
+    },
+    categories: {
+        id: { type: 'id' },
+        name: { type: 'string' },
+        parentId: { type: 'string', optional: true },
+        color: { type: 'string' },
+        archived: { type: 'boolean', optional: true },
+    },
+    exchangeRates: {
+        id: { type: 'id' },
+        date: { type: 'date' },
+        from: { type: 'currency' },
+        to: { type: 'currency' },
+        rate: { type: 'number' },
+    },
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MONTH_PATTERN = /^\d{4}-\d{2}$/;
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+
+const isValidDate = (value: string) => DATE_PATTERN.test(value) && !isNaN(new Date(`${value}T00:00:00Z`).getTime());
+
+const toLocalDate = (date: Date) =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Accepts "1234.5", "1.234,50" and "1234,50" as they come out of spreadsheets.
+const parseNumberText = (value: string) => {
+    const cleaned = value.trim().replace(/[\s€$£]/g, '');
+    const normalized = /,\d{1,2}$/.test(cleaned) ? cleaned.replace(/\./g, '').replace(',', '.') : cleaned.replace(/,/g, '');
+    return normalized === '' ? NaN : Number(normalized);
+};
+
+const describe = (value: unknown) => {
+    if (value === undefined) return 'missing';
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'an array';
+    if (typeof value === 'string') return `"${value.length > 40 ? `${value.slice(0, 40)}…` : value}"`;
+    return typeof value === 'object' ? 'an object' : String(value);
+};
+
+// Returns the repaired value, or undefined when the value cannot be repaired.
+const repairValue = (rule: FieldRule, value: unknown, references: ReferenceIds): unknown => {
+    switch (rule.type) {
+        case 'id':
+        case 'string':
+            return typeof value === 'number' ? String(value) : value === undefined || value === null ? (rule.type === 'string' ? '' : undefined) : undefined;
+        case 'number': {
+            if (typeof value !== 'string') return undefined;
+            const parsed = parseNumberText(value);
+            return isFinite(parsed) ? parsed : undefined;
+        }
+        case 'money': {
+            // Text is an amount as people write it; a fractional number is cents that drifted.
+            if (typeof value === 'number') return isFinite(value) ? Math.round(value) : undefined;
+            if (typeof value !== 'string') return undefined;
+            const parsed = parseNumberText(value);
+            return isFinite(parsed) ? toMinor(parsed) : undefined;
+        }
+        case 'date': {
+            if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+            if (typeof value === 'string' && isValidDate(value.slice(0, 10))) return value.slice(0, 10);
+            const parsed = new Date(value);
+            return isNaN(parsed.getTime()) ? undefined : toLocalDate(parsed);
+        }
+        case 'month':
+            return typeof value === 'string' && MONTH_PATTERN.test(value.slice(0, 7)) && isValidDate(`${value.slice(0, 7)}-01`) ? value.slice(0, 7) : undefined;
+        case 'currency': {
+            const code = typeof value === 'string' ? value.trim().toUpperCase() : '';
+            return CURRENCY_PATTERN.test(code) ? code : undefined;
+        }
+        case 'boolean':
+            return value === 'true' ? true : value === 'false' ? false : undefined;
+        case 'enum': {
+            const match = typeof value === 'string' && rule.values.find(v => v.toLowerCase() === value.trim().toLowerCase());
+            return match || rule.fallback;
+        }
+        case 'reference':
+            return rule.fallback && references[rule.collection]?.has(rule.fallback) ? rule.fallback : undefined;
+        case 'list':
+            // Items that cannot be repaired are dropped.
+            return Array.isArray(value) ? value.flatMap(item => {
+                const repaired = repairItem(rule.item, item, references);
+                return repaired ? [repaired] : [];
+            }) : [];
+    }
+};
+
+const repairItem = (schema: RecordSchema, item: unknown, references: ReferenceIds): AnyRecord | null => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) return null;
+    const repaired: AnyRecord = { ...item };
+    for (const [field, rule] of Object.entries(schema)) {
+        if (!checkValue(rule, repaired[field], references)) continue;
+        repaired[field] = repairValue(rule, repaired[field], references);
+        if (repaired[field] === undefined) return null;
+    }
+    return repaired;
+};
+
+const checkValue = (rule: FieldRule, value: unknown, references: ReferenceIds): string | null => {
+    if (value === undefined && 'optional' in rule && rule.optional) return null;
+    switch (rule.type) {
+        case 'id':
+            return typeof value === 'string' && value !== '' ? null : 'expected a non-empty string id';
+        case 'string':
+            return typeof value === 'string' ? null : 'expected text';
+        case 'number':
+            return typeof value === 'number' && isFinite(value) ? null : 'expected number';
+        case 'money':
+            return isMoney(value) ? null : 'expected a whole number of cents';
+        case 'date':
+            return typeof value === 'string' && isValidDate(value) ? null : 'expected a date (YYYY-MM-DD)';
+        case 'month':
+            return typeof value === 'string' && MONTH_PATTERN.test(value) && isValidDate(`${value}-01`) ? null : 'expected a month (YYYY-MM)';
+        case 'currency':
+            return typeof value === 'string' && CURRENCY_PATTERN.test(value) ? null : 'expected a currency code (e.g. EUR)';
+        case 'boolean':
+            return typeof value === 'boolean' ? null : 'expected true or false';
+        case 'enum':
+            return typeof value === 'string' && rule.values.includes(value) ? null : `expected one of ${rule.values.join(', ')}`;
+        case 'reference':
+            return typeof value === 'string' && references[rule.collection]?.has(value) ? null : `expected the id of an existing entry in ${rule.collection}`;
+        case 'list': {
+            if (!Array.isArray(value)) return 'expected a list';
+            const index = value.findIndex(item => !item || typeof item !== 'object'
+                || Object.entries(rule.item).some(([field, itemRule]) => checkValue(itemRule, (item as AnyRecord)[field], references)));
+            return index < 0 ? null : `entry ${index + 1} is invalid`;
+        }
+    }
+};
+
+interface RecordCheck {
+    issues: ValidationIssue[];
+    repaired: AnyRecord | null; // Null when at least one issue cannot be fixed
+}
+
+const checkRecord = (record: unknown, schema: RecordSchema, path: string, usedIds: Set<string>, newId: () => string, references: ReferenceIds): RecordCheck => {
+    if (!record || typeof record !== 'object' || Array.isArray(record)) {
+        return { issues: [{ path, message: `expected a record, got ${describe(record)}`, fixable: false }], repaired: null };
+    }
+    const issues: ValidationIssue[] = [];
+    const repaired: AnyRecord = { ...record };
+    Object.entries(schema).forEach(([field, rule]) => {
+        const value = (record as AnyRecord)[field];
+        const problem = checkValue(rule, value, references);
+        if (!problem) return;
+        const fixed = rule.type === 'id' ? repairValue(rule, value, references) ?? newId() : repairValue(rule, value, references);
+        issues.push({ path: `${path}.${field}`, message: `${problem}, got ${describe(value)}`, fixable: fixed !== undefined });
+        repaired[field] = fixed;
+    });
+    const id = repaired.id;
+    if (typeof id === 'string' && id !== '') {
+        const unique = usedIds.has(id) ? newId() : id;
+        if (unique !== id) {
+            issues.push({ path: `${path}.id`, message: `duplicate id "${id}"`, fixable: true });
+            repaired.id = unique;
+        }
+        usedIds.add(unique);
+    }
+    return { issues, repaired: issues.every(i => i.fixable) ? repaired : null };
+};
+
+interface CollectionCheck {
+    collection: RecordCollection;
+    results: { original: unknown; check: RecordCheck }[];
+    issues: ValidationIssue[]; // Problems with the collection itself, not its records
+}
+
+const idsOf = (records: unknown) => new Set(Array.isArray(records)
+    ? records.flatMap(r => r && typeof r === 'object' && typeof r.id === 'string' ? [r.id] : [])
+    : []);
+
+const checkCollections = (data: FinancialData): CollectionCheck[] => {
+    let idCounter = 0;
+    const usedAssetIds = new Set<string>();
+    const references: ReferenceIds = {
+        // Categories that are not a list are replaced by the defaults, so references are checked against those.
+        categories: Array.isArray(data.categories) ? idsOf(data.categories) : idsOf(DEFAULT_CATEGORIES),
+    };
+    return RECORD_COLLECTIONS.map(collection => {
+        const records: unknown = data[collection];
+        if (!Array.isArray(records)) {
+            return { collection, results: [], issues: [{ path: collection, message: `expected a list, got ${describe(records)}`, fixable: true }] };
+        }
+        const usedIds = new Set<string>();
+        const newId = () => `${collection}-fixed-${++idCounter}`;
+        const results = records.map((record, index) => {
+            const path = `${collection}[${index}]`;
+            const check = checkRecord(record, SCHEMAS[collection], path, usedIds, newId, references);
+            if (collection !== 'investmentBaskets' || !check.repaired) return { original: record, check };
+
+            // Assets are checked one by one: an invalid asset should not cost the whole basket.
+            const assets: unknown = (record as AnyRecord).assets;
+            if (!Array.isArray(assets)) {
+                const issue = { path: `${path}.assets`, message: `expected a list, got ${describe(assets)}`, fixable: true };
+                return { original: record, check: { issues: [...check.issues, issue], repaired: { ...check.repaired, assets: [] } } };
+            }
+            const assetChecks = assets.map((asset, i) => checkRecord(asset, ASSET_SCHEMA, `${path}.assets[${i}]`, usedAssetIds, () => `asset-fixed-${++idCounter}`, references));
+            return {
+                original: record,
+                check: {
+                    issues: [...check.issues, ...assetChecks.flatMap(c => c.issues)],
+                    repaired: { ...check.repaired, assets: assetChecks.filter(c => c.repaired).map(c => c.repaired) },
+                },
+            };
+        });
+        return { collection, results, issues: [] };
+    });
+};
+
+export const validateFinancialData = (data: FinancialData): ValidationReport => {
+    const checks = checkCollections(data);
+    const invalid = checks.flatMap(c => c.results).filter(r => r.check.issues.length > 0);
+    return {
+        issues: checks.flatMap(c => [...c.issues, ...c.results.flatMap(r => r.check.issues)]),
+        invalidRecords: invalid.length,
+        fixableRecords: invalid.filter(r => r.check.issues.every(i => i.fixable)).length,
+    };
+};
+
+// "valid-only" drops every record with an issue; "auto-fix" repairs what it can and drops the rest.
+// A basket with invalid assets counts as one record, but only its invalid assets are dropped.
+// Categories that are not a list are restored to the defaults; references to any other category are then unknown.
+export const repairFinancialData = (data: FinancialData, mode: RepairMode): FinancialData => {
+    const repaired: AnyRecord = { ...data };
+    checkCollections(data).forEach(({ collection, results }) => {
+        if (collection === 'categories' && !Array.isArray(data.categories)) {
+            repaired.categories = DEFAULT_CATEGORIES.map(c => ({ ...c }));
+            return;
+        }
+        repaired[collection] = results.flatMap(({ original, check }) => {
+            if (check.issues.length === 0) return [original];
+            if (collection === 'investmentBaskets' && check.repaired && check.issues.every(i => /\.assets[[.]/.test(i.path))) {
+                // Only assets are affected: keep the basket with its valid assets.
+                const basket = original as AnyRecord;
+                const assets = Array.isArray(basket.assets) ? basket.assets : [];
+                return mode === 'auto-fix' ? [check.repaired] : [{ ...basket, assets: assets.filter((_, i) => !check.issues.some(issue => issue.path.includes(`.assets[${i}]`))) }];
+            }
+            return mode === 'auto-fix' && check.repaired ? [check.repaired] : [];
+        });
+    });
+    // Records that failed their schema were repaired or dropped above.
+    return repaired as unknown as FinancialData;
+};
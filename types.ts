@@ -1,14 +1,10 @@
-export enum ExpenseCategory {
-  Housing = "Housing",
-  Food = "Food",
-  Transportation = "Transportation",
-  TrainingGym = "Training/Gym",
-  Health = "Health",
-  DebtPayments = "Debt Payments",
-  BusinessExpenses = "Business Expenses",
-  Personal = "Personal",
-  Emergency = "Emergency",
-  Other = "Other",
+// Categories are defined by the user; see services/categories.ts.
+export interface Category {
+  id: string;
+  name: string;
+  parentId?: string; // Set on subcategories, e.g. Restaurants under Food; only one level deep
+  color: string; // Hex, e.g. "#0d6efd"
+  archived?: boolean; // Hidden from pickers, still shown on the records that use it
 }
 
 export enum ExpenseMode {
@@ -22,32 +18,60 @@ export enum ExpensePlanMode {
   Growth = "Growth Mode",
 }
 
+// An amount in minor units (cents): always an integer, so sums never drift.
+export type Money = number;
+
 export interface Expense {
   id: string;
   date: string;
-  category: ExpenseCategory;
-  amount: number;
+  category: string; // Category id
+  amount: Money;
   description: string;
   mode: ExpenseMode;
+  currency: string; // ISO 4217 code, e.g. "EUR"
+  externalId?: string; // Bank transaction id for entries imported from a statement
+  pendingConfirmation?: boolean; // Posted automatically from a recurring expense and not yet approved
+}
+
+// See services/recurrence.ts for how each schedule falls on the calendar.
+export type RecurrenceFrequency = 'weekly' | 'biweekly' | 'monthly' | 'quarterly' | 'semiannual' | 'annual' | 'everyNMonths';
+
+// A break in payments; months are YYYY-MM and both inclusive.
+export interface RecurrencePause {
+  start: string;
+  end: string;
+}
+
+// The amount charged from a month (YYYY-MM) on, until the next change.
+export interface PriceChange {
+  from: string;
+  amount: Money;
 }
 
 export interface RecurringExpense {
   id:string;
   description: string;
-  amount: number;
-  category: ExpenseCategory;
+  amount: Money;
+  category: string; // Category id
   mode: ExpenseMode;
-  frequency: 'monthly';
-  startDate: string; // YYYY-MM
+  frequency: RecurrenceFrequency;
+  interval?: number; // Months between payments, for 'everyNMonths'
+  dayOfMonth?: number; // 1-31, the last day in shorter months; defaults to 1
+  startDate: string; // YYYY-MM, the month of the first payment
+  endDate?: string; // YYYY-MM, the month of the last payment; open-ended when missing
+  pauses?: RecurrencePause[];
+  priceChanges?: PriceChange[]; // `amount` applies until the first one
+  postedThrough?: string; // YYYY-MM-DD, the last day automatic posting has covered
 }
 
 export interface Debt {
   id: string;
   name: string;
-  originalAmount: number;
-  currentBalance: number;
+  originalAmount: Money;
+  currentBalance: Money;
   interestRate: number;
-  minimumPayment: number;
+  minimumPayment: Money;
+  currency: string; // Of all the amounts above
 }
 
 export enum IncomeSource {
@@ -63,14 +87,16 @@ export interface Income {
   id: string;
   date: string;
   source: IncomeSource;
-  amount: number;
+  amount: Money;
   description: string;
+  currency: string;
+  externalId?: string; // Bank transaction id for entries imported from a statement
 }
 
 export interface IncomeGoal {
   id: string;
   month: string; // YYYY-MM
-  amount: number;
+  amount: Money;
 }
 
 export enum AssetCategory {
@@ -85,8 +111,9 @@ export interface Asset {
   id: string;
   name: string;
   category: AssetCategory;
-  amountInvested: number;
-  currentValue: number;
+  amountInvested: Money;
+  currentValue: Money;
+  currency: string;
   date: string;
 }
 
@@ -105,15 +132,25 @@ export enum PurchaseStatus {
 export interface Purchase {
     id: string;
     name: string;
-    cost: number;
-    category: ExpenseCategory;
+    cost: Money;
+    category: string; // Category id
     justification: string;
     status: PurchaseStatus;
     dateAdded: string; // YYYY-MM-DD
 }
 
 
+// 1 `from` is worth `rate` `to` as of `date`; the reverse direction is implied.
+export interface ExchangeRate {
+  id: string;
+  date: string; // YYYY-MM-DD
+  from: string;
+  to: string;
+  rate: number;
+}
+
 export interface FinancialData {
+  schemaVersion: number;
   expenses: Expense[];
   recurringExpenses: RecurringExpense[];
   debts: Debt[];
@@ -121,30 +158,108 @@ export interface FinancialData {
   investmentBaskets: InvestmentBasket[];
   incomeGoals: IncomeGoal[];
   purchases: Purchase[];
+  exchangeRates: ExchangeRate[];
+  categories: Category[];
 }
 
 export type FinancialAction =
   | { type: "SET_STATE"; payload: FinancialData }
+  | { type: "APPLY_SYNC"; payload: { base: FinancialData; data: FinancialData } }
   | { type: "ADD_EXPENSE"; payload: Expense }
   | { type: "UPDATE_EXPENSE"; payload: Expense }
   | { type: "DELETE_EXPENSE"; payload: { id: string } }
   | { type: "ADD_RECURRING_EXPENSE"; payload: RecurringExpense }
   | { type: "UPDATE_RECURRING_EXPENSE"; payload: RecurringExpense }
   | { type: "DELETE_RECURRING_EXPENSE"; payload: { id: string } }
-  | { type: "LOG_RECURRING_EXPENSES_FOR_MONTH"; payload: { month: string } }
+  | { type: "LOG_RECURRING_EXPENSES_FOR_MONTH"; payload: { month: string; currency: string } }
+  | { type: "POST_DUE_RECURRING_EXPENSES"; payload: { until: string; currency: string } }
+  | { type: "CONFIRM_EXPENSES"; payload: { confirmations: { id: string; amount: Money }[] } }
   | { type: "ADD_DEBT"; payload: Debt }
   | { type: "UPDATE_DEBT"; payload: Debt }
   | { type: "DELETE_DEBT"; payload: { id: string } }
   | { type: "ADD_INCOME"; payload: Income }
   | { type: "UPDATE_INCOME"; payload: Income }
   | { type: "DELETE_INCOME"; payload: { id: string } }
+  | { type: "IMPORT_TRANSACTIONS"; payload: { expenses: Expense[]; income: Income[] } }
   | { type: "ADD_PURCHASE"; payload: Purchase }
-  | { type: "UPDATE_PURCHASE_STATUS"; payload: { id: string; status: PurchaseStatus } }
-  | { type: "UPDATE_INCOME_GOAL"; payload: { month: string; amount: number } }
-  | { type: "UPDATE_DEBT_BALANCE"; payload: { id: string; newBalance: number } }
+  | { type: "UPDATE_PURCHASE_STATUS"; payload: { id: string; status: PurchaseStatus; expense?: Expense } }
+  | { type: "UPDATE_INCOME_GOAL"; payload: { month: string; amount: Money } }
+  | { type: "UPDATE_DEBT_BALANCE"; payload: { id: string; newBalance: Money } }
   | { type: "UPDATE_BASKET_NAME"; payload: { basketId: string; name: string } }
   | { type: "ADD_ASSET"; payload: { basketId: string; assetData: Omit<Asset, 'id'> } }
   | { type: "UPDATE_ASSET"; payload: { basketId: string; asset: Asset } }
-  | { type: "DELETE_ASSET"; payload: { basketId: string; assetId: string } };
+  | { type: "DELETE_ASSET"; payload: { basketId: string; assetId: string } }
+  | { type: "ADD_EXCHANGE_RATE"; payload: ExchangeRate }
+  | { type: "DELETE_EXCHANGE_RATE"; payload: { id: string } }
+  | { type: "ADD_CATEGORY"; payload: Category }
+  | { type: "UPDATE_CATEGORY"; payload: Category }
+  // Moves every record and subcategory of `sourceId` to `targetId` and removes the source.
+  | { type: "MERGE_CATEGORIES"; payload: { sourceId: string; targetId: string } };
+
+export interface HistoryEntry {
+  id: string;
+  label: string; // Describes the change made from this state
+  state: FinancialData;
+}
+
+export type JournalEntity = 'expense' | 'recurringExpense' | 'debt' | 'income' | 'incomeGoal' | 'purchase' | 'basket' | 'asset' | 'exchangeRate' | 'category';
+
+export interface RecordChange {
+  entity: JournalEntity;
+  id: string;
+  kind: 'added' | 'updated' | 'removed';
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+}
+
+export interface JournalEntry {
+  id: string;
+  timestamp: string; // ISO 8601
+  type: FinancialAction['type'] | 'UNDO' | 'REDO';
+  label: string;
+  action?: FinancialAction; // Omitted for SET_STATE and APPLY_SYNC, whose payloads are entire data sets
+  changes: RecordChange[];
+  schemaVersion?: number; // Of the records in `changes`; missing on entries from before v3
+}
+
+export type SnapshotKind = 'daily' | 'weekly' | 'pre-import' | 'manual';
+
+export interface Snapshot {
+  id: string;
+  kind: SnapshotKind;
+  createdAt: string; // ISO 8601
+  data: FinancialData;
+}
+
+export interface Profile {
+  id: string;
+  name: string; // e.g. "Personal" or "Side business"
+}
+
+export type CurrencyPosition = 'before' | 'after';
+
+// 'locale' writes dates the way the chosen locale does.
+export type DisplayDateFormat = 'locale' | 'YYYY-MM-DD' | 'DD.MM.YYYY' | 'DD/MM/YYYY' | 'MM/DD/YYYY';
+
+export interface AppSettings {
+  // How many snapshots of each automatic kind to keep; manual ones stay until deleted.
+  snapshotRetention: Record<Exclude<SnapshotKind, 'manual'>, number>;
+  syncServerUrl: string; // Self-hosted sync server, empty when device sync is off
+  syncVaultId: string; // Sync code shared by all devices of one person
+  displayName: string; // Used to greet on the dashboard
+  planningPeriod: {
+    startMonth: string; // YYYY-MM, or empty to always start at the current month
+    months: number;
+  };
+  // Totals, charts, goals and recurring expenses are in this currency; other amounts are converted to it.
+  baseCurrency: string;
+  // How numbers, amounts and dates are written everywhere in the app.
+  locale: string; // BCP 47 tag, e.g. "de-DE"; empty for the browser's language
+  currencyPosition: CurrencyPosition;
+  dateFormat: DisplayDateFormat;
+  weekStartsOn: number; // 0 is Sunday, 1 is Monday
+  // Post recurring expenses as they come due when the app starts; they wait for confirmation in Expenses.
+  autoPostRecurring: boolean;
+}
 
-export type View = "dashboard" | "expenses" | "debts" | "income" | "investments" | "purchases" | "sync" | "rundown" | "settings";
+export type View = "dashboard" | "expenses" | "debts" | "income" | "investments" | "purchases" | "sync" | "rundown" | "settings" | "activity" | "report";